@@ -1,13 +1,20 @@
 'use client';
 
 import { LazyScene } from '@/components/viewer/Scene.lazy';
+import { DesignImageDropZone } from '@/components/viewer/DesignImageDropZone';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { PanelLayout } from '@/components/layout/PanelLayout';
 import { LeftPanel } from '@/components/layout/LeftPanel';
 import { RightPanel } from '@/components/layout/RightPanel';
 import { BottomPanel } from '@/components/layout/BottomPanel';
+import { ToastProvider } from '@/components/providers/ToastProvider';
+import { RecoveryPrompt } from '@/components/configurator/RecoveryPrompt';
+import { useSharedDesign } from '@/hooks/useSharedDesign';
 
 export default function Home() {
+  // Hydrate the configurator from a shared design link, if any
+  const sharedDesignLoaded = useSharedDesign();
+
   return (
     <AppLayout showSidebar={false}>
       {/* Panel Layout with Viewport and Control Panels */}
@@ -16,11 +23,13 @@ export default function Home() {
         rightPanel={<RightPanel />}
         bottomPanel={<BottomPanel />}
       >
-        {/* Main Content - 3D Viewer */}
-        <div className="relative w-full h-full">
+        {/* Main Content - 3D Viewer; drop an exported PNG here to open its design */}
+        <DesignImageDropZone>
           <LazyScene />
-        </div>
+        </DesignImageDropZone>
       </PanelLayout>
+      <RecoveryPrompt sharedDesignLoaded={sharedDesignLoaded} />
+      <ToastProvider />
     </AppLayout>
   );
 }
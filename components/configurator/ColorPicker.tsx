@@ -10,6 +10,7 @@ import { HexColorPicker } from 'react-colorful';
 import { hexToRgb, rgbToHex, normalizeHex, isValidHex } from '@/lib/colorUtils';
 import { RGB } from '@/lib/colorUtils';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
 import materialsData from '@/data/materials.json';
 import { MaterialLibrary } from '@/types/materials';
 import { Card } from '@/components/ui/Card';
@@ -57,7 +58,8 @@ const PRESET_COLORS = [
 ];
 
 export function ColorPicker({ color, onChange, label = 'Color' }: ColorPickerProps) {
-  const { selectedComponent, materialMap, recentColors } = useConfiguratorStore();
+  const { selectedComponent, recentColors } = useConfiguratorStore();
+  const { materialMap } = useActiveColorway();
   const [hexValue, setHexValue] = useState(color);
   const [rgbValue, setRgbValue] = useState<RGB>(hexToRgb(color));
   const [colorMode, setColorMode] = useState<'basic' | 'material'>('basic');
@@ -0,0 +1,133 @@
+'use client';
+
+/**
+ * ColorwaySwitcher Component
+ * Switches between the base colorway and its variants, and edits the text print colors of the active variant
+ */
+
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
+import { getDesignVariant } from '@/lib/designVariants';
+import { getPrintLabel } from '@/lib/designHistory';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+export function ColorwaySwitcher() {
+  const {
+    variants,
+    activeVariantId,
+    selectedComponent,
+    addVariant,
+    renameVariant,
+    removeVariant,
+    setActiveVariant,
+    updatePrint,
+  } = useConfiguratorStore();
+  const { printMap } = useActiveColorway();
+  const activeVariant = getDesignVariant(variants, activeVariantId);
+
+  const textPrints = selectedComponent
+    ? (printMap[selectedComponent] || []).filter((print) => print.textStyle)
+    : [];
+
+  const handleAdd = () => {
+    const name = prompt('Colorway name:', `Colorway ${variants.length + 1}`);
+    if (name?.trim()) {
+      addVariant(name.trim());
+    }
+  };
+
+  const handleRename = () => {
+    if (!activeVariant) return;
+    const name = prompt('Rename colorway:', activeVariant.name);
+    if (name?.trim()) {
+      renameVariant(activeVariant.id, name.trim());
+    }
+  };
+
+  const handleRemove = () => {
+    if (!activeVariant) return;
+    if (confirm(`Delete the "${activeVariant.name}" colorway?`)) {
+      removeVariant(activeVariant.id);
+    }
+  };
+
+  const chipClassName = (isActive: boolean) => `
+    px-3 py-1 rounded-small text-small transition-smooth
+    ${isActive ? 'bg-accent-blue text-white' : 'bg-base-light-gray text-text-primary hover:bg-base-light-gray/70'}
+  `;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        <button
+          onClick={() => setActiveVariant(null)}
+          className={chipClassName(!activeVariant)}
+          title="Edit the base colors and materials"
+        >
+          Base
+        </button>
+        {variants.map((variant) => (
+          <button
+            key={variant.id}
+            onClick={() => setActiveVariant(variant.id)}
+            className={chipClassName(variant.id === activeVariant?.id)}
+            title={`Edit the "${variant.name}" colorway`}
+          >
+            {variant.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="ghost" size="sm" onClick={handleAdd} title="Start a colorway from the current one">
+          Add
+        </Button>
+        {activeVariant && (
+          <>
+            <Button variant="ghost" size="sm" onClick={handleRename}>
+              Rename
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleRemove}>
+              Delete
+            </Button>
+          </>
+        )}
+      </div>
+
+      {activeVariant ? (
+        <p className="text-tiny text-text-tertiary">
+          Color and material changes apply to &quot;{activeVariant.name}&quot; only.
+        </p>
+      ) : (
+        variants.length > 0 && (
+          <p className="text-tiny text-text-tertiary">
+            Base changes show in every colorway that doesn&apos;t override them.
+          </p>
+        )
+      )}
+
+      {/* Text print colors of the active variant */}
+      {activeVariant && selectedComponent && textPrints.length > 0 && (
+        <Card variant="standard" className="p-3 space-y-2">
+          <h4 className="text-small font-medium text-text-primary">Print colors</h4>
+          {textPrints.map((print) => (
+            <label key={print.id} className="flex items-center gap-2 text-small text-text-secondary">
+              <input
+                type="color"
+                value={print.textStyle!.color}
+                onChange={(e) =>
+                  updatePrint(selectedComponent, print.id, {
+                    textStyle: { ...print.textStyle!, color: e.target.value },
+                  })
+                }
+                className="w-6 h-6 rounded-small border border-base-light-gray cursor-pointer"
+              />
+              <span className="truncate">{getPrintLabel(print)}</span>
+            </label>
+          ))}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+/**
+ * ComponentContextMenu Component
+ * Right-click menu of a component card: copy its style and paste the copied style
+ */
+
+import { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { ComponentType, COMPONENT_LABELS } from '@/types/models';
+import { useStyleClipboardStore } from '@/stores/styleClipboardStore';
+
+interface ComponentContextMenuProps {
+  component: ComponentType;
+  position: { x: number; y: number }; // Viewport coordinates of the click
+  availableComponents: ComponentType[];
+  onPasteToSelection: () => void; // Open the component picker for a chosen set
+  onClose: () => void;
+}
+
+export function ComponentContextMenu({
+  component,
+  position,
+  availableComponents,
+  onPasteToSelection,
+  onClose,
+}: ComponentContextMenuProps) {
+  const { style, copyStyle, pasteStyle } = useStyleClipboardStore();
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click, Escape or scroll
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('scroll', onClose, true);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('scroll', onClose, true);
+    };
+  }, [onClose]);
+
+  const run = (action: () => void) => () => {
+    action();
+    onClose();
+  };
+
+  const items = [
+    {
+      label: `Copy ${COMPONENT_LABELS[component]} style`,
+      onClick: run(() => copyStyle(component)),
+      disabled: false,
+    },
+    {
+      label: style ? `Paste ${COMPONENT_LABELS[style.source]} style` : 'Paste style',
+      onClick: run(() => pasteStyle([component])),
+      disabled: !style,
+    },
+    {
+      label: 'Paste style to all components',
+      onClick: run(() => pasteStyle(availableComponents)),
+      disabled: !style,
+    },
+    {
+      label: 'Paste style to…',
+      onClick: run(onPasteToSelection),
+      disabled: !style,
+    },
+  ];
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed z-dropdown min-w-[12rem] py-1 bg-white rounded-small border border-base-light-gray shadow-elevation-2"
+      style={{ left: position.x, top: position.y }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map((item) => (
+        <button
+          key={item.label}
+          role="menuitem"
+          onClick={item.onClick}
+          disabled={item.disabled}
+          className="w-full px-3 py-1.5 text-left text-small text-text-primary transition-smooth hover:bg-base-light-gray disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>,
+    document.body
+  );
+}
@@ -2,29 +2,21 @@
 
 /**
  * ComponentSelector Component
- * Card-based selection with hover effects, selected state with glow, and icon support
+ * Card-based selection with hover effects, selected state with glow, and icon support.
+ * Right-click a card to copy its style or paste the copied one
  */
 
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
-import { ComponentType } from '@/types/models';
+import { useStyleClipboardStore } from '@/stores/styleClipboardStore';
+import { ComponentType, COMPONENT_LABELS } from '@/types/models';
+import { getMirroredComponent } from '@/lib/designSymmetry';
 import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { ComponentContextMenu } from './ComponentContextMenu';
 import { Badge } from '@/components/ui/Badge';
 import { HoverScale } from '@/lib/animations/framerMotion';
 
-const COMPONENT_LABELS: Record<ComponentType, string> = {
-  [ComponentType.BODY]: 'Body',
-  [ComponentType.SLEEVE_LEFT]: 'Left Sleeve',
-  [ComponentType.SLEEVE_RIGHT]: 'Right Sleeve',
-  [ComponentType.COLLAR]: 'Collar',
-  [ComponentType.CUFF_LEFT]: 'Left Cuff',
-  [ComponentType.CUFF_RIGHT]: 'Right Cuff',
-  [ComponentType.BUTTONS]: 'Buttons',
-  [ComponentType.PLACKET]: 'Placket',
-  [ComponentType.POCKET]: 'Pocket',
-  [ComponentType.HEM]: 'Hem',
-};
-
 const COMPONENT_ICONS: Record<ComponentType, React.ReactNode> = {
   [ComponentType.BODY]: (
     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -80,12 +72,44 @@ const COMPONENT_ICONS: Record<ComponentType, React.ReactNode> = {
 };
 
 export function ComponentSelector() {
-  const { componentMap, selectedComponent, setComponent } = useConfiguratorStore();
+  const {
+    componentMap,
+    selectedComponent,
+    setComponent,
+    symmetry,
+    setSymmetry,
+    mirrorPrints,
+    setMirrorPrints,
+  } = useConfiguratorStore();
+  const { style: copiedStyle, copyStyle, pasteStyle } = useStyleClipboardStore();
+  const [contextMenu, setContextMenu] = useState<{
+    component: ComponentType;
+    position: { x: number; y: number };
+  } | null>(null);
+  const [pasteTargets, setPasteTargets] = useState<ComponentType[] | null>(null); // Open "paste to" picker
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
 
   // Get available components from the component map
   const availableComponents = Array.from(
     new Set(Object.values(componentMap))
   ) as ComponentType[];
+  const hasPairedComponents = availableComponents.some((component) => getMirroredComponent(component));
+  const linkedComponent = selectedComponent && symmetry ? getMirroredComponent(selectedComponent) : null;
+
+  const togglePasteTarget = (component: ComponentType) => {
+    setPasteTargets((targets) =>
+      targets?.includes(component)
+        ? targets.filter((target) => target !== component)
+        : [...(targets || []), component]
+    );
+  };
+
+  const handlePasteToTargets = () => {
+    if (pasteTargets && pasteTargets.length > 0) {
+      pasteStyle(pasteTargets);
+    }
+    setPasteTargets(null);
+  };
 
   if (availableComponents.length === 0) {
     return (
@@ -111,6 +135,10 @@ export function ComponentSelector() {
             <HoverScale key={component} scale={1.02}>
               <button
                 onClick={() => setComponent(component === selectedComponent ? null : component)}
+                onContextMenu={(e) => {
+                  e.preventDefault();
+                  setContextMenu({ component, position: { x: e.clientX, y: e.clientY } });
+                }}
                 className={`
                   relative p-3 rounded-medium border-2 transition-smooth
                   ${
@@ -152,6 +180,70 @@ export function ComponentSelector() {
         })}
       </div>
 
+      {/* Paste style to a chosen set of components */}
+      {pasteTargets && copiedStyle && (
+        <Card variant="standard" className="p-3 space-y-2">
+          <p className="text-small font-medium text-text-primary">
+            Paste {COMPONENT_LABELS[copiedStyle.source]} style to:
+          </p>
+          <div className="grid grid-cols-2 gap-1">
+            {availableComponents.map((component) => (
+              <label
+                key={component}
+                className="flex items-center gap-2 text-tiny text-text-secondary cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={pasteTargets.includes(component)}
+                  onChange={() => togglePasteTarget(component)}
+                  className="accent-accent-blue"
+                />
+                {COMPONENT_LABELS[component]}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handlePasteToTargets}
+              disabled={pasteTargets.length === 0}
+            >
+              Paste
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setPasteTargets(null)}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {/* Symmetry */}
+      {hasPairedComponents && (
+        <Card variant="standard" className="p-3 space-y-2">
+          <label className="flex items-center gap-2 text-small text-text-primary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={symmetry}
+              onChange={(e) => setSymmetry(e.target.checked)}
+              className="accent-accent-blue"
+            />
+            Left/right symmetry
+          </label>
+          {symmetry && (
+            <label className="flex items-center gap-2 text-tiny text-text-secondary cursor-pointer pl-5">
+              <input
+                type="checkbox"
+                checked={mirrorPrints}
+                onChange={(e) => setMirrorPrints(e.target.checked)}
+                className="accent-accent-blue"
+              />
+              Mirror sleeve prints
+            </label>
+          )}
+        </Card>
+      )}
+
       {/* Selected component info */}
       {selectedComponent && (
         <Card variant="standard" className="p-3 bg-accent-blue/5 border-accent-blue/20">
@@ -164,12 +256,46 @@ export function ComponentSelector() {
                 Selected: {COMPONENT_LABELS[selectedComponent]}
               </p>
               <p className="text-tiny text-text-secondary">
-                Customize this component
+                {linkedComponent
+                  ? `Linked with ${COMPONENT_LABELS[linkedComponent]}`
+                  : 'Customize this component'}
               </p>
             </div>
           </div>
+          <div className="flex flex-wrap gap-2 mt-2">
+            <Button variant="ghost" size="sm" onClick={() => copyStyle(selectedComponent)}>
+              Copy style
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => pasteStyle([selectedComponent])}
+              disabled={!copiedStyle}
+              title={copiedStyle ? `Paste ${COMPONENT_LABELS[copiedStyle.source]} style` : 'Copy a style first'}
+            >
+              Paste style
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPasteTargets([])}
+              disabled={!copiedStyle}
+            >
+              Paste to…
+            </Button>
+          </div>
         </Card>
       )}
+
+      {contextMenu && (
+        <ComponentContextMenu
+          component={contextMenu.component}
+          position={contextMenu.position}
+          availableComponents={availableComponents}
+          onPasteToSelection={() => setPasteTargets([])}
+          onClose={closeContextMenu}
+        />
+      )}
     </div>
   );
 }
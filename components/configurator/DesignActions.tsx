@@ -2,7 +2,7 @@
 
 /**
  * DesignActions Component
- * Toolbar layout with icon buttons, tooltips, export menu with animations, and keyboard shortcuts display
+ * Toolbar layout with icon buttons, tooltips, export menu with animations, batch export queue, and keyboard shortcuts display
  */
 
 import { useEffect, useState, useRef } from 'react';
@@ -12,6 +12,19 @@ import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { MotionDiv, AnimatePresence } from '@/lib/animations/framerMotion';
 import { Badge } from '@/components/ui/Badge';
+import { DesignComparison } from './DesignComparison';
+import { TurntableOptions } from '@/components/export/TurntableOptions';
+import { ContactSheetOptions } from '@/components/export/ContactSheetOptions';
+import { BatchExportOptions } from '@/components/export/BatchExportOptions';
+import { ExportQueue } from '@/components/export/ExportQueue';
+import { createDesignStateSnapshot } from '@/lib/designState';
+import { createShareUrl } from '@/lib/designShare';
+import { exportDesignPackage, importDesignPackage, DESIGN_PACKAGE_EXTENSION } from '@/lib/export/designPackage';
+import { createCanvasThumbnail } from '@/lib/export/imageExport';
+import { exportOrderSummary } from '@/lib/export/orderExport';
+import { getViewerCanvas } from '@/lib/viewerCanvas';
+import { toast } from '@/stores/toastStore';
+import { logger } from '@/lib/logger';
 
 export function DesignActions() {
   const {
@@ -19,14 +32,18 @@ export function DesignActions() {
     redo,
     canUndo,
     canRedo,
-    saveToHistory,
+    getUndoLabel,
+    getRedoLabel,
     currentMode,
     setMode,
+    loadDesign,
   } = useConfiguratorStore();
-  const { requestExport, isExporting, exportError } = useExportStore();
+  const { requestExport, isExporting, exportError, modelTextureSize, setModelTextureSize } = useExportStore();
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -72,20 +89,105 @@ export function DesignActions() {
   }, [showExportMenu]);
 
   const handleReset = () => {
-    if (confirm('Are you sure you want to reset the design? This cannot be undone.')) {
+    if (confirm('Are you sure you want to reset the design?')) {
       setMode('blank');
-      saveToHistory();
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      const { url, nonShareablePrints, tooLong } = createShareUrl(
+        createDesignStateSnapshot(useConfiguratorStore.getState())
+      );
+      await navigator.clipboard.writeText(url);
+
+      if (nonShareablePrints.length > 0) {
+        const reasons = Array.from(new Set(nonShareablePrints.map((print) => print.reason))).join('; ');
+        toast.warning(
+          `Link copied without ${nonShareablePrints.length} print${nonShareablePrints.length === 1 ? '' : 's'} (${reasons}). Save or export the design to include them.`,
+          { duration: 8000 }
+        );
+      }
+      if (tooLong) {
+        toast.warning(
+          `${nonShareablePrints.length > 0 ? 'The link' : 'Link copied, but it'} is very long (${Math.round(url.length / 1000)}k characters) and may be cut off when pasted. Save or export the design to share it as a file.`,
+          { duration: 8000 }
+        );
+      }
+      if (nonShareablePrints.length === 0 && !tooLong) {
+        toast.success('Share link copied to clipboard');
+      }
+
+      logger.info('Share link created', {
+        context: 'DesignActions',
+        metadata: { length: url.length, tooLong, nonShareablePrints: nonShareablePrints.length },
+      });
+    } catch (error) {
+      logger.error('Failed to create share link', {
+        context: 'DesignActions',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      toast.error('Failed to create share link');
+    }
+  };
+
+  const handleExportPackage = async () => {
+    try {
+      const canvas = getViewerCanvas();
+      await exportDesignPackage(createDesignStateSnapshot(useConfiguratorStore.getState()), {
+        previewDataUrl: canvas ? createCanvasThumbnail(canvas, 1024) : undefined,
+      });
+    } catch (error) {
+      toast.error('Failed to export design package');
+    }
+  };
+
+  const handleImportPackage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { design } = await importDesignPackage(file);
+      loadDesign(design);
+      toast.success(`Imported "${file.name}"`);
+    } catch (error) {
+      logger.error('Failed to import design package', {
+        context: 'DesignActions',
+        error: error instanceof Error ? error : new Error(String(error)),
+        metadata: { filename: file.name },
+      });
+      toast.error(`Could not import "${file.name}": ${error instanceof Error ? error.message : String(error)}`, {
+        duration: 8000,
+      });
+    }
+  };
+
+  const handleExportOrder = () => {
+    try {
+      exportOrderSummary();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export order summary');
     }
   };
 
   const handleExport = (
-    format: 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf',
+    format: 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf' | 'usdz' | 'obj' | 'textures' | 'colorways' | 'roster' | 'shirt' | 'order',
     quality: 'standard' | 'high' = 'standard'
   ) => {
-    requestExport(format, quality);
+    if (format === 'shirt') {
+      handleExportPackage();
+    } else if (format === 'order') {
+      handleExportOrder();
+    } else {
+      requestExport(format, quality);
+    }
     setShowExportMenu(false);
   };
 
+  const undoLabel = getUndoLabel();
+  const redoLabel = getRedoLabel();
+
   const exportOptions = [
     {
       category: 'Image',
@@ -94,19 +196,31 @@ export function DesignActions() {
         { format: 'jpg' as const, label: 'JPG', quality: 'standard' as const },
         { format: 'png' as const, label: 'PNG (4K)', quality: 'high' as const },
         { format: 'jpg' as const, label: 'JPG (4K)', quality: 'high' as const },
+        { format: 'colorways' as const, label: 'All colorways (ZIP)', quality: 'standard' as const },
+        { format: 'roster' as const, label: 'Team roster (ZIP)', quality: 'standard' as const },
       ],
     },
     {
       category: 'Document',
-      options: [{ format: 'pdf' as const, label: 'PDF', quality: 'standard' as const }],
+      options: [
+        { format: 'pdf' as const, label: 'Tech pack (PDF)', quality: 'standard' as const },
+        { format: 'order' as const, label: 'Order summary (JSON)', quality: 'standard' as const },
+      ],
     },
     {
       category: '3D Model',
       options: [
         { format: 'glb' as const, label: 'GLB', quality: 'standard' as const },
         { format: 'gltf' as const, label: 'GLTF', quality: 'standard' as const },
+        { format: 'usdz' as const, label: 'USDZ', quality: 'standard' as const },
+        { format: 'obj' as const, label: 'OBJ/MTL (ZIP)', quality: 'standard' as const },
+        { format: 'textures' as const, label: 'Textures (ZIP)', quality: 'standard' as const },
       ],
     },
+    {
+      category: 'Design Package',
+      options: [{ format: 'shirt' as const, label: '.shirt', quality: 'standard' as const }],
+    },
   ];
 
   return (
@@ -124,7 +238,7 @@ export function DesignActions() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
             </svg>
           }
-          title="Undo (Cmd/Ctrl + Z)"
+          title={undoLabel ? `Undo: ${undoLabel} (Cmd/Ctrl + Z)` : 'Undo (Cmd/Ctrl + Z)'}
         >
           Undo
         </Button>
@@ -140,7 +254,7 @@ export function DesignActions() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10h-10a8 8 0 00-8 8v2M21 10l-6 6m6-6l-6-6" />
             </svg>
           }
-          title="Redo (Cmd/Ctrl + Shift + Z)"
+          title={redoLabel ? `Redo: ${redoLabel} (Cmd/Ctrl + Shift + Z)` : 'Redo (Cmd/Ctrl + Shift + Z)'}
         >
           Redo
         </Button>
@@ -159,6 +273,58 @@ export function DesignActions() {
           Reset
         </Button>
 
+        {/* Share */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleShare}
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+            </svg>
+          }
+          title="Copy a link to this design"
+        >
+          Share
+        </Button>
+
+        {/* Compare */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowComparison(true)}
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+            </svg>
+          }
+          title="Compare two versions side by side"
+        >
+          Compare
+        </Button>
+
+        {/* Import */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => importInputRef.current?.click()}
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          }
+          title={`Open a .${DESIGN_PACKAGE_EXTENSION} design package`}
+        >
+          Import
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`.${DESIGN_PACKAGE_EXTENSION},application/zip`}
+          onChange={handleImportPackage}
+          className="hidden"
+        />
+
         {/* Export Menu */}
         <div className="relative" ref={exportMenuRef}>
           <Button
@@ -186,7 +352,7 @@ export function DesignActions() {
                 transition={{ duration: 0.2 }}
                 className="absolute top-full left-0 mt-2 w-64 z-dropdown"
               >
-                <Card variant="elevated" className="p-3">
+                <Card variant="elevated" className="p-3 max-h-[70vh] overflow-y-auto custom-scrollbar">
                   <div className="space-y-3">
                     {exportOptions.map((category) => (
                       <div key={category.category}>
@@ -211,6 +377,53 @@ export function DesignActions() {
                         </div>
                       </div>
                     ))}
+
+                    <label className="flex items-center justify-between gap-2 text-tiny text-text-secondary">
+                      3D model textures
+                      <select
+                        value={modelTextureSize ?? ''}
+                        onChange={(e) => setModelTextureSize(e.target.value ? Number(e.target.value) : null)}
+                        className="px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+                      >
+                        <option value="">Full size</option>
+                        {[2048, 1024, 512].map((size) => (
+                          <option key={size} value={size}>
+                            Max {size}px
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+
+                    <div>
+                      <h4 className="text-tiny font-medium text-text-secondary mb-2 uppercase tracking-wide">
+                        Contact Sheet
+                      </h4>
+                      <ContactSheetOptions
+                        onExport={() => {
+                          requestExport('contactSheet');
+                          setShowExportMenu(false);
+                        }}
+                      />
+                    </div>
+
+                    <div>
+                      <h4 className="text-tiny font-medium text-text-secondary mb-2 uppercase tracking-wide">
+                        Turntable
+                      </h4>
+                      <TurntableOptions
+                        onExport={() => {
+                          requestExport('turntable');
+                          setShowExportMenu(false);
+                        }}
+                      />
+                    </div>
+
+                    <div>
+                      <h4 className="text-tiny font-medium text-text-secondary mb-2 uppercase tracking-wide">
+                        Batch (ZIP)
+                      </h4>
+                      <BatchExportOptions onQueued={() => setShowExportMenu(false)} />
+                    </div>
                   </div>
                 </Card>
               </MotionDiv>
@@ -233,6 +446,9 @@ export function DesignActions() {
         </Button>
       </div>
 
+      {/* Batch Export Queue */}
+      <ExportQueue />
+
       {/* Error Message */}
       {exportError && (
         <Card variant="standard" className="p-3 bg-error-bg border-error">
@@ -242,6 +458,9 @@ export function DesignActions() {
         </Card>
       )}
 
+      {/* Comparison View */}
+      {showComparison && <DesignComparison onClose={() => setShowComparison(false)} />}
+
       {/* Keyboard Shortcuts Panel */}
       <AnimatePresence>
         {showShortcuts && (
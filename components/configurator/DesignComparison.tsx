@@ -0,0 +1,225 @@
+'use client';
+
+/**
+ * DesignComparison Component
+ * Full-screen split view rendering two designs on the same model with synchronized cameras,
+ * next to a structured diff of what changed
+ */
+
+import { Suspense, useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Canvas } from '@react-three/fiber';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useDesignLibraryStore } from '@/stores/designLibraryStore';
+import { DesignState, createDesignStateSnapshot } from '@/lib/designState';
+import { getHistoryEntry } from '@/lib/designHistory';
+import { designLibraryStorage } from '@/lib/designLibraryStorage';
+import { logger } from '@/lib/logger';
+import { ModelLoader } from '@/components/viewer/ModelLoader';
+import { LightingPresets } from '@/components/viewer/LightingPresets';
+import { LoadingSpinner } from '@/components/viewer/LoadingSpinner';
+import { SyncedCameraControls, CameraSync, createCameraSync } from '@/components/viewer/SyncedCameraControls';
+import { DesignDiffPanel } from './DesignDiffPanel';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Spinner } from '@/components/ui/Loading';
+
+const CURRENT_SOURCE = 'current';
+
+function getModelPath(design: DesignState): string | null {
+  return design.mode === 'blank' ? 'models/blank/blank-shirt.glb' : null;
+}
+
+interface ComparisonViewportProps {
+  design: DesignState | null;
+  sync: CameraSync;
+  label: string;
+}
+
+function ComparisonViewport({ design, sync, label }: ComparisonViewportProps) {
+  const modelPath = design ? getModelPath(design) : null;
+
+  return (
+    <div className="relative flex-1 min-w-0 h-full bg-gradient-dark">
+      <div className="absolute top-3 left-3 z-elevated">
+        <Card variant="glass" className="px-3 py-1.5">
+          <span className="text-tiny font-medium text-text-primary uppercase tracking-wide">{label}</span>
+        </Card>
+      </div>
+
+      {design ? (
+        <Canvas
+          camera={{ position: [0, 0, 5], fov: 50 }}
+          gl={{ antialias: true, alpha: true }}
+          className="w-full h-full"
+        >
+          <Suspense fallback={<LoadingSpinner />}>
+            <LightingPresets preset="studio" />
+            <SyncedCameraControls sync={sync} />
+            {modelPath && <ModelLoader modelPath={modelPath} design={design} />}
+          </Suspense>
+        </Canvas>
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <Spinner size="md" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DesignComparisonProps {
+  onClose: () => void;
+}
+
+export function DesignComparison({ onClose }: DesignComparisonProps) {
+  const { history, currentHistoryId } = useConfiguratorStore();
+  const { designs: savedDesigns, loadDesigns } = useDesignLibraryStore();
+  const sync = useMemo(() => createCameraSync(), []);
+
+  // Default to comparing the previous step with the current design
+  const previousStepId = getHistoryEntry(history, currentHistoryId)?.parentId;
+  const [beforeSource, setBeforeSource] = useState(
+    previousStepId ? `history:${previousStepId}` : CURRENT_SOURCE
+  );
+  const [afterSource, setAfterSource] = useState(CURRENT_SOURCE);
+  const [beforeDesign, setBeforeDesign] = useState<DesignState | null>(null);
+  const [afterDesign, setAfterDesign] = useState<DesignState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDesigns();
+  }, [loadDesigns]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const resolveSource = async (source: string): Promise<DesignState> => {
+      if (source.startsWith('history:')) {
+        const entry = getHistoryEntry(useConfiguratorStore.getState().history, source.slice('history:'.length));
+        if (entry) return entry.design;
+      }
+      if (source.startsWith('saved:')) {
+        const design = await designLibraryStorage.loadDesign(source.slice('saved:'.length));
+        if (design) return design;
+        throw new Error('This saved design no longer exists');
+      }
+      return createDesignStateSnapshot(useConfiguratorStore.getState());
+    };
+
+    setError(null);
+    Promise.all([resolveSource(beforeSource), resolveSource(afterSource)])
+      .then(([before, after]) => {
+        if (cancelled) return;
+        setBeforeDesign(before);
+        setAfterDesign(after);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        logger.error('Failed to load designs for comparison', {
+          context: 'DesignComparison',
+          error: err instanceof Error ? err : new Error(String(err)),
+          metadata: { beforeSource, afterSource },
+        });
+        setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeSource, afterSource]);
+
+  const sourceOptions = (
+    <>
+      <option value={CURRENT_SOURCE}>Current design</option>
+      {history.length > 0 && (
+        <optgroup label="History">
+          {history.map((entry) => (
+            <option key={entry.id} value={`history:${entry.id}`}>
+              {entry.label} ({new Date(entry.timestamp).toLocaleTimeString()})
+            </option>
+          ))}
+        </optgroup>
+      )}
+      {savedDesigns.length > 0 && (
+        <optgroup label="My Designs">
+          {savedDesigns.map((design) => (
+            <option key={design.id} value={`saved:${design.id}`}>
+              {design.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </>
+  );
+
+  const selectClassName =
+    'px-2 py-1 text-small bg-base-light-gray text-text-primary rounded-small border border-base-light-gray max-w-[16rem]';
+
+  return createPortal(
+    <div className="fixed inset-0 z-overlay bg-base-navy flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-4 px-4 py-3 border-b border-base-light-gray">
+        <h3 className="text-h4 font-bold text-text-primary">Compare Designs</h3>
+        <label className="flex items-center gap-2 text-small text-text-secondary">
+          Before
+          <select
+            value={beforeSource}
+            onChange={(e) => setBeforeSource(e.target.value)}
+            className={selectClassName}
+          >
+            {sourceOptions}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-small text-text-secondary">
+          After
+          <select
+            value={afterSource}
+            onChange={(e) => setAfterSource(e.target.value)}
+            className={selectClassName}
+          >
+            {sourceOptions}
+          </select>
+        </label>
+        <div className="flex-1" />
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close (Esc)">
+          Close
+        </Button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Split viewport */}
+        <div className="flex flex-1 min-w-0 gap-px bg-base-light-gray">
+          <ComparisonViewport design={beforeDesign} sync={sync} label="Before" />
+          <ComparisonViewport design={afterDesign} sync={sync} label="After" />
+        </div>
+
+        {/* Diff */}
+        <div className="w-80 flex-shrink-0 p-4 overflow-y-auto custom-scrollbar border-l border-base-light-gray">
+          <h4 className="text-small font-semi-bold text-text-primary mb-3">Changes</h4>
+          {error ? (
+            <Card variant="standard" className="p-3 bg-error-bg border-error">
+              <p className="text-small text-error">{error}</p>
+            </Card>
+          ) : beforeDesign && afterDesign ? (
+            <DesignDiffPanel before={beforeDesign} after={afterDesign} />
+          ) : (
+            <div className="p-4 text-center">
+              <Spinner size="md" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+/**
+ * DesignDiffPanel Component
+ * Lists which components changed material, color, pattern or prints between two designs
+ */
+
+import { useMemo } from 'react';
+import { COMPONENT_LABELS } from '@/types/models';
+import { MaterialLibrary } from '@/types/materials';
+import { PatternLibrary, PatternApplication } from '@/types/patterns';
+import { DesignState } from '@/lib/designState';
+import { diffDesignStates, isDesignDiffEmpty, PrintChange } from '@/lib/designDiff';
+import { getPrintLabel } from '@/lib/designHistory';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import materialsData from '@/data/materials.json';
+import patternsData from '@/data/patterns.json';
+
+const materialNames = new Map(
+  (materialsData.materials as MaterialLibrary).map((material) => [material.id, material.properties.name])
+);
+const patternNames = new Map(
+  (patternsData.patterns as PatternLibrary).map((pattern) => [pattern.id, pattern.properties.name])
+);
+
+const PRINT_FIELD_LABELS: Partial<Record<string, string>> = {
+  position: 'moved',
+  scale: 'scaled',
+  rotation: 'rotated',
+  opacity: 'opacity',
+  blendMode: 'blend mode',
+  zIndex: 'layer order',
+  zoneId: 'zone',
+  textContent: 'text',
+  textStyle: 'text style',
+  customImageUrl: 'image',
+};
+
+function describePattern(pattern: PatternApplication | null): string {
+  if (!pattern) return 'None';
+  return patternNames.get(pattern.patternId) || pattern.patternId;
+}
+
+function describePrintChange(change: PrintChange): string {
+  const fields = change.fields.map((field) => PRINT_FIELD_LABELS[field] || field);
+  return `${getPrintLabel(change.after)}: ${Array.from(new Set(fields)).join(', ')}`;
+}
+
+function describeVariant(design: DesignState, variantId: string | null): string {
+  if (!variantId) return 'Base';
+  return design.variants.find((variant) => variant.id === variantId)?.name || 'Deleted colorway';
+}
+
+function ColorValue({ color }: { color: string | null }) {
+  if (!color) return <span className="text-text-tertiary">None</span>;
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span className="w-3 h-3 rounded-small border border-base-light-gray" style={{ backgroundColor: color }} />
+      {color}
+    </span>
+  );
+}
+
+function ChangeRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start gap-2 text-tiny">
+      <span className="w-14 flex-shrink-0 text-text-tertiary">{label}</span>
+      <span className="flex-1 min-w-0 text-text-primary">{children}</span>
+    </div>
+  );
+}
+
+interface DesignDiffPanelProps {
+  before: DesignState;
+  after: DesignState;
+}
+
+export function DesignDiffPanel({ before, after }: DesignDiffPanelProps) {
+  const diff = useMemo(() => diffDesignStates(before, after), [before, after]);
+
+  if (isDesignDiffEmpty(diff)) {
+    return (
+      <Card variant="standard">
+        <div className="p-4 text-center">
+          <p className="text-small text-text-secondary">These designs are identical</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {diff.mode && (
+        <Card variant="standard" className="p-3">
+          <ChangeRow label="Mode">
+            {diff.mode.before} → {diff.mode.after}
+          </ChangeRow>
+        </Card>
+      )}
+
+      {(diff.variants || diff.activeVariant) && (
+        <Card variant="standard" className="p-3 space-y-1.5">
+          <h4 className="text-small font-medium text-text-primary">Colorways</h4>
+
+          {diff.activeVariant && (
+            <ChangeRow label="Active">
+              {describeVariant(before, diff.activeVariant.before)} →{' '}
+              {describeVariant(after, diff.activeVariant.after)}
+            </ChangeRow>
+          )}
+
+          {diff.variants && (
+            <ChangeRow label="Variants">
+              <div className="space-y-0.5">
+                {diff.variants.added.map((variant) => (
+                  <div key={`added-${variant.id}`} className="flex items-center gap-1">
+                    <Badge variant="success" size="sm">Added</Badge>
+                    <span className="truncate">{variant.name}</span>
+                  </div>
+                ))}
+                {diff.variants.removed.map((variant) => (
+                  <div key={`removed-${variant.id}`} className="flex items-center gap-1">
+                    <Badge variant="error" size="sm">Removed</Badge>
+                    <span className="truncate">{variant.name}</span>
+                  </div>
+                ))}
+                {diff.variants.changed.map((variant) => (
+                  <div key={`changed-${variant.id}`} className="flex items-center gap-1">
+                    <Badge variant="warning" size="sm">Changed</Badge>
+                    <span className="truncate">{variant.name}</span>
+                  </div>
+                ))}
+              </div>
+            </ChangeRow>
+          )}
+        </Card>
+      )}
+
+      {diff.components.map((componentDiff) => (
+        <Card key={componentDiff.component} variant="standard" className="p-3 space-y-1.5">
+          <h4 className="text-small font-medium text-text-primary">
+            {COMPONENT_LABELS[componentDiff.component] || componentDiff.component}
+          </h4>
+
+          {componentDiff.material && (
+            <ChangeRow label="Material">
+              {materialNames.get(componentDiff.material.before || '') || 'None'} →{' '}
+              {materialNames.get(componentDiff.material.after || '') || 'None'}
+            </ChangeRow>
+          )}
+
+          {componentDiff.color && (
+            <ChangeRow label="Color">
+              <span className="inline-flex items-center gap-1 flex-wrap">
+                <ColorValue color={componentDiff.color.before} /> → <ColorValue color={componentDiff.color.after} />
+              </span>
+            </ChangeRow>
+          )}
+
+          {componentDiff.pattern && (
+            <ChangeRow label="Pattern">
+              {componentDiff.pattern.before?.patternId === componentDiff.pattern.after?.patternId
+                ? `${describePattern(componentDiff.pattern.after)} (adjusted)`
+                : `${describePattern(componentDiff.pattern.before)} → ${describePattern(componentDiff.pattern.after)}`}
+            </ChangeRow>
+          )}
+
+          {componentDiff.prints && (
+            <ChangeRow label="Prints">
+              <div className="space-y-0.5">
+                {componentDiff.prints.added.map((print) => (
+                  <div key={`added-${print.id}`} className="flex items-center gap-1">
+                    <Badge variant="success" size="sm">Added</Badge>
+                    <span className="truncate">{getPrintLabel(print)}</span>
+                  </div>
+                ))}
+                {componentDiff.prints.removed.map((print) => (
+                  <div key={`removed-${print.id}`} className="flex items-center gap-1">
+                    <Badge variant="error" size="sm">Removed</Badge>
+                    <span className="truncate">{getPrintLabel(print)}</span>
+                  </div>
+                ))}
+                {componentDiff.prints.changed.map((change) => (
+                  <div key={`changed-${change.after.id}`} className="flex items-center gap-1">
+                    <Badge variant="warning" size="sm">Changed</Badge>
+                    <span className="truncate">{describePrintChange(change)}</span>
+                  </div>
+                ))}
+              </div>
+            </ChangeRow>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+/**
+ * DesignLibrary Component
+ * "My Designs" list with thumbnails, save/save-as, and open, rename, duplicate and delete actions
+ */
+
+import { useEffect, useState } from 'react';
+import { useDesignLibraryStore } from '@/stores/designLibraryStore';
+import { SavedDesignSummary } from '@/types/designs';
+import { logger } from '@/lib/logger';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Spinner } from '@/components/ui/Loading';
+import { MotionDiv, AnimatePresence } from '@/lib/animations/framerMotion';
+import { HoverScale } from '@/lib/animations/framerMotion';
+
+export function DesignLibrary() {
+  const {
+    designs,
+    activeDesignId,
+    isLoading,
+    error,
+    loadDesigns,
+    saveCurrentDesign,
+    saveActiveDesign,
+    openDesign,
+    renameDesign,
+    duplicateDesign,
+    deleteDesign,
+  } = useDesignLibraryStore();
+  const [designName, setDesignName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load saved designs on mount
+  useEffect(() => {
+    loadDesigns();
+  }, [loadDesigns]);
+
+  const runAction = async (action: string, callback: () => Promise<unknown>) => {
+    try {
+      await callback();
+    } catch (err) {
+      logger.error(`Design library action failed: ${action}`, {
+        context: 'DesignLibrary',
+        error: err instanceof Error ? err : new Error(String(err)),
+      });
+      alert(`Failed to ${action} design.`);
+    }
+  };
+
+  const handleSaveAs = async () => {
+    const name = designName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    await runAction('save', () => saveCurrentDesign(name));
+    setDesignName('');
+    setIsSaving(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await runAction('save', saveActiveDesign);
+    setIsSaving(false);
+  };
+
+  const handleRename = (design: SavedDesignSummary, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const name = prompt('Rename design:', design.name);
+    if (!name || !name.trim() || name.trim() === design.name) return;
+    runAction('rename', () => renameDesign(design.id, name.trim()));
+  };
+
+  const handleDuplicate = (design: SavedDesignSummary, e: React.MouseEvent) => {
+    e.stopPropagation();
+    runAction('duplicate', () => duplicateDesign(design.id));
+  };
+
+  const handleDelete = (design: SavedDesignSummary, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (confirm(`Are you sure you want to delete "${design.name}"?`)) {
+      runAction('delete', () => deleteDesign(design.id));
+    }
+  };
+
+  const activeDesign = designs.find((design) => design.id === activeDesignId);
+
+  return (
+    <div className="space-y-3">
+      {/* Save */}
+      <div className="flex gap-2">
+        <Input
+          placeholder="Design name..."
+          value={designName}
+          onChange={(e) => setDesignName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSaveAs();
+          }}
+        />
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleSaveAs}
+          disabled={!designName.trim()}
+          loading={isSaving}
+          title="Save as a new design"
+        >
+          Save
+        </Button>
+      </div>
+
+      {activeDesign && (
+        <Button
+          variant="secondary"
+          size="sm"
+          fullWidth
+          onClick={handleSave}
+          loading={isSaving}
+          title="Overwrite the open design"
+        >
+          Update &quot;{activeDesign.name}&quot;
+        </Button>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <Card variant="standard" className="p-3 bg-error-bg border-error">
+          <p className="text-small text-error">{error.message}</p>
+        </Card>
+      )}
+
+      {/* Design List */}
+      {isLoading && designs.length === 0 ? (
+        <div className="p-4 text-center">
+          <Spinner size="md" />
+        </div>
+      ) : designs.length === 0 ? (
+        <Card variant="standard">
+          <div className="p-4 text-center">
+            <p className="text-small text-text-secondary">No saved designs yet</p>
+            <p className="text-tiny text-text-tertiary mt-1">
+              Name your design and save it to keep it
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+          <AnimatePresence>
+            {designs.map((design, index) => {
+              const isActive = design.id === activeDesignId;
+              return (
+                <MotionDiv
+                  key={design.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.9 }}
+                  transition={{ delay: index * 0.03, duration: 0.2 }}
+                >
+                  <Card
+                    variant={isActive ? 'elevated' : 'standard'}
+                    hover
+                    className={`
+                      cursor-pointer group p-2 transition-smooth
+                      ${isActive ? 'border-accent-blue shadow-glow-primary' : ''}
+                    `}
+                    onClick={() => runAction('open', () => openDesign(design.id))}
+                  >
+                    <div className="flex items-center gap-3">
+                      {/* Thumbnail */}
+                      <div className="w-12 h-12 flex-shrink-0 rounded-medium bg-base-light-gray overflow-hidden border-2 border-base-light-gray">
+                        {design.thumbnailUrl && (
+                          <img
+                            src={design.thumbnailUrl}
+                            alt={design.name}
+                            className="w-full h-full object-cover"
+                          />
+                        )}
+                      </div>
+
+                      {/* Info */}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1">
+                          <h4 className="text-small font-medium text-text-primary truncate">
+                            {design.name}
+                          </h4>
+                          {isActive && (
+                            <Badge variant="primary" size="sm">
+                              Open
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-tiny text-text-tertiary">
+                          {new Date(design.updatedAt).toLocaleString()}
+                        </p>
+                      </div>
+
+                      {/* Actions */}
+                      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <HoverScale scale={1.1}>
+                          <button
+                            onClick={(e) => handleRename(design, e)}
+                            className="p-1 text-text-tertiary hover:text-accent-blue rounded-small transition-smooth"
+                            title="Rename"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                            </svg>
+                          </button>
+                        </HoverScale>
+                        <HoverScale scale={1.1}>
+                          <button
+                            onClick={(e) => handleDuplicate(design, e)}
+                            className="p-1 text-text-tertiary hover:text-accent-blue rounded-small transition-smooth"
+                            title="Duplicate"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                            </svg>
+                          </button>
+                        </HoverScale>
+                        <HoverScale scale={1.1}>
+                          <button
+                            onClick={(e) => handleDelete(design, e)}
+                            className="p-1 text-error hover:bg-error-bg rounded-small transition-smooth"
+                            title="Delete"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        </HoverScale>
+                      </div>
+                    </div>
+                  </Card>
+                </MotionDiv>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+}
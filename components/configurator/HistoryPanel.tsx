@@ -0,0 +1,81 @@
+'use client';
+
+/**
+ * HistoryPanel Component
+ * Timeline of labeled history steps with jump-to-step; abandoned branches stay listed and reachable
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { getHistoryTimeline } from '@/lib/designHistory';
+import { Card } from '@/components/ui/Card';
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export function HistoryPanel() {
+  const { history, currentHistoryId, jumpToHistory } = useConfiguratorStore();
+  const currentRowRef = useRef<HTMLButtonElement>(null);
+
+  const rows = useMemo(
+    () => getHistoryTimeline(history, currentHistoryId),
+    [history, currentHistoryId]
+  );
+
+  // Keep the current step in view as the history grows
+  useEffect(() => {
+    currentRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentHistoryId]);
+
+  if (rows.length === 0) {
+    return (
+      <Card variant="standard">
+        <div className="p-4 text-center">
+          <p className="text-small text-text-secondary">No changes yet</p>
+          <p className="text-tiny text-text-tertiary mt-1">
+            Your edits will appear here
+          </p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+      {rows.map(({ entry, depth, isCurrent, isUndone }) => (
+        <button
+          key={entry.id}
+          ref={isCurrent ? currentRowRef : undefined}
+          onClick={() => jumpToHistory(entry.id)}
+          disabled={isCurrent}
+          className={`
+            w-full flex items-center gap-2 px-2 py-1.5 rounded-small text-left transition-smooth
+            ${isCurrent ? 'bg-accent-blue text-white' : 'hover:bg-base-light-gray'}
+            ${isUndone && !isCurrent ? 'opacity-60' : ''}
+          `}
+          style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+          title={isCurrent ? 'Current step' : `Go to "${entry.label}"`}
+        >
+          {depth > 0 && (
+            <span className={`text-tiny ${isCurrent ? 'text-white' : 'text-text-tertiary'}`}>↳</span>
+          )}
+          <span
+            className={`flex-1 min-w-0 truncate text-small ${
+              isCurrent ? 'text-white' : isUndone ? 'text-text-tertiary italic' : 'text-text-primary'
+            }`}
+          >
+            {entry.label}
+          </span>
+          <span className={`text-tiny flex-shrink-0 ${isCurrent ? 'text-white' : 'text-text-tertiary'}`}>
+            {formatTime(entry.timestamp)}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
 import { Material, MaterialProperties } from '@/types/materials';
 import materialsData from '@/data/materials.json';
 import { MaterialLibrary } from '@/types/materials';
@@ -12,7 +13,8 @@ interface MaterialDetailViewProps {
 }
 
 export function MaterialDetailView({ materialId, onClose }: MaterialDetailViewProps) {
-  const { selectedComponent, materialMap, setMaterial, colorMap, setColor } = useConfiguratorStore();
+  const { selectedComponent, setMaterial, setColor } = useConfiguratorStore();
+  const { colorMap } = useActiveColorway();
   const [material, setMaterialState] = useState<Material | null>(null);
   const [localProperties, setLocalProperties] = useState<Partial<MaterialProperties>>({});
 
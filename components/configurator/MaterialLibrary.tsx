@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
 import { Material, MaterialLibrary as MaterialLibraryType } from '@/types/materials';
 import { MaterialSwatch } from './MaterialSwatch';
 import { MaterialDetailView } from './MaterialDetailView';
@@ -20,7 +21,8 @@ import { MotionDiv, AnimatePresence } from '@/lib/animations/framerMotion';
 import { HoverScale } from '@/lib/animations/framerMotion';
 
 export function MaterialLibrary() {
-  const { selectedComponent, materialMap, setMaterial } = useConfiguratorStore();
+  const { selectedComponent, setMaterial } = useConfiguratorStore();
+  const { materialMap } = useActiveColorway();
   const [materials, setMaterials] = useState<MaterialLibraryType>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
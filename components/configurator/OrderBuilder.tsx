@@ -0,0 +1,110 @@
+'use client';
+
+/**
+ * OrderBuilder Component
+ * Pieces per size for the current design, with quantity-break tiers and the order total
+ */
+
+import { useOrderStore } from '@/stores/orderStore';
+import { useOrderSummary } from '@/hooks/useOrderSummary';
+import { PRICING_RULES, formatPrice } from '@/lib/pricing';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+
+export function OrderBuilder() {
+  const { quantities, setQuantity, clearOrder } = useOrderStore();
+  const order = useOrderSummary();
+  const { sizes, sizeUpcharges, quantityTiers } = PRICING_RULES.order;
+
+  const percent = (discount: number) => `${Math.round(discount * 100)}%`;
+
+  return (
+    <div className="space-y-3">
+      {/* Size run */}
+      <div className="grid grid-cols-4 gap-2">
+        {sizes.map((size) => (
+          <label key={size} className="block">
+            <span className="block text-tiny text-text-secondary mb-0.5">
+              {size}
+              {sizeUpcharges[size] ? (
+                <span className="text-text-tertiary"> +{formatPrice(sizeUpcharges[size]!, order.currency)}</span>
+              ) : null}
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={quantities[size] || ''}
+              placeholder="0"
+              onChange={(e) => setQuantity(size, e.target.valueAsNumber)}
+              className="w-full px-2 py-1 text-small border border-base-light-gray rounded-small focus:outline-none focus:ring-2 focus:ring-accent-blue"
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* Quantity breaks */}
+      <div className="space-y-0.5">
+        <span className="block text-tiny font-medium text-text-secondary">Quantity breaks</span>
+        {quantityTiers.map((tier) => {
+          const isCurrent = order.totalQuantity > 0 && tier.minQuantity === order.tier.minQuantity;
+          return (
+            <div
+              key={tier.minQuantity}
+              className={`flex justify-between px-2 py-0.5 text-tiny rounded-small ${
+                isCurrent ? 'bg-accent-blue text-white' : 'text-text-tertiary'
+              }`}
+            >
+              <span>{tier.minQuantity}+ pieces</span>
+              <span>{tier.discount > 0 ? `${percent(tier.discount)} off` : 'List price'}</span>
+            </div>
+          );
+        })}
+        {order.totalQuantity > 0 && order.nextTier && (
+          <p className="text-tiny text-text-secondary">
+            {order.nextTier.minQuantity - order.totalQuantity} more for {percent(order.nextTier.discount)} off
+          </p>
+        )}
+      </div>
+
+      {/* Summary */}
+      {order.totalQuantity > 0 ? (
+        <Card variant="standard" className="p-3 space-y-1">
+          {order.lines.map((line) => (
+            <div key={line.size} className="flex justify-between text-small">
+              <span className="text-text-secondary">
+                {line.size} × {line.quantity}{' '}
+                <span className="text-text-tertiary">@ {formatPrice(line.unitPrice, order.currency)}</span>
+              </span>
+              <span className="text-text-primary">{formatPrice(line.total, order.currency)}</span>
+            </div>
+          ))}
+          {order.discountTotal > 0 && (
+            <div className="flex justify-between text-tiny text-text-tertiary">
+              <span>Quantity discount ({percent(order.tier.discount)})</span>
+              <span>-{formatPrice(order.discountTotal, order.currency)}</span>
+            </div>
+          )}
+          {order.upchargeTotal > 0 && (
+            <div className="flex justify-between text-tiny text-text-tertiary">
+              <span>Size upcharges</span>
+              <span>{formatPrice(order.upchargeTotal, order.currency)}</span>
+            </div>
+          )}
+          <div className="flex items-baseline justify-between pt-1 border-t border-base-light-gray">
+            <span className="text-small text-text-secondary">{order.totalQuantity} pieces</span>
+            <span className="text-h4 font-bold text-text-primary">{formatPrice(order.total, order.currency)}</span>
+          </div>
+        </Card>
+      ) : (
+        <p className="text-tiny text-text-tertiary">Enter quantities per size to price an order.</p>
+      )}
+
+      {order.totalQuantity > 0 && (
+        <Button variant="ghost" size="sm" onClick={clearOrder}>
+          Clear order
+        </Button>
+      )}
+    </div>
+  );
+}
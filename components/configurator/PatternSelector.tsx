@@ -2,17 +2,22 @@
 
 /**
  * PatternSelector Component
- * Grid layout with pattern preview cards, hover effects, and selected state
+ * Grid layout with pattern preview cards, hover effects, and selected state; patterns with palette
+ * slots get a color picker per slot, and procedural patterns spacing, thickness and angle controls
  */
 
 import { useState, useEffect, useMemo } from 'react';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
-import { Pattern, PatternLibrary, PatternApplication } from '@/types/patterns';
+import { Pattern, PatternLibrary, PatternApplication, ProceduralPatternParams } from '@/types/patterns';
+import { createProceduralDefaults, resolveProceduralParams } from '@/lib/proceduralPatterns';
+import { hasCustomColors, resolvePatternColors } from '@/lib/patternPalette';
+import { getComponentLabel } from '@/lib/designHistory';
 import { PatternSwatch } from './PatternSwatch';
 import patternsData from '@/data/patterns.json';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
+import { useHistoryTransaction } from '@/hooks/useHistoryTransaction';
 import { MotionDiv, AnimatePresence } from '@/lib/animations/framerMotion';
 import { HoverScale } from '@/lib/animations/framerMotion';
 
@@ -23,6 +28,10 @@ export function PatternSelector() {
   const [intensity, setIntensity] = useState(0.7);
   const [scale, setScale] = useState(1.0);
   const [rotation, setRotation] = useState(0);
+  // Each slider drag is one undo step
+  const adjustGesture = useHistoryTransaction(
+    `Adjust ${selectedComponent ? getComponentLabel(selectedComponent) : ''} pattern`
+  );
 
   // Load patterns on mount
   useEffect(() => {
@@ -35,6 +44,14 @@ export function PatternSelector() {
     return patternMap[selectedComponent] || null;
   }, [selectedComponent, patternMap]);
 
+  // Library entry of the applied pattern, for its palette and procedural definition
+  const appliedPattern = useMemo(
+    () => patterns.find((p) => p.id === currentPattern?.patternId)?.properties ?? null,
+    [patterns, currentPattern?.patternId]
+  );
+  const procedural = appliedPattern?.procedural ?? null;
+  const palette = appliedPattern?.palette ?? [];
+
   // Update controls when pattern changes
   useEffect(() => {
     if (currentPattern) {
@@ -68,6 +85,7 @@ export function PatternSelector() {
       intensity: intensity,
       scale: scale,
       rotation: rotation,
+      ...(pattern.properties.procedural ? createProceduralDefaults(pattern.properties.procedural) : {}),
     };
     setPattern(selectedComponent, application);
   };
@@ -87,6 +105,33 @@ export function PatternSelector() {
     setPattern(selectedComponent, updated);
   };
 
+  const handleParamChange = (type: keyof ProceduralPatternParams, value: number) => {
+    if (!selectedComponent || !currentPattern || !procedural) return;
+
+    setPattern(selectedComponent, {
+      ...currentPattern,
+      params: { ...resolveProceduralParams(procedural, currentPattern), [type]: value },
+    });
+  };
+
+  const handleColorChange = (index: number, color: string) => {
+    if (!selectedComponent || !currentPattern || !appliedPattern) return;
+
+    const colors = resolvePatternColors(appliedPattern, currentPattern);
+    colors[index] = color;
+    setPattern(selectedComponent, { ...currentPattern, colors });
+  };
+
+  const handleResetColors = () => {
+    if (!selectedComponent || !currentPattern) return;
+
+    const { colors: _colors, ...updated } = currentPattern;
+    setPattern(selectedComponent, updated);
+  };
+
+  const proceduralParams = procedural ? resolveProceduralParams(procedural, currentPattern) : null;
+  const patternColors = appliedPattern ? resolvePatternColors(appliedPattern, currentPattern) : [];
+
   if (!selectedComponent) {
     return (
       <Card variant="standard">
@@ -203,6 +248,7 @@ export function PatternSelector() {
                     max="1"
                     step="0.01"
                     value={intensity}
+                    onPointerDown={adjustGesture.onPointerDown}
                     onChange={(e) => {
                       const val = parseFloat(e.target.value);
                       setIntensity(val);
@@ -228,6 +274,7 @@ export function PatternSelector() {
                     max="3"
                     step="0.1"
                     value={scale}
+                    onPointerDown={adjustGesture.onPointerDown}
                     onChange={(e) => {
                       const val = parseFloat(e.target.value);
                       setScale(val);
@@ -253,6 +300,7 @@ export function PatternSelector() {
                     max="360"
                     step="1"
                     value={rotation}
+                    onPointerDown={adjustGesture.onPointerDown}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
                       setRotation(val);
@@ -262,6 +310,112 @@ export function PatternSelector() {
                   />
                 </div>
 
+                {/* Palette Colors */}
+                {appliedPattern && palette.length > 0 && (
+                  <div className="pt-4 border-t border-base-light-gray">
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-small font-medium text-text-primary">
+                        Colors
+                      </label>
+                      {hasCustomColors(appliedPattern, currentPattern) && (
+                        <button
+                          onClick={handleResetColors}
+                          className="text-tiny text-accent-blue hover:underline"
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      {palette.map((slot, index) => (
+                        <label
+                          key={slot.name}
+                          className="flex items-center gap-1.5 text-tiny text-text-secondary"
+                        >
+                          <input
+                            type="color"
+                            value={patternColors[index]}
+                            onChange={(e) => handleColorChange(index, e.target.value)}
+                            className="w-8 h-6 rounded-small border border-base-light-gray cursor-pointer"
+                          />
+                          {slot.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Procedural Pattern Controls */}
+                {procedural && proceduralParams && (
+                  <div className="space-y-4 pt-4 border-t border-base-light-gray">
+                    {/* Spacing Slider */}
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-small font-medium text-text-primary">
+                          Spacing
+                        </label>
+                        <Badge variant="neutral" size="sm">
+                          {proceduralParams.spacing} repeats
+                        </Badge>
+                      </div>
+                      <input
+                        type="range"
+                        min="1"
+                        max="40"
+                        step="1"
+                        value={proceduralParams.spacing}
+                        onPointerDown={adjustGesture.onPointerDown}
+                        onChange={(e) => handleParamChange('spacing', parseInt(e.target.value))}
+                        className="w-full h-2 bg-base-light-gray rounded-lg appearance-none cursor-pointer accent-accent-blue"
+                      />
+                    </div>
+
+                    {/* Thickness Slider */}
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-small font-medium text-text-primary">
+                          Thickness
+                        </label>
+                        <Badge variant="neutral" size="sm">
+                          {Math.round(proceduralParams.thickness * 100)}%
+                        </Badge>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.05"
+                        max="1"
+                        step="0.01"
+                        value={proceduralParams.thickness}
+                        onPointerDown={adjustGesture.onPointerDown}
+                        onChange={(e) => handleParamChange('thickness', parseFloat(e.target.value))}
+                        className="w-full h-2 bg-base-light-gray rounded-lg appearance-none cursor-pointer accent-accent-cyan"
+                      />
+                    </div>
+
+                    {/* Angle Slider */}
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-small font-medium text-text-primary">
+                          Angle
+                        </label>
+                        <Badge variant="neutral" size="sm">
+                          {proceduralParams.angle}°
+                        </Badge>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="360"
+                        step="1"
+                        value={proceduralParams.angle}
+                        onPointerDown={adjustGesture.onPointerDown}
+                        onChange={(e) => handleParamChange('angle', parseInt(e.target.value))}
+                        className="w-full h-2 bg-base-light-gray rounded-lg appearance-none cursor-pointer accent-accent-indigo"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* Remove Pattern Button */}
                 <Button
                   variant="ghost"
@@ -1,6 +1,9 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Pattern } from '@/types/patterns';
+import { createProceduralPreview } from '@/lib/proceduralPatterns';
+import { resolvePatternColors } from '@/lib/patternPalette';
 
 interface PatternSwatchProps {
   pattern: Pattern;
@@ -10,6 +13,18 @@ interface PatternSwatchProps {
 
 export function PatternSwatch({ pattern, isSelected, onSelect }: PatternSwatchProps) {
   const { properties } = pattern;
+  const [proceduralPreview, setProceduralPreview] = useState<string | null>(null);
+
+  // Procedural patterns have no thumbnail file; draw one on the client
+  useEffect(() => {
+    setProceduralPreview(
+      properties.procedural
+        ? createProceduralPreview(properties.procedural, resolvePatternColors(properties))
+        : null
+    );
+  }, [properties]);
+
+  const thumbnailUrl = pattern.thumbnailUrl || proceduralPreview;
   const priceDisplay = properties.priceModifier
     ? properties.priceModifier > 0
       ? `+$${properties.priceModifier}`
@@ -26,9 +41,9 @@ export function PatternSwatch({ pattern, isSelected, onSelect }: PatternSwatchPr
       }`}
     >
       <div className="w-full aspect-square mb-2 rounded bg-gray-100 flex items-center justify-center overflow-hidden">
-        {pattern.thumbnailUrl ? (
+        {thumbnailUrl ? (
           <img
-            src={pattern.thumbnailUrl}
+            src={thumbnailUrl}
             alt={properties.name}
             className="w-full h-full object-cover"
           />
@@ -0,0 +1,115 @@
+'use client';
+
+/**
+ * PriceBreakdown Component
+ * Live, itemized price of the current design (active colorway), with the bulk price once an order is entered
+ */
+
+import { useMemo, useState } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
+import { useOrderSummary } from '@/hooks/useOrderSummary';
+import { usePrintSizes } from '@/hooks/usePrintSizes';
+import { calculatePrice, formatPrice } from '@/lib/pricing';
+import { PriceLine } from '@/types/pricing';
+import { Card } from '@/components/ui/Card';
+
+const GROUP_LABELS: Record<PriceLine['kind'], string> = {
+  base: 'Base',
+  material: 'Materials',
+  premium: 'Premium surcharge',
+  pattern: 'Patterns',
+  print: 'Prints',
+};
+
+export function PriceBreakdown() {
+  const patternMap = useConfiguratorStore((state) => state.patternMap);
+  const { materialMap, printMap } = useActiveColorway();
+  const order = useOrderSummary();
+  const printSizes = usePrintSizes(printMap);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const breakdown = useMemo(
+    () => calculatePrice({ materialMap, patternMap, printMap }),
+    [materialMap, patternMap, printMap, printSizes]
+  );
+
+  const groups = (Object.keys(GROUP_LABELS) as PriceLine['kind'][])
+    .map((kind) => ({
+      kind,
+      lines: breakdown.lines.filter((line) => line.kind === kind),
+      subtotal: breakdown.subtotals[kind],
+    }))
+    .filter((group) => group.lines.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <Card variant="standard" className="p-3">
+        <div className="flex items-baseline justify-between">
+          <span className="text-small text-text-secondary">Price per garment</span>
+          <span className="text-h4 font-bold text-text-primary">
+            {formatPrice(breakdown.total, breakdown.currency)}
+          </span>
+        </div>
+        {order.totalQuantity > 0 && (
+          <div className="mt-1 space-y-0.5 text-tiny text-text-secondary">
+            <div className="flex justify-between">
+              <span>
+                Per piece at {order.totalQuantity} pieces
+                {order.tier.discount > 0 && ` (${Math.round(order.tier.discount * 100)}% off)`}
+              </span>
+              <span>{formatPrice(order.discountedUnitPrice, order.currency)}</span>
+            </div>
+            <div className="flex justify-between font-medium text-text-primary">
+              <span>Order total</span>
+              <span>{formatPrice(order.total, order.currency)}</span>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      <div className="space-y-1">
+        {groups.map((group) => (
+          <div key={group.kind}>
+            <div className="flex items-center justify-between text-small">
+              <span className="text-text-secondary">
+                {GROUP_LABELS[group.kind]}
+                {group.lines.length > 1 && (
+                  <span className="text-text-tertiary"> ({group.lines.length})</span>
+                )}
+              </span>
+              <span className="text-text-primary font-medium">
+                {formatPrice(group.subtotal, breakdown.currency)}
+              </span>
+            </div>
+
+            {showDetails && group.kind !== 'base' && (
+              <div className="pl-3 mt-0.5 mb-1 space-y-0.5">
+                {group.lines.map((line, index) => (
+                  <div key={`${line.label}-${index}`} className="flex items-start justify-between gap-2 text-tiny">
+                    <span className="min-w-0 text-text-tertiary">
+                      <span className="block truncate">{line.label}</span>
+                      {line.detail && <span className="block">{line.detail}</span>}
+                    </span>
+                    <span className="flex-shrink-0 text-text-secondary">
+                      {formatPrice(line.amount, breakdown.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {groups.length > 1 && (
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className="text-tiny text-accent-blue hover:underline"
+        >
+          {showDetails ? 'Hide details' : 'Show details'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * RecoveryPrompt Component
+ * Offers to restore the autosaved design from a previous session, then keeps autosave running.
+ * When the page opened a shared design link, the prompt says restoring replaces the shared design.
+ */
+
+import { useEffect, useState } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { designRecoveryStorage } from '@/lib/designRecoveryStorage';
+import { RecoverySnapshot } from '@/types/designs';
+import { useAutosave } from '@/hooks/useAutosave';
+import { ConfirmationDialog } from '@/components/ui/ConfirmationDialog';
+import { toast } from '@/stores/toastStore';
+import { logger } from '@/lib/logger';
+
+function formatSavedAt(timestamp: number): string {
+  const savedAt = new Date(timestamp);
+  const time = savedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (savedAt.toDateString() === new Date().toDateString()) {
+    return time;
+  }
+  return `${savedAt.toLocaleDateString()} ${time}`;
+}
+
+interface RecoveryPromptProps {
+  sharedDesignLoaded?: boolean; // A design from a share link is on screen
+}
+
+export function RecoveryPrompt({ sharedDesignLoaded = false }: RecoveryPromptProps) {
+  const loadDesign = useConfiguratorStore((state) => state.loadDesign);
+  const [snapshot, setSnapshot] = useState<RecoverySnapshot | null>(null);
+  const [isChecked, setIsChecked] = useState(false);
+
+  // Autosave starts once there is nothing left to recover
+  useAutosave(isChecked && !snapshot);
+
+  useEffect(() => {
+    designRecoveryStorage
+      .load()
+      .then(setSnapshot)
+      .finally(() => setIsChecked(true));
+  }, []);
+
+  const handleRestore = () => {
+    if (!snapshot) return;
+    try {
+      loadDesign(designRecoveryStorage.restore(snapshot));
+      toast.success('Unsaved design restored');
+    } catch (error) {
+      logger.error('Failed to restore autosaved design', {
+        context: 'RecoveryPrompt',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      toast.error(`Could not restore the design: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setSnapshot(null);
+  };
+
+  const handleDiscard = () => {
+    designRecoveryStorage.clear();
+    setSnapshot(null);
+  };
+
+  return (
+    <ConfirmationDialog
+      isOpen={!!snapshot}
+      onClose={handleDiscard}
+      onConfirm={handleRestore}
+      title={snapshot ? `Restore unsaved design from ${formatSavedAt(snapshot.savedAt)}?` : ''}
+      message={
+        sharedDesignLoaded
+          ? 'Your last session ended before your own design was saved. Restoring it replaces the shared design you just opened; discard it to keep the shared design.'
+          : 'Your last session ended before this design was saved. Restore it, or discard it and start fresh.'
+      }
+      confirmLabel={sharedDesignLoaded ? 'Replace shared design' : 'Restore'}
+      cancelLabel={sharedDesignLoaded ? 'Keep shared design' : 'Discard'}
+      variant="info"
+    />
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+/**
+ * RosterEditor Component
+ * Team roster for personalized garments: paste or import CSV, edit cells, bind text prints to columns,
+ * preview a row in the viewer and export one render and spec per row
+ */
+
+import { useRef, useState } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useRosterStore } from '@/stores/rosterStore';
+import { useExportStore } from '@/stores/exportStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
+import { parseRosterCsv, getRosterRowLabel } from '@/lib/roster';
+import { getPrintLabel } from '@/lib/designHistory';
+import { ComponentType, COMPONENT_LABELS } from '@/types/models';
+import { toast } from '@/stores/toastStore';
+import { logger } from '@/lib/logger';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+export function RosterEditor() {
+  const { columns, rows, previewRowId, loadRoster, addRow, updateCell, removeRow, clearRoster, setPreviewRow } =
+    useRosterStore();
+  const updatePrint = useConfiguratorStore((state) => state.updatePrint);
+  const { requestExport, isExporting } = useExportStore();
+  const { printMap } = useActiveColorway();
+  const [csvText, setCsvText] = useState('');
+  const [showPaste, setShowPaste] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const textPrints = Object.values(ComponentType).flatMap((component) =>
+    (printMap[component] || []).filter((print) => print.textContent).map((print) => ({ component, print }))
+  );
+  const boundCount = textPrints.filter(({ print }) => print.rosterField).length;
+  const previewIndex = rows.findIndex((row) => row.id === previewRowId);
+
+  const applyCsv = (text: string, source: string) => {
+    try {
+      const roster = parseRosterCsv(text);
+      if (rows.length > 0 && !confirm(`Replace the current roster (${rows.length} rows)?`)) return;
+      loadRoster(roster);
+      setCsvText('');
+      setShowPaste(false);
+      toast.success(`Loaded ${roster.rows.length} roster rows from ${source}`);
+    } catch (error) {
+      logger.warn('Failed to parse roster', {
+        context: 'RosterEditor',
+        metadata: { source, error: error instanceof Error ? error.message : String(error) },
+      });
+      toast.error(`Could not read the roster: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    applyCsv(await file.text(), `"${file.name}"`);
+  };
+
+  const handleClear = () => {
+    if (confirm('Clear the roster?')) {
+      clearRoster();
+    }
+  };
+
+  const stepPreview = (step: number) => {
+    if (rows.length === 0) return;
+    const index = previewIndex === -1 ? 0 : (previewIndex + step + rows.length) % rows.length;
+    setPreviewRow(rows[index].id);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Import */}
+      <div className="flex flex-wrap gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setShowPaste(!showPaste)}>
+          Paste CSV
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+          Import CSV
+        </Button>
+        {rows.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={handleClear}>
+            Clear
+          </Button>
+        )}
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="hidden" />
+      </div>
+
+      {showPaste && (
+        <div className="space-y-2">
+          <textarea
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            rows={5}
+            placeholder={'Name,Number\nSmith,10\nGarcia,7'}
+            className="w-full px-2 py-1 text-small font-mono border border-base-light-gray rounded-small focus:outline-none focus:ring-2 focus:ring-accent-blue"
+          />
+          <Button variant="primary" size="sm" onClick={() => applyCsv(csvText, 'pasted text')} disabled={!csvText.trim()}>
+            Load roster
+          </Button>
+        </div>
+      )}
+
+      {/* Bindings */}
+      {textPrints.length > 0 ? (
+        <Card variant="standard" className="p-3 space-y-2">
+          <h4 className="text-small font-medium text-text-primary">Text print bindings</h4>
+          {textPrints.map(({ component, print }) => (
+            <label key={print.id} className="flex items-center justify-between gap-2 text-small text-text-secondary">
+              <span className="min-w-0 truncate" title={COMPONENT_LABELS[component]}>
+                {getPrintLabel(print)}
+              </span>
+              <select
+                value={print.rosterField ?? ''}
+                onChange={(e) => updatePrint(component, print.id, { rosterField: e.target.value || undefined })}
+                className="flex-shrink-0 max-w-[50%] px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+              >
+                <option value="">Not bound</option>
+                {columns.map((column) => (
+                  <option key={column} value={column}>
+                    {column}
+                  </option>
+                ))}
+                {print.rosterField && !columns.includes(print.rosterField) && (
+                  <option value={print.rosterField}>{print.rosterField} (missing)</option>
+                )}
+              </select>
+            </label>
+          ))}
+        </Card>
+      ) : (
+        <p className="text-tiny text-text-tertiary">Add text prints with the Text tool, then bind them to roster columns.</p>
+      )}
+
+      {/* Rows */}
+      {rows.length > 0 && (
+        <>
+          <div className="max-h-64 overflow-auto custom-scrollbar border border-base-light-gray rounded-small">
+            <table className="w-full text-small">
+              <thead className="sticky top-0 bg-base-light-gray text-text-secondary">
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium">#</th>
+                  {columns.map((column) => (
+                    <th key={column} className="px-2 py-1 text-left font-medium">
+                      {column}
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const isPreviewed = row.id === previewRowId;
+                  return (
+                    <tr key={row.id} className={isPreviewed ? 'bg-accent-blue/10' : undefined}>
+                      <td className="px-2 py-0.5">
+                        <button
+                          onClick={() => setPreviewRow(isPreviewed ? null : row.id)}
+                          className={`text-tiny ${isPreviewed ? 'text-accent-blue font-medium' : 'text-text-tertiary hover:text-accent-blue'}`}
+                          title={isPreviewed ? 'Stop previewing' : 'Preview this row in the viewer'}
+                        >
+                          {index + 1}
+                        </button>
+                      </td>
+                      {columns.map((column) => (
+                        <td key={column} className="px-1 py-0.5">
+                          <input
+                            value={row.values[column] ?? ''}
+                            onChange={(e) => updateCell(row.id, column, e.target.value)}
+                            onFocus={() => setPreviewRow(row.id)}
+                            className="w-full min-w-[4rem] px-1 py-0.5 bg-transparent border border-transparent rounded-small focus:outline-none focus:border-accent-blue"
+                          />
+                        </td>
+                      ))}
+                      <td className="px-1 py-0.5">
+                        <button
+                          onClick={() => removeRow(row.id)}
+                          className="text-tiny text-text-tertiary hover:text-text-primary"
+                          title="Remove row"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={addRow}>
+              Add row
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => stepPreview(-1)}>
+              ‹
+            </Button>
+            <span className="text-tiny text-text-secondary">
+              {previewIndex === -1
+                ? 'Preview off'
+                : `${previewIndex + 1}/${rows.length}: ${getRosterRowLabel(rows[previewIndex], columns, previewIndex)}`}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => stepPreview(1)}>
+              ›
+            </Button>
+            {previewIndex !== -1 && (
+              <Button variant="ghost" size="sm" onClick={() => setPreviewRow(null)}>
+                Stop preview
+              </Button>
+            )}
+          </div>
+
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={() => requestExport('roster')}
+            disabled={boundCount === 0 || isExporting}
+            fullWidth
+          >
+            Export {rows.length} garments (ZIP)
+          </Button>
+          {boundCount === 0 && (
+            <p className="text-tiny text-text-tertiary">Bind at least one text print to export the roster.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
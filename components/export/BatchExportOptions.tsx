@@ -0,0 +1,74 @@
+'use client';
+
+/**
+ * BatchExportOptions Component
+ * Pick several exports and add them to the export queue; they download together as one ZIP
+ */
+
+import { useState } from 'react';
+import { useExportStore, ExportFormat, ExportQuality } from '@/stores/exportStore';
+import { getExportLabel } from '@/lib/export/batchExport';
+
+const BATCH_OPTIONS: { format: ExportFormat; quality: ExportQuality }[] = [
+  { format: 'png', quality: 'standard' },
+  { format: 'png', quality: 'high' },
+  { format: 'jpg', quality: 'standard' },
+  { format: 'jpg', quality: 'high' },
+  { format: 'pdf', quality: 'standard' },
+  { format: 'glb', quality: 'standard' },
+  { format: 'gltf', quality: 'standard' },
+  { format: 'usdz', quality: 'standard' },
+  { format: 'obj', quality: 'standard' },
+  { format: 'textures', quality: 'standard' },
+  { format: 'colorways', quality: 'standard' },
+  { format: 'roster', quality: 'standard' },
+  { format: 'contactSheet', quality: 'standard' },
+  { format: 'turntable', quality: 'standard' },
+];
+
+interface BatchExportOptionsProps {
+  onQueued: () => void;
+}
+
+export function BatchExportOptions({ onQueued }: BatchExportOptionsProps) {
+  const enqueueExports = useExportStore((state) => state.enqueueExports);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggle = (key: string) =>
+    setSelected((keys) => (keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key]));
+
+  const handleQueue = () => {
+    enqueueExports(BATCH_OPTIONS.filter((option) => selected.includes(`${option.format}-${option.quality}`)));
+    setSelected([]);
+    onQueued();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {BATCH_OPTIONS.map((option) => {
+          const key = `${option.format}-${option.quality}`;
+          return (
+            <button
+              key={key}
+              onClick={() => toggle(key)}
+              className={`px-2 py-0.5 text-tiny rounded-small transition-smooth ${
+                selected.includes(key) ? 'bg-accent-blue text-white' : 'bg-base-light-gray hover:bg-base-light-gray/70'
+              }`}
+            >
+              {getExportLabel(option.format, option.quality)}
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={handleQueue}
+        disabled={selected.length === 0}
+        className="w-full px-3 py-2 text-small bg-base-light-gray hover:bg-accent-blue hover:text-white rounded-small transition-smooth disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Queue {selected.length || ''} export{selected.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+/**
+ * ContactSheetOptions Component
+ * Settings for the contact sheet export: views, lighting, background and metadata footer
+ */
+
+import { useExportStore } from '@/stores/exportStore';
+import { CAMERA_PRESETS } from '@/lib/cameraPresets';
+import { LIGHTING_PRESETS } from '@/lib/lightingPresets';
+
+const CELL_SIZES = [400, 600, 1000];
+
+interface ContactSheetOptionsProps {
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+export function ContactSheetOptions({ onExport, disabled }: ContactSheetOptionsProps) {
+  const { contactSheetOptions: options, setContactSheetOptions } = useExportStore();
+
+  const toggleView = (key: string) => {
+    const views = options.views.includes(key)
+      ? options.views.filter((view) => view !== key)
+      : // Keep the presets' order
+        Object.keys(CAMERA_PRESETS).filter((view) => view === key || options.views.includes(view));
+    setContactSheetOptions({ views });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {Object.entries(CAMERA_PRESETS).map(([key, preset]) => {
+          const isSelected = options.views.includes(key);
+          return (
+            <button
+              key={key}
+              onClick={() => toggleView(key)}
+              className={`px-2 py-0.5 text-tiny rounded-small transition-smooth ${
+                isSelected ? 'bg-accent-blue text-white' : 'bg-base-light-gray hover:bg-base-light-gray/70'
+              }`}
+            >
+              {preset.name}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-tiny text-text-secondary">
+        <label className="space-y-0.5">
+          <span className="block">Columns</span>
+          <input
+            type="number"
+            min={1}
+            max={6}
+            value={options.columns}
+            onChange={(e) => {
+              const value = e.target.valueAsNumber;
+              if (Number.isFinite(value)) setContactSheetOptions({ columns: Math.min(6, Math.max(1, Math.round(value))) });
+            }}
+            className="w-full px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+          />
+        </label>
+        <label className="space-y-0.5">
+          <span className="block">View size</span>
+          <select
+            value={options.cellSize}
+            onChange={(e) => setContactSheetOptions({ cellSize: Number(e.target.value) })}
+            className="w-full px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+          >
+            {CELL_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}px
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-tiny text-text-secondary">
+        Lighting
+        <select
+          value={options.lightingPreset ?? ''}
+          onChange={(e) => setContactSheetOptions({ lightingPreset: e.target.value || null })}
+          className="px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+        >
+          <option value="">As in viewer</option>
+          {Object.entries(LIGHTING_PRESETS).map(([key, preset]) => (
+            <option key={key} value={key}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex items-center justify-between gap-2 text-tiny text-text-secondary">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={options.background === null}
+            onChange={(e) => setContactSheetOptions({ background: e.target.checked ? null : '#ffffff' })}
+          />
+          Transparent
+        </label>
+        {options.background !== null && (
+          <input
+            type="color"
+            value={options.background}
+            onChange={(e) => setContactSheetOptions({ background: e.target.value })}
+            className="w-10 h-6 rounded-small border border-base-light-gray cursor-pointer"
+          />
+        )}
+      </div>
+
+      <label className="flex items-center gap-1.5 text-tiny text-text-secondary">
+        <input
+          type="checkbox"
+          checked={options.includeMetadata}
+          onChange={(e) => setContactSheetOptions({ includeMetadata: e.target.checked })}
+        />
+        Design details footer
+      </label>
+
+      <button
+        onClick={onExport}
+        disabled={disabled || options.views.length === 0}
+        className="w-full px-3 py-2 text-small bg-base-light-gray hover:bg-accent-blue hover:text-white rounded-small transition-smooth disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Export contact sheet ({options.views.length} view{options.views.length === 1 ? '' : 's'})
+      </button>
+    </div>
+  );
+}
@@ -4,11 +4,16 @@ import { useState } from 'react';
 import { useThree } from '@react-three/fiber';
 import { exportCanvasAsImage, exportHighResImage } from '@/lib/export/imageExport';
 import { exportCanvasAsPDF } from '@/lib/export/pdfExport';
-import { exportSceneAsModel } from '@/lib/export/modelExport';
+import { exportGarmentAsModel } from '@/lib/export/modelExport';
 import { generateDesignMetadata } from '@/lib/export/designMetadata';
+import { exportTurntable } from '@/lib/export/turntableExport';
+import { useExportStore } from '@/stores/exportStore';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { createDesignStateSnapshot } from '@/lib/designState';
+import { TurntableOptions } from './TurntableOptions';
 import { logger } from '@/lib/logger';
 
-type ExportFormat = 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf';
+type ExportFormat = 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf' | 'usdz' | 'obj' | 'turntable';
 
 interface ExportMenuProps {
   onExportStart?: () => void;
@@ -21,7 +26,7 @@ export function ExportMenu({
   onExportComplete,
   onExportError,
 }: ExportMenuProps) {
-  const { gl, scene } = useThree();
+  const { gl, scene, camera } = useThree();
   const [isExporting, setIsExporting] = useState(false);
   const [exportFormat, setExportFormat] = useState<ExportFormat | null>(null);
 
@@ -42,6 +47,7 @@ export function ExportMenu({
           await exportCanvasAsImage(canvas, {
             format: 'png',
             filename,
+            design: createDesignStateSnapshot(useConfiguratorStore.getState()),
           });
           break;
 
@@ -63,7 +69,9 @@ export function ExportMenu({
 
         case 'glb':
         case 'gltf':
-          await exportSceneAsModel(scene, {
+        case 'usdz':
+        case 'obj':
+          await exportGarmentAsModel(scene, useConfiguratorStore.getState().componentMap, {
             format,
             filename,
             includeMaterials: true,
@@ -109,6 +117,7 @@ export function ExportMenu({
         filename,
         scale: 4, // 4x resolution for print quality
         quality: format === 'jpg' ? 0.95 : undefined,
+        design: createDesignStateSnapshot(useConfiguratorStore.getState()),
       });
 
       logger.info('High-res export completed', {
@@ -132,6 +141,30 @@ export function ExportMenu({
     }
   };
 
+  const handleTurntableExport = async () => {
+    if (isExporting) return;
+
+    setIsExporting(true);
+    setExportFormat('turntable');
+    onExportStart?.();
+
+    try {
+      await exportTurntable(gl, scene, camera, useExportStore.getState().turntableOptions);
+      onExportComplete?.();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error('Turntable export failed', {
+        context: 'ExportMenu',
+        error: err,
+      });
+      onExportError?.(err);
+      alert(`Failed to export: ${err.message}`);
+    } finally {
+      setIsExporting(false);
+      setExportFormat(null);
+    }
+  };
+
   return (
     <div className="p-4 bg-white rounded-lg shadow-sm">
       <h3 className="text-lg font-semibold mb-4">Export Design</h3>
@@ -196,7 +229,7 @@ export function ExportMenu({
             Export as PDF
           </button>
           <p className="text-xs text-gray-500 mt-1">
-            Opens print dialog to save as PDF
+            Multi-page tech pack with renders, materials, print placement and price
           </p>
         </div>
 
@@ -218,11 +251,33 @@ export function ExportMenu({
             >
               GLTF
             </button>
+            <button
+              onClick={() => handleExport('usdz')}
+              disabled={isExporting}
+              className="px-4 py-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+              title="For AR Quick Look on product pages"
+            >
+              USDZ
+            </button>
+            <button
+              onClick={() => handleExport('obj')}
+              disabled={isExporting}
+              className="px-4 py-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+              title="OBJ with MTL materials and textures, zipped"
+            >
+              OBJ/MTL
+            </button>
           </div>
           <p className="text-xs text-gray-500 mt-1">
             Export 3D model with materials and textures
           </p>
         </div>
+
+        {/* Turntable Export */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Turntable Animation</h4>
+          <TurntableOptions onExport={handleTurntableExport} disabled={isExporting} />
+        </div>
       </div>
     </div>
   );
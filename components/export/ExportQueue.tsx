@@ -0,0 +1,77 @@
+'use client';
+
+/**
+ * ExportQueue Component
+ * Batch export queue with per-job progress, cancel and retry
+ */
+
+import { useExportStore, ExportJob } from '@/stores/exportStore';
+import { getExportLabel } from '@/lib/export/batchExport';
+import { ProgressBar } from '@/components/ui/Loading';
+import { Card } from '@/components/ui/Card';
+
+const STATUS_LABELS: Record<ExportJob['status'], string> = {
+  pending: 'Waiting',
+  running: 'Exporting',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export function ExportQueue() {
+  const { queue, cancelExportJob, cancelExportQueue, retryExportJob, clearExportQueue } = useExportStore();
+
+  if (queue.length === 0) return null;
+
+  const active = queue.filter((job) => job.status === 'pending' || job.status === 'running').length;
+  const done = queue.filter((job) => job.status === 'done').length;
+
+  return (
+    <Card variant="standard" className="p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-small font-semi-bold text-text-primary">
+          Export queue
+          <span className="ml-1 font-normal text-text-tertiary">
+            {done}/{queue.length}
+          </span>
+        </h4>
+        {active > 0 ? (
+          <button onClick={cancelExportQueue} className="text-tiny text-accent-blue hover:underline">
+            Cancel all
+          </button>
+        ) : (
+          <button onClick={clearExportQueue} className="text-tiny text-accent-blue hover:underline">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1.5">
+        {queue.map((job) => (
+          <li key={job.id} className="space-y-0.5">
+            <div className="flex items-center justify-between gap-2 text-tiny">
+              <span className="min-w-0 truncate text-text-primary">{getExportLabel(job.format, job.quality)}</span>
+              <span className="flex flex-shrink-0 items-center gap-2">
+                <span className={job.status === 'failed' ? 'text-error' : 'text-text-tertiary'}>
+                  {STATUS_LABELS[job.status]}
+                </span>
+                {(job.status === 'pending' || job.status === 'running') && (
+                  <button onClick={() => cancelExportJob(job.id)} className="text-accent-blue hover:underline">
+                    Cancel
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => retryExportJob(job.id)} className="text-accent-blue hover:underline">
+                    Retry
+                  </button>
+                )}
+              </span>
+            </div>
+            {job.status === 'running' && <ProgressBar value={job.progress * 100} size="sm" />}
+            {job.error && <p className="text-tiny text-error truncate" title={job.error}>{job.error}</p>}
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
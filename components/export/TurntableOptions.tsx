@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * TurntableOptions Component
+ * Settings for the turntable animation export: format, frame count, speed, resolution and background
+ */
+
+import { useExportStore } from '@/stores/exportStore';
+import { TurntableOptions as TurntableSettings } from '@/lib/export/turntableExport';
+
+const SIZES = [480, 800, 1080];
+
+interface TurntableOptionsProps {
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+export function TurntableOptions({ onExport, disabled }: TurntableOptionsProps) {
+  const { turntableOptions: options, setTurntableOptions } = useExportStore();
+  const duration = options.frames / options.fps;
+
+  const numberInput = (key: 'frames' | 'fps', min: number, max: number) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={options[key]}
+      onChange={(e) => {
+        const value = e.target.valueAsNumber;
+        if (Number.isFinite(value)) setTurntableOptions({ [key]: Math.min(max, Math.max(min, Math.round(value))) });
+      }}
+      className="w-full px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-1">
+        {(['webm', 'gif'] as TurntableSettings['format'][]).map((format) => (
+          <button
+            key={format}
+            onClick={() => setTurntableOptions({ format })}
+            className={`px-3 py-1 text-small rounded-small transition-smooth ${
+              options.format === format ? 'bg-accent-blue text-white' : 'bg-base-light-gray hover:bg-base-light-gray/70'
+            }`}
+          >
+            {format === 'webm' ? 'WebM' : 'GIF'}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-tiny text-text-secondary">
+        <label className="space-y-0.5">
+          <span className="block">Frames</span>
+          {numberInput('frames', 2, 360)}
+        </label>
+        <label className="space-y-0.5">
+          <span className="block">FPS</span>
+          {numberInput('fps', 1, 60)}
+        </label>
+        <label className="space-y-0.5">
+          <span className="block">Size</span>
+          <select
+            value={options.width}
+            onChange={(e) => {
+              const size = Number(e.target.value);
+              setTurntableOptions({ width: size, height: size });
+            }}
+            className="w-full px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+          >
+            {SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} × {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-0.5">
+          <span className="block">Background</span>
+          <input
+            type="color"
+            value={options.background}
+            onChange={(e) => setTurntableOptions({ background: e.target.value })}
+            className="w-full h-6 rounded-small border border-base-light-gray cursor-pointer"
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={onExport}
+        disabled={disabled}
+        className="w-full px-3 py-2 text-small bg-base-light-gray hover:bg-accent-blue hover:text-white rounded-small transition-smooth disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Export turntable ({duration.toFixed(1)}s {options.format === 'webm' ? 'WebM' : 'GIF'})
+      </button>
+    </div>
+  );
+}
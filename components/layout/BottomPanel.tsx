@@ -2,13 +2,15 @@
 
 /**
  * BottomPanel Component
- * Groups Actions, Text Tool, and Print Library sections
+ * Groups Actions, History, My Designs, Text Tool, and Print Library sections
  * Horizontal layout for bottom panel
  */
 
 import React from 'react';
 import { PanelSection } from './ControlPanel';
 import { DesignActions } from '@/components/configurator/DesignActions';
+import { HistoryPanel } from '@/components/configurator/HistoryPanel';
+import { DesignLibrary } from '@/components/configurator/DesignLibrary';
 import { LazyTextTool } from '@/components/prints/TextTool.lazy';
 import { PrintLibrary } from '@/components/prints/PrintLibrary';
 
@@ -33,6 +35,34 @@ export function BottomPanel() {
         </PanelSection>
       </div>
 
+      {/* History */}
+      <div className="flex-shrink-0 w-64">
+        <PanelSection
+          title="History"
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          }
+        >
+          <HistoryPanel />
+        </PanelSection>
+      </div>
+
+      {/* My Designs */}
+      <div className="flex-shrink-0 w-72">
+        <PanelSection
+          title="My Designs"
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+            </svg>
+          }
+        >
+          <DesignLibrary />
+        </PanelSection>
+      </div>
+
       {/* Text Tool */}
       <div className="flex-shrink-0 w-64">
         <PanelSection
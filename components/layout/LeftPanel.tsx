@@ -2,7 +2,7 @@
 
 /**
  * LeftPanel Component
- * Groups Design Mode, Components, and Color sections
+ * Groups Design Mode, Components, Color, and Colorways sections
  */
 
 import React from 'react';
@@ -10,7 +10,9 @@ import { PanelSection } from './ControlPanel';
 import { ModeSelector } from '@/components/configurator/ModeSelector';
 import { ComponentSelector } from '@/components/configurator/ComponentSelector';
 import { LazyColorPicker } from '@/components/configurator/ColorPicker.lazy';
+import { ColorwaySwitcher } from '@/components/configurator/ColorwaySwitcher';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
 import { Card } from '@/components/ui/Card';
 
 // ============================================================================
@@ -18,7 +20,8 @@ import { Card } from '@/components/ui/Card';
 // ============================================================================
 
 export function LeftPanel() {
-  const { selectedComponent, colorMap, setColor, addRecentColor } = useConfiguratorStore();
+  const { selectedComponent, setColor, addRecentColor } = useConfiguratorStore();
+  const { colorMap } = useActiveColorway();
 
   const handleColorChange = (color: string) => {
     if (selectedComponent) {
@@ -79,6 +82,18 @@ export function LeftPanel() {
           />
         )}
       </PanelSection>
+
+      {/* Colorways */}
+      <PanelSection
+        title="Colorways"
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+          </svg>
+        }
+      >
+        <ColorwaySwitcher />
+      </PanelSection>
     </>
   );
 }
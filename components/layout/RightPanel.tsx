@@ -2,7 +2,7 @@
 
 /**
  * RightPanel Component
- * Groups Materials, Print Placement, and Print Manager sections
+ * Groups Materials, Print Placement, Print Manager, Print Artwork, Team Roster, Price, and Order sections
  */
 
 import React from 'react';
@@ -10,6 +10,10 @@ import { PanelSection } from './ControlPanel';
 import { LazyMaterialLibrary } from '@/components/configurator/MaterialLibrary.lazy';
 import { LazyPrintPlacement } from '@/components/prints/PrintPlacement.lazy';
 import { LazyPrintManager } from '@/components/prints/PrintManager.lazy';
+import { ArtworkExport } from '@/components/prints/ArtworkExport';
+import { RosterEditor } from '@/components/configurator/RosterEditor';
+import { PriceBreakdown } from '@/components/configurator/PriceBreakdown';
+import { OrderBuilder } from '@/components/configurator/OrderBuilder';
 
 // ============================================================================
 // Component
@@ -53,6 +57,54 @@ export function RightPanel() {
       >
         <LazyPrintManager />
       </PanelSection>
+
+      {/* Print Artwork */}
+      <PanelSection
+        title="Print Artwork"
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+          </svg>
+        }
+      >
+        <ArtworkExport />
+      </PanelSection>
+
+      {/* Team Roster */}
+      <PanelSection
+        title="Team Roster"
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+          </svg>
+        }
+      >
+        <RosterEditor />
+      </PanelSection>
+
+      {/* Price */}
+      <PanelSection
+        title="Price"
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        }
+      >
+        <PriceBreakdown />
+      </PanelSection>
+
+      {/* Order */}
+      <PanelSection
+        title="Order"
+        icon={
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+          </svg>
+        }
+      >
+        <OrderBuilder />
+      </PanelSection>
     </>
   );
 }
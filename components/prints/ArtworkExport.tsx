@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * ArtworkExport Component
+ * Print-ready artwork export: target DPI, optional crop marks and the zones that will be rendered
+ */
+
+import { useMemo, useState } from 'react';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
+import { planZoneArtwork, exportPrintArtwork } from '@/lib/export/artworkExport';
+import { toast } from '@/stores/toastStore';
+import { Button } from '@/components/ui/Button';
+
+const DPI_OPTIONS = [150, 300, 600];
+
+export function ArtworkExport() {
+  const { printMap } = useActiveColorway();
+  const [dpi, setDpi] = useState(300);
+  const [cropMarks, setCropMarks] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { artworks, unplaced } = useMemo(() => planZoneArtwork(printMap, dpi), [printMap, dpi]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportPrintArtwork(printMap, { dpi, cropMarks });
+      toast.success(`Exported artwork for ${artworks.length} zone${artworks.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export print artwork');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 text-small text-text-secondary">
+          DPI
+          <select
+            value={dpi}
+            onChange={(e) => setDpi(Number(e.target.value))}
+            className="px-1 py-0.5 text-small border border-base-light-gray rounded-small"
+          >
+            {DPI_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-small text-text-secondary">
+          <input type="checkbox" checked={cropMarks} onChange={(e) => setCropMarks(e.target.checked)} />
+          Crop marks
+        </label>
+      </div>
+
+      {artworks.length > 0 ? (
+        <ul className="space-y-0.5">
+          {artworks.map((artwork) => (
+            <li key={artwork.zone.id} className="flex justify-between text-tiny text-text-secondary">
+              <span>
+                {artwork.zone.name}{' '}
+                <span className="text-text-tertiary">
+                  ({artwork.prints.length} print{artwork.prints.length === 1 ? '' : 's'})
+                </span>
+              </span>
+              <span title={`${artwork.widthPx} x ${artwork.heightPx} px`}>
+                {artwork.widthInches.toFixed(1)} x {artwork.heightInches.toFixed(1)} in
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-tiny text-text-tertiary">Place prints in a print zone to export their artwork.</p>
+      )}
+
+      {unplaced.length > 0 && (
+        <p className="text-tiny text-text-tertiary">
+          {unplaced.length} print{unplaced.length === 1 ? ' is' : 's are'} outside every print zone, or in overlapping
+          zones, and won&apos;t be exported. Place prints in zone mode to assign their zone.
+        </p>
+      )}
+
+      <Button
+        variant="primary"
+        size="sm"
+        onClick={handleExport}
+        disabled={artworks.length === 0 || isExporting}
+        loading={isExporting}
+        fullWidth
+      >
+        Export artwork (PNG per zone)
+      </Button>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { PrintApplication, BlendMode } from '@/types/prints';
+import { getPrintLabel } from '@/lib/designHistory';
+import { useHistoryTransaction } from '@/hooks/useHistoryTransaction';
 import { logger } from '@/lib/logger';
 
 interface PrintEditorProps {
@@ -13,6 +15,11 @@ interface PrintEditorProps {
 
 export function PrintEditor({ print, onUpdate, onDelete, onClose }: PrintEditorProps) {
   const [localPrint, setLocalPrint] = useState<PrintApplication>(print);
+  // Each slider drag is one undo step
+  const moveGesture = useHistoryTransaction(`Move ${getPrintLabel(print)}`);
+  const scaleGesture = useHistoryTransaction(`Scale ${getPrintLabel(print)}`);
+  const rotateGesture = useHistoryTransaction(`Rotate ${getPrintLabel(print)}`);
+  const opacityGesture = useHistoryTransaction(`Change opacity of ${getPrintLabel(print)}`);
 
   // Update local state when print prop changes
   useEffect(() => {
@@ -98,6 +105,7 @@ export function PrintEditor({ print, onUpdate, onDelete, onClose }: PrintEditorP
               max="1"
               step="0.001"
               value={localPrint.position.x}
+              onPointerDown={moveGesture.onPointerDown}
               onChange={(e) => handlePositionChange('x', parseFloat(e.target.value))}
               className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
             />
@@ -115,6 +123,7 @@ export function PrintEditor({ print, onUpdate, onDelete, onClose }: PrintEditorP
               max="1"
               step="0.001"
               value={localPrint.position.y}
+              onPointerDown={moveGesture.onPointerDown}
               onChange={(e) => handlePositionChange('y', parseFloat(e.target.value))}
               className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
             />
@@ -136,6 +145,7 @@ export function PrintEditor({ print, onUpdate, onDelete, onClose }: PrintEditorP
           max="2.0"
           step="0.01"
           value={localPrint.scale}
+          onPointerDown={scaleGesture.onPointerDown}
           onChange={(e) => handleScaleChange(parseFloat(e.target.value))}
           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-green-600"
         />
@@ -159,6 +169,7 @@ export function PrintEditor({ print, onUpdate, onDelete, onClose }: PrintEditorP
           max="360"
           step="1"
           value={localPrint.rotation}
+          onPointerDown={rotateGesture.onPointerDown}
           onChange={(e) => handleRotationChange(parseInt(e.target.value))}
           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
         />
@@ -182,6 +193,7 @@ export function PrintEditor({ print, onUpdate, onDelete, onClose }: PrintEditorP
           max="1"
           step="0.01"
           value={localPrint.opacity}
+          onPointerDown={opacityGesture.onPointerDown}
           onChange={(e) => handleOpacityChange(parseFloat(e.target.value))}
           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-gray-600"
         />
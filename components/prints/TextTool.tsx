@@ -7,6 +7,7 @@
 
 import { useState } from 'react';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useRosterStore } from '@/stores/rosterStore';
 import { PrintApplication, BlendMode } from '@/types/prints';
 import { ComponentType } from '@/types/models';
 import { logger } from '@/lib/logger';
@@ -55,7 +56,9 @@ export function TextTool() {
   const [fontWeight, setFontWeight] = useState('normal');
   const [textColor, setTextColor] = useState('#000000');
   const [textAlign, setTextAlign] = useState<'left' | 'center' | 'right'>('center');
+  const [rosterField, setRosterField] = useState('');
   const [isAdding, setIsAdding] = useState(false);
+  const rosterColumns = useRosterStore((state) => state.columns);
 
   const handleAddText = () => {
     if (!selectedComponent || !text.trim()) {
@@ -88,6 +91,7 @@ export function TextTool() {
       blendMode: BlendMode.NORMAL,
       component: selectedComponent,
       zIndex: existingPrints.length,
+      rosterField: rosterField.trim() || undefined,
     };
 
     addPrint(selectedComponent, textPrint);
@@ -98,6 +102,7 @@ export function TextTool() {
         component: selectedComponent,
         text: text.trim(),
         printId: textPrint.id,
+        rosterField: textPrint.rosterField,
       },
     });
 
@@ -142,6 +147,21 @@ export function TextTool() {
             </Badge>
           )}
         </div>
+        <div className="mt-3">
+          <Input
+            label="Roster column (optional)"
+            value={rosterField}
+            onChange={(e) => setRosterField(e.target.value)}
+            placeholder="e.g. Name or Number"
+            list="text-tool-roster-columns"
+            helperText="Each roster row replaces the text with its value in this column"
+          />
+          <datalist id="text-tool-roster-columns">
+            {rosterColumns.map((column) => (
+              <option key={column} value={column} />
+            ))}
+          </datalist>
+        </div>
       </Card>
 
       {/* Font Controls */}
@@ -0,0 +1,89 @@
+'use client';
+
+/**
+ * DesignImageDropZone Component
+ * Wraps the viewer; dropping a PNG exported by the configurator opens the design embedded in it.
+ * Opening replaces the design and its undo history, so edits made since the design was opened are
+ * only replaced after a confirmation.
+ */
+
+import { ReactNode, useCallback, useState } from 'react';
+import { useDragAndDrop } from '@/hooks/useDragAndDrop';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { importDesignImage } from '@/lib/export/designImage';
+import { DesignState } from '@/lib/designState';
+import { ConfirmationDialog } from '@/components/ui/ConfirmationDialog';
+import { toast } from '@/stores/toastStore';
+import { logger } from '@/lib/logger';
+
+interface DesignImageDropZoneProps {
+  children: ReactNode;
+}
+
+export function DesignImageDropZone({ children }: DesignImageDropZoneProps) {
+  const loadDesign = useConfiguratorStore((state) => state.loadDesign);
+  const [pending, setPending] = useState<{ design: DesignState; filename: string } | null>(null);
+
+  const openDesign = useCallback(
+    (design: DesignState, filename: string) => {
+      loadDesign(design);
+      toast.success(`Opened the design from "${filename}"`);
+    },
+    [loadDesign]
+  );
+
+  const handleDrop = useCallback(
+    async ([file]: File[]) => {
+      try {
+        const design = await importDesignImage(file);
+        if (useConfiguratorStore.getState().canUndo()) {
+          setPending({ design, filename: file.name });
+        } else {
+          openDesign(design, file.name);
+        }
+      } catch (error) {
+        logger.error('Failed to import design image', {
+          context: 'DesignImageDropZone',
+          error: error instanceof Error ? error : new Error(String(error)),
+          metadata: { filename: file.name },
+        });
+        toast.error(`Could not open "${file.name}": ${error instanceof Error ? error.message : String(error)}`, {
+          duration: 8000,
+        });
+      }
+    },
+    [openDesign]
+  );
+
+  const handleConfirm = () => {
+    if (pending) {
+      openDesign(pending.design, pending.filename);
+    }
+    setPending(null);
+  };
+
+  const { isDragging, dragProps } = useDragAndDrop({ onDrop: handleDrop, accept: ['image/png'] });
+
+  return (
+    <div className="relative w-full h-full" {...dragProps}>
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-overlay flex items-center justify-center bg-accent-blue/10 border-2 border-dashed border-accent-blue rounded-large pointer-events-none">
+          <p className="px-4 py-2 text-small font-medium text-text-primary bg-white rounded-small shadow-elevation-2">
+            Drop a PNG exported from the configurator to open its design
+          </p>
+        </div>
+      )}
+      <ConfirmationDialog
+        isOpen={!!pending}
+        onClose={() => setPending(null)}
+        onConfirm={handleConfirm}
+        title={pending ? `Open the design from "${pending.filename}"?` : ''}
+        message="This replaces the current design and clears its undo history. Save the current design first to keep your changes."
+        confirmLabel="Open design"
+        cancelLabel="Keep current design"
+        variant="warning"
+      />
+    </div>
+  );
+}
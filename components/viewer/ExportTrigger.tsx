@@ -1,22 +1,95 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useThree } from '@react-three/fiber';
-import { useExportStore } from '@/stores/exportStore';
-import { useExport } from '@/hooks/useExport';
+import { useExportStore, ExportFormat, ExportQuality } from '@/stores/exportStore';
+import { useExport, ExportRun } from '@/hooks/useExport';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { DownloadedFile } from '@/lib/export/download';
+import { exportBatchArchive, getExportLabel } from '@/lib/export/batchExport';
+import { toast } from '@/stores/toastStore';
 import { logger } from '@/lib/logger';
 
 /**
- * Component that listens to export requests and triggers exports
+ * Component that listens to export requests and the batch export queue and triggers exports
  * Must be placed inside Canvas component
  */
 export function ExportTrigger() {
-  const { exportRequest, clearExportRequest, setExporting, setExportError } = useExportStore();
-  const { exportAsImage, exportAsPDF, exportAsModel } = useExport();
+  const {
+    exportRequest,
+    isExporting,
+    queue,
+    clearExportRequest,
+    setExporting,
+    setExportError,
+    turntableOptions,
+    contactSheetOptions,
+    modelTextureSize,
+  } = useExportStore();
+  const { exportAsImage, exportAsPDF, exportAsModel, exportColorways, exportRoster, exportTurntable, exportContactSheet, exportTextures } =
+    useExport();
   const { gl } = useThree();
   const { componentMap } = useConfiguratorStore();
   const previousRequestRef = useRef<number | null>(null);
+  const isRunningQueueRef = useRef(false);
+  const [queueTick, setQueueTick] = useState(0);
+
+  const runExport = useCallback(
+    async (format: ExportFormat, quality: ExportQuality = 'standard', run: ExportRun = {}) => {
+      // Verify model is loaded
+      if (!componentMap || Object.keys(componentMap).length === 0) {
+        throw new Error('Model is not loaded. Please wait for the model to load before exporting.');
+      }
+
+      // Verify canvas is ready
+      const canvas = gl.domElement as HTMLCanvasElement;
+      if (!canvas || canvas.width === 0 || canvas.height === 0) {
+        throw new Error('Canvas is not ready. Please wait a moment and try again.');
+      }
+
+      // Wait an extra frame to ensure everything is rendered
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+
+      switch (format) {
+        case 'png':
+          await exportAsImage('png', quality === 'high', run);
+          break;
+        case 'jpg':
+          await exportAsImage('jpg', quality === 'high', run);
+          break;
+        case 'pdf':
+          await exportAsPDF(run);
+          break;
+        case 'glb':
+        case 'gltf':
+        case 'usdz':
+        case 'obj':
+          await exportAsModel(format, modelTextureSize, run);
+          break;
+        case 'colorways':
+          await exportColorways(run);
+          break;
+        case 'roster':
+          await exportRoster(run);
+          break;
+        case 'turntable':
+          await exportTurntable(turntableOptions, run);
+          break;
+        case 'contactSheet':
+          await exportContactSheet(contactSheetOptions, run);
+          break;
+        case 'textures':
+          await exportTextures(run);
+          break;
+      }
+
+      logger.info('Export completed via trigger', {
+        context: 'ExportTrigger',
+        metadata: { format, quality, canvasSize: `${canvas.width}x${canvas.height}` },
+      });
+    },
+    [exportAsImage, exportAsPDF, exportAsModel, exportColorways, exportRoster, exportTurntable, exportContactSheet, exportTextures, turntableOptions, contactSheetOptions, modelTextureSize, gl, componentMap]
+  );
 
   useEffect(() => {
     if (!exportRequest) return;
@@ -32,42 +105,7 @@ export function ExportTrigger() {
       setExportError(null);
 
       try {
-        // Verify model is loaded
-        if (!componentMap || Object.keys(componentMap).length === 0) {
-          throw new Error('Model is not loaded. Please wait for the model to load before exporting.');
-        }
-
-        // Verify canvas is ready
-        const canvas = gl.domElement as HTMLCanvasElement;
-        if (!canvas || canvas.width === 0 || canvas.height === 0) {
-          throw new Error('Canvas is not ready. Please wait a moment and try again.');
-        }
-
-        // Wait an extra frame to ensure everything is rendered
-        await new Promise((resolve) => requestAnimationFrame(resolve));
-
-        const { format, quality } = exportRequest;
-
-        switch (format) {
-          case 'png':
-            await exportAsImage('png', quality === 'high');
-            break;
-          case 'jpg':
-            await exportAsImage('jpg', quality === 'high');
-            break;
-          case 'pdf':
-            await exportAsPDF();
-            break;
-          case 'glb':
-          case 'gltf':
-            await exportAsModel(format);
-            break;
-        }
-
-        logger.info('Export completed via trigger', {
-          context: 'ExportTrigger',
-          metadata: { format, quality, canvasSize: `${canvas.width}x${canvas.height}` },
-        });
+        await runExport(exportRequest.format, exportRequest.quality);
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         setExportError(err);
@@ -83,9 +121,87 @@ export function ExportTrigger() {
     };
 
     handleExport();
-  }, [exportRequest, exportAsImage, exportAsPDF, exportAsModel, setExporting, setExportError, clearExportRequest, gl, componentMap]);
+  }, [exportRequest, runExport, setExporting, setExportError, clearExportRequest]);
+
+  // Work through the batch queue one job at a time, then bundle what finished into one ZIP
+  useEffect(() => {
+    if (isRunningQueueRef.current || isExporting || exportRequest) return;
+
+    const job = queue.find((item) => item.status === 'pending');
+    const finished = queue.filter((item) => item.status === 'done' && !item.bundled);
+    if (!job && finished.length === 0) return;
+    if (!job && queue.some((item) => item.status === 'running')) return;
+
+    const { updateExportJob } = useExportStore.getState();
+    isRunningQueueRef.current = true;
+
+    const runJob = async () => {
+      if (!job) {
+        // Mark first so a retry that finishes later only bundles its own files
+        finished.forEach((item) => updateExportJob(item.id, { bundled: true }));
+        try {
+          await exportBatchArchive(finished.flatMap((item) => item.files));
+          toast.success(`Exported ${finished.length} file${finished.length === 1 ? '' : 's'} as one ZIP`);
+        } catch (error) {
+          toast.error('Failed to bundle the batch export');
+        }
+        return;
+      }
+
+      // The job keeps its own files, so downloads started elsewhere meanwhile still reach the browser.
+      // Cancelling or removing the job stops the export at its next view, frame or row.
+      const files: DownloadedFile[] = [];
+      const controller = new AbortController();
+
+      setExporting(true);
+      updateExportJob(job.id, { status: 'running', progress: 0 });
+      const unsubscribe = useExportStore.subscribe((state) => {
+        if (state.queue.find((item) => item.id === job.id)?.status !== 'running') {
+          controller.abort();
+        }
+      });
+      try {
+        await runExport(job.format, job.quality, {
+          signal: controller.signal,
+          sink: (file) => files.push(file),
+        });
+        if (files.length === 0) {
+          throw new Error('The export produced no file');
+        }
+        if (useExportStore.getState().queue.find((item) => item.id === job.id)?.status === 'running') {
+          updateExportJob(job.id, { status: 'done', progress: 1, files });
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          logger.info('Queued export cancelled', {
+            context: 'ExportTrigger',
+            metadata: { format: job.format, quality: job.quality },
+          });
+          return;
+        }
+        const err = error instanceof Error ? error : new Error(String(error));
+        logger.error('Queued export failed', {
+          context: 'ExportTrigger',
+          error: err,
+          metadata: { format: job.format, quality: job.quality },
+        });
+        if (useExportStore.getState().queue.find((item) => item.id === job.id)?.status === 'running') {
+          updateExportJob(job.id, { status: 'failed', error: err.message });
+          toast.error(`${getExportLabel(job.format, job.quality)} export failed: ${err.message}`, { duration: 8000 });
+        }
+      } finally {
+        unsubscribe();
+        setExporting(false);
+      }
+    };
+
+    runJob().finally(() => {
+      isRunningQueueRef.current = false;
+      // Pick up the next job; the state changes above may have landed while this one was still running
+      setQueueTick((tick) => tick + 1);
+    });
+  }, [queue, queueTick, isExporting, exportRequest, runExport, setExporting]);
 
   // This component doesn't render anything
   return null;
 }
-
@@ -1,30 +1,52 @@
 'use client';
 
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useModelLoader } from '@/hooks/useModelLoader';
 import { useComponentIsolation } from '@/hooks/useComponentIsolation';
 import { useComponentHighlight } from '@/hooks/useComponentHighlight';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
+import { useRosterPreview } from '@/hooks/useRosterPreview';
 import { ComponentType } from '@/types/models';
+import { DesignState } from '@/lib/designState';
+import { resolveColorway } from '@/lib/designVariants';
+import { trackSceneUpdate } from '@/lib/sceneUpdates';
 import { MaterialLibrary } from '@/types/materials';
+import { PatternLibrary } from '@/types/patterns';
 import { materialManager } from '@/lib/materialManager';
 import { printTextureManager } from '@/lib/printTextureManager';
+import { patternManager } from '@/lib/patternManager';
+import { GARMENT_OBJECT_NAME } from '@/lib/export/modelExport';
 import { PrintZoneGuides } from './PrintZoneGuides';
 import { logger } from '@/lib/logger';
 import materialsData from '@/data/materials.json';
+import patternsData from '@/data/patterns.json';
 import * as THREE from 'three';
 
 interface ModelLoaderProps {
   modelPath: string | null;
+  design?: DesignState; // Render this design instead of the configurator's (read-only preview)
 }
 
-export function ModelLoader({ modelPath }: ModelLoaderProps) {
+export function ModelLoader({ modelPath, design }: ModelLoaderProps) {
   const groupRef = useRef<THREE.Group>(null);
   const [sceneGroup, setSceneGroup] = useState<THREE.Group | null>(null);
   const { model, loading, error } = useModelLoader(modelPath);
   const { componentMap, components, isLoading: isIsolating } = useComponentIsolation(model);
-  const { setComponentMap, materialMap, colorMap, selectedComponent, printMap } = useConfiguratorStore();
+  const store = useConfiguratorStore();
+  const { setComponentMap } = store;
+  const isPreview = !!design;
+  const activeColorway = useActiveColorway();
+  const designColorway = useMemo(
+    () => (design ? resolveColorway(design, design.activeVariantId) : null),
+    [design]
+  );
+  const { materialMap, colorMap, printMap: colorwayPrintMap } = designColorway || activeColorway;
+  // Roster preview personalizes the configurator's own design only
+  const printMap = useRosterPreview(colorwayPrintMap, !isPreview);
+  const selectedComponent = design ? null : store.selectedComponent;
+  const patternMap = design ? design.patternMap : store.patternMap;
 
 
   // Apply component highlighting - pass the scene group and component map
@@ -32,6 +54,7 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
 
   // Store component map in global store when it's ready
   useEffect(() => {
+    if (isPreview) return;
     if (componentMap && Object.keys(componentMap).length > 0) {
       logger.info('Component map ready, storing in global state', {
         context: 'ModelLoader',
@@ -47,7 +70,7 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
         metadata: { modelPath, hasModel: !!model },
       });
     }
-  }, [componentMap, setComponentMap, model, isIsolating, modelPath]);
+  }, [componentMap, setComponentMap, model, isIsolating, modelPath, isPreview]);
 
   // Helper function to find meshes in the scene by component type
   const findMeshesInScene = useCallback((componentType: ComponentType): THREE.Mesh[] => {
@@ -75,7 +98,7 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
     const materials = materialsData.materials as MaterialLibrary;
 
     // Apply materials for each component type
-    Object.entries(materialMap).forEach(async ([componentType, materialId]) => {
+    const updates = Object.entries(materialMap).map(async ([componentType, materialId]) => {
       if (materialId) {
         const meshes = findMeshesInScene(componentType as ComponentType);
         const material = materials.find((m) => m.id === materialId);
@@ -88,7 +111,8 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
               color || undefined
             );
             meshes.forEach((mesh) => {
-              mesh.material = threeMaterial;
+              // Previews get their own copy so colors and prints don't leak into other viewers
+              mesh.material = isPreview ? threeMaterial.clone() : threeMaterial;
             });
             logger.info('Material applied successfully', {
               context: 'ModelLoader',
@@ -104,7 +128,8 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
         }
       }
     });
-  }, [sceneGroup, componentMap, materialMap, colorMap]);
+    trackSceneUpdate(Promise.all(updates));
+  }, [sceneGroup, componentMap, materialMap, colorMap, isPreview]);
 
   // Apply colors to components (when no material is set, or update existing material color)
   useEffect(() => {
@@ -141,26 +166,31 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
     });
   }, [sceneGroup, componentMap, colorMap, materialMap]);
 
-  // Apply print textures to components
+  // Apply pattern and print textures to components
   useEffect(() => {
     if (!sceneGroup || !componentMap || Object.keys(componentMap).length === 0) {
       return;
     }
 
-    // Process all components (both with and without prints)
+    // Process all components (both with and without prints or patterns)
     const allComponents = new Set([
       ...Object.keys(printMap),
       ...Object.values(componentMap),
     ]) as Set<ComponentType>;
+    const patterns = patternsData.patterns as PatternLibrary;
 
-    allComponents.forEach(async (componentType) => {
+    const updates = Array.from(allComponents).map(async (componentType) => {
       const prints = printMap[componentType] || [];
+      const patternApplication = patternMap[componentType] || null;
+      const pattern = patternApplication
+        ? patterns.find((p) => p.id === patternApplication.patternId)
+        : undefined;
       const meshes = findMeshesInScene(componentType);
       if (meshes.length === 0) return;
 
       try {
-        if (prints.length > 0) {
-          // Apply print textures (multiple prints per component)
+        if (prints.length > 0 || (pattern && patternApplication)) {
+          // Pattern first, then prints (multiple prints per component) on top
           const firstMesh = meshes[0];
           let baseTexture: THREE.Texture | null = null;
           
@@ -172,12 +202,20 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
             baseTexture = firstMesh.userData.originalTexture || firstMesh.material.map;
           }
 
+          if (pattern && patternApplication) {
+            baseTexture =
+              (await patternManager.createPatternTexture(
+                baseTexture,
+                pattern.properties,
+                patternApplication
+              )) ?? baseTexture;
+          }
+
           // Create composite texture with all print overlays
-          const compositeTexture = await printTextureManager.createCompositeTexture(
-            baseTexture,
-            prints,
-            componentType
-          );
+          const compositeTexture =
+            prints.length > 0
+              ? await printTextureManager.createCompositeTexture(baseTexture, prints, componentType)
+              : baseTexture;
 
           // Apply composite texture to all meshes
           meshes.forEach((mesh) => {
@@ -187,17 +225,18 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
             }
           });
 
-          logger.info('Print textures applied successfully', {
+          logger.info('Pattern and print textures applied successfully', {
             context: 'ModelLoader',
             metadata: {
               componentType,
+              patternId: patternApplication?.patternId ?? null,
               printCount: prints.length,
               printIds: prints.map(p => p.id),
               meshCount: meshes.length,
             },
           });
         } else {
-          // Remove prints - restore original texture
+          // Remove prints and pattern - restore original texture
           meshes.forEach((mesh) => {
             if (mesh.material instanceof THREE.MeshStandardMaterial) {
               // Restore original texture if stored
@@ -213,20 +252,21 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
             }
           });
 
-          logger.info('Prints removed, texture restored', {
+          logger.info('Prints and pattern removed, texture restored', {
             context: 'ModelLoader',
             metadata: { componentType, meshCount: meshes.length },
           });
         }
       } catch (err) {
-        logger.error('Error applying/removing print textures', {
+        logger.error('Error applying/removing pattern and print textures', {
           context: 'ModelLoader',
           error: err instanceof Error ? err : new Error(String(err)),
           metadata: { componentType, printCount: prints.length },
         });
       }
     });
-  }, [sceneGroup, componentMap, printMap, findMeshesInScene]);
+    trackSceneUpdate(Promise.all(updates));
+  }, [sceneGroup, componentMap, printMap, patternMap, findMeshesInScene]);
 
   // Auto-rotate the model (optional)
   useFrame((state, delta) => {
@@ -250,6 +290,14 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
 
       // Clone the model to avoid mutating the original
       const clonedModel = model.clone();
+      if (isPreview) {
+        // Clones share materials; give previews their own so they can differ side by side
+        clonedModel.traverse((child: THREE.Object3D) => {
+          if (child instanceof THREE.Mesh && child.material instanceof THREE.Material) {
+            child.material = child.material.clone();
+          }
+        });
+      }
       groupRef.current.add(clonedModel);
 
       // Update sceneGroup state so highlighting can work
@@ -273,7 +321,7 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
       // Clear sceneGroup when model is removed
       setSceneGroup(null);
     }
-  }, [model, modelPath]);
+  }, [model, modelPath, isPreview]);
 
   // Log errors
   useEffect(() => {
@@ -330,10 +378,10 @@ export function ModelLoader({ modelPath }: ModelLoaderProps) {
 
   return (
     <>
-      <group ref={groupRef} />
+      <group ref={groupRef} name={GARMENT_OBJECT_NAME} />
       <PrintZoneGuides
         modelGroup={sceneGroup}
-        showGuides={!!selectedComponent}
+        showGuides={!isPreview && !!selectedComponent}
         highlightZoneId={selectedZoneId}
       />
     </>
@@ -5,7 +5,7 @@
  * Floating control panels with glass morphism effects, smooth transitions, and better positioning
  */
 
-import { Suspense, useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Html } from '@react-three/drei';
 import { CameraControls } from './CameraControls';
@@ -16,6 +16,7 @@ import { LightingPresets, LightingPresetButtons } from './LightingPresets';
 import { ExportTrigger } from './ExportTrigger';
 import { useConfiguratorStore } from '@/stores/configuratorStore';
 import { logger } from '@/lib/logger';
+import { registerViewerCanvas } from '@/lib/viewerCanvas';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { MotionDiv, AnimatePresence } from '@/lib/animations/framerMotion';
@@ -25,6 +26,9 @@ export function Scene() {
   const [cameraPreset, setCameraPreset] = useState('front');
   const [lightingPreset, setLightingPreset] = useState('studio');
   const [showControls, setShowControls] = useState(true);
+
+  // Forget the viewer canvas when the scene unmounts
+  useEffect(() => () => registerViewerCanvas(null), []);
   
   // Get model path based on current mode
   const modelPath = currentMode === 'blank' 
@@ -118,6 +122,7 @@ export function Scene() {
           alpha: true,
         }}
         className="w-full h-full"
+        onCreated={({ gl }) => registerViewerCanvas(gl.domElement)}
         onError={(error) => {
           logger.error('Canvas error', {
             context: 'Scene',
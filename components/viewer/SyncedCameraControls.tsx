@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * SyncedCameraControls Component
+ * OrbitControls that mirror camera moves across several canvases (e.g. the comparison view)
+ */
+
+import { useRef, ElementRef } from 'react';
+import { OrbitControls } from '@react-three/drei';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+/**
+ * Camera state shared by the synced viewers
+ * Mutable on purpose: it is written from render loops, not React state
+ */
+export interface CameraSync {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  version: number; // Bumped on every user move
+}
+
+/**
+ * Create the shared camera state for a group of synced viewers
+ */
+export function createCameraSync(): CameraSync {
+  return {
+    position: new THREE.Vector3(0, 0, 5),
+    target: new THREE.Vector3(0, 0, 0),
+    version: 0,
+  };
+}
+
+interface SyncedCameraControlsProps {
+  sync: CameraSync;
+}
+
+export function SyncedCameraControls({ sync }: SyncedCameraControlsProps) {
+  const { camera } = useThree();
+  const controlsRef = useRef<ElementRef<typeof OrbitControls>>(null);
+  const appliedVersion = useRef(-1);
+  const isApplying = useRef(false);
+
+  // Follow moves made in the other viewers
+  useFrame(() => {
+    const controls = controlsRef.current;
+    if (!controls || appliedVersion.current === sync.version) return;
+
+    isApplying.current = true;
+    camera.position.copy(sync.position);
+    controls.target.copy(sync.target);
+    controls.update();
+    isApplying.current = false;
+    appliedVersion.current = sync.version;
+  });
+
+  const handleChange = () => {
+    const controls = controlsRef.current;
+    if (!controls || isApplying.current) return;
+
+    sync.position.copy(camera.position);
+    sync.target.copy(controls.target);
+    sync.version++;
+    appliedVersion.current = sync.version;
+  };
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      enableZoom={true}
+      enablePan={true}
+      enableRotate={true}
+      minDistance={2}
+      maxDistance={10}
+      enableDamping={true}
+      dampingFactor={0.05}
+      rotateSpeed={0.5}
+      zoomSpeed={0.8}
+      panSpeed={0.8}
+      onChange={handleChange}
+      makeDefault
+    />
+  );
+}
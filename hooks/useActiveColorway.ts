@@ -0,0 +1,23 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { ResolvedColorway, resolveColorway } from '@/lib/designVariants';
+
+/**
+ * Hook returning the material, color and print maps of the active colorway
+ * Read these instead of the store's base maps wherever the design is shown to the user
+ * @returns Maps with the active variant's overrides applied
+ */
+export function useActiveColorway(): ResolvedColorway {
+  const materialMap = useConfiguratorStore((state) => state.materialMap);
+  const colorMap = useConfiguratorStore((state) => state.colorMap);
+  const printMap = useConfiguratorStore((state) => state.printMap);
+  const variants = useConfiguratorStore((state) => state.variants);
+  const activeVariantId = useConfiguratorStore((state) => state.activeVariantId);
+
+  return useMemo(
+    () => resolveColorway({ materialMap, colorMap, printMap, variants }, activeVariantId),
+    [materialMap, colorMap, printMap, variants, activeVariantId]
+  );
+}
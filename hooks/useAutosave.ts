@@ -0,0 +1,81 @@
+'use client';
+
+/**
+ * useAutosave Hook
+ * Autosaves the complete design to the recovery slot shortly after each change, periodically while
+ * changes are pending, and right away when the page is hidden or the WebGL context is lost
+ */
+
+import { useEffect } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { createDesignStateSnapshot } from '@/lib/designState';
+import { createHistorySnapshot, areHistorySnapshotsEqual } from '@/lib/designHistory';
+import { designRecoveryStorage } from '@/lib/designRecoveryStorage';
+import { logger } from '@/lib/logger';
+
+const AUTOSAVE_DELAY_MS = 2000;
+const AUTOSAVE_INTERVAL_MS = 30000;
+
+/**
+ * @param enabled - Hold off until any pending recovery prompt is answered, so the slot isn't overwritten
+ */
+export function useAutosave(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isDirty = false;
+    let isSaving = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const saveNow = async () => {
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+      if (!isDirty || isSaving) return;
+
+      isDirty = false;
+      isSaving = true;
+      try {
+        await designRecoveryStorage.save(createDesignStateSnapshot(useConfiguratorStore.getState()));
+      } catch (error) {
+        isDirty = true;
+        logger.error('Autosave failed', {
+          context: 'useAutosave',
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      } finally {
+        isSaving = false;
+      }
+    };
+
+    const unsubscribe = useConfiguratorStore.subscribe((state, previousState) => {
+      if (areHistorySnapshotsEqual(createHistorySnapshot(state), createHistorySnapshot(previousState))) {
+        return;
+      }
+      isDirty = true;
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(saveNow, AUTOSAVE_DELAY_MS);
+    });
+
+    const interval = setInterval(saveNow, AUTOSAVE_INTERVAL_MS);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', saveNow);
+    // Context loss events don't bubble; listen in the capture phase to catch the viewer's canvas
+    window.addEventListener('webglcontextlost', saveNow, true);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      if (timeout) clearTimeout(timeout);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', saveNow);
+      window.removeEventListener('webglcontextlost', saveNow, true);
+    };
+  }, [enabled]);
+}
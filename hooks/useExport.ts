@@ -1,17 +1,50 @@
 import { useRef, useCallback } from 'react';
 import { useThree } from '@react-three/fiber';
 import { exportCanvasAsImage, exportHighResImage } from '@/lib/export/imageExport';
-import { exportCanvasAsPDF } from '@/lib/export/pdfExport';
-import { exportSceneAsModel } from '@/lib/export/modelExport';
+import { exportTechPackPDF, TechPackView } from '@/lib/export/pdfExport';
+import { exportGarmentAsModel, ModelFormat } from '@/lib/export/modelExport';
 import { generateDesignMetadata } from '@/lib/export/designMetadata';
+import { createDesignStateSnapshot } from '@/lib/designState';
+import { ColorwayRender, captureCanvasImage, exportColorwayArchive } from '@/lib/export/colorwayExport';
+import { RosterRender, exportRosterArchive } from '@/lib/export/rosterExport';
+import { TurntableOptions, exportTurntable as exportTurntableAnimation } from '@/lib/export/turntableExport';
+import { ContactSheetOptions, exportContactSheet as exportContactSheetImage } from '@/lib/export/contactSheet';
+import { exportTextureAtlas } from '@/lib/export/textureAtlasExport';
+import { DownloadSink } from '@/lib/export/download';
+import { waitForSceneUpdates } from '@/lib/sceneUpdates';
+import { CAMERA_PRESETS } from '@/lib/cameraPresets';
+import { resolveColorway } from '@/lib/designVariants';
+import { getRosterBindings, getRosterRowLabel } from '@/lib/roster';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useRosterStore } from '@/stores/rosterStore';
+import { useExportStore } from '@/stores/exportStore';
 import { logger } from '@/lib/logger';
 
-type ExportFormat = 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf';
+// Views rendered for the PDF tech pack
+const TECH_PACK_VIEWS = ['front', 'back', 'left', 'right'];
+
+// Exports share the viewer's camera and scene, so only one runs at a time
+const EXPORT_RUNNING_MESSAGE = 'An export is already running';
+
+type ExportFormat = 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf' | 'usdz' | 'obj' | 'colorways' | 'roster' | 'turntable' | 'contactSheet' | 'textures';
+
+/**
+ * How one export runs: the batch queue passes a sink to keep the job's files and a signal to cancel it
+ */
+export interface ExportRun {
+  signal?: AbortSignal; // Checked between views, frames and rows; aborting rejects with an AbortError
+  sink?: DownloadSink; // Receives the files instead of the browser
+}
 
 interface UseExportResult {
-  exportAsImage: (format: 'png' | 'jpg', highRes?: boolean) => Promise<void>;
-  exportAsPDF: () => Promise<void>;
-  exportAsModel: (format: 'glb' | 'gltf') => Promise<void>;
+  exportAsImage: (format: 'png' | 'jpg', highRes?: boolean, run?: ExportRun) => Promise<void>;
+  exportAsPDF: (run?: ExportRun) => Promise<void>;
+  exportAsModel: (format: ModelFormat, maxTextureSize?: number | null, run?: ExportRun) => Promise<void>;
+  exportColorways: (run?: ExportRun) => Promise<void>;
+  exportRoster: (run?: ExportRun) => Promise<void>;
+  exportTurntable: (options: TurntableOptions, run?: ExportRun) => Promise<void>;
+  exportContactSheet: (options: ContactSheetOptions, run?: ExportRun) => Promise<void>;
+  exportTextures: (run?: ExportRun) => Promise<void>;
   isExporting: boolean;
 }
 
@@ -24,8 +57,10 @@ export function useExport(): UseExportResult {
   const isExportingRef = useRef(false);
 
   const exportAsImage = useCallback(
-    async (format: 'png' | 'jpg', highRes = false) => {
-      if (isExportingRef.current) return;
+    async (format: 'png' | 'jpg', highRes = false, { signal, sink }: ExportRun = {}) => {
+      if (isExportingRef.current) {
+        throw new Error(EXPORT_RUNNING_MESSAGE);
+      }
 
       isExportingRef.current = true;
       try {
@@ -34,6 +69,7 @@ export function useExport(): UseExportResult {
         
         // Wait a frame to ensure render is complete
         await new Promise((resolve) => requestAnimationFrame(resolve));
+        signal?.throwIfAborted();
 
         const canvas = gl.domElement as HTMLCanvasElement;
         
@@ -44,6 +80,7 @@ export function useExport(): UseExportResult {
 
         const metadata = generateDesignMetadata(format);
         const filename = `shirt-design-${Date.now()}`;
+        const design = createDesignStateSnapshot(useConfiguratorStore.getState()); // Embedded in PNGs
 
         if (highRes) {
           await exportHighResImage(canvas, {
@@ -52,6 +89,8 @@ export function useExport(): UseExportResult {
             scale: 4,
             quality: format === 'jpg' ? 0.95 : undefined,
             renderer: gl,
+            design,
+            sink,
           });
         } else {
           await exportCanvasAsImage(canvas, {
@@ -59,6 +98,8 @@ export function useExport(): UseExportResult {
             filename,
             quality: format === 'jpg' ? 0.92 : undefined,
             renderer: gl,
+            design,
+            sink,
           });
         }
 
@@ -80,17 +121,15 @@ export function useExport(): UseExportResult {
     [gl, scene, camera]
   );
 
-  const exportAsPDF = useCallback(async () => {
-    if (isExportingRef.current) return;
+  const exportAsPDF = useCallback(async ({ signal, sink }: ExportRun = {}) => {
+    if (isExportingRef.current) {
+      throw new Error(EXPORT_RUNNING_MESSAGE);
+    }
 
     isExportingRef.current = true;
+    const position = camera.position.clone();
+    const quaternion = camera.quaternion.clone();
     try {
-      // Force render before capture
-      gl.render(scene, camera);
-      
-      // Wait a frame to ensure render is complete
-      await new Promise((resolve) => requestAnimationFrame(resolve));
-
       const canvas = gl.domElement as HTMLCanvasElement;
       
       // Verify canvas has content
@@ -98,17 +137,36 @@ export function useExport(): UseExportResult {
         throw new Error('Canvas is not ready for export');
       }
 
+      // Render each view from its camera preset and read it back right away
+      const { reportExportProgress } = useExportStore.getState();
+      const views: TechPackView[] = TECH_PACK_VIEWS.map((key, index) => {
+        signal?.throwIfAborted();
+        const preset = CAMERA_PRESETS[key];
+        camera.position.set(...preset.position);
+        camera.lookAt(...preset.target);
+        camera.updateMatrixWorld();
+        gl.render(scene, camera);
+        reportExportProgress((index + 1) / (TECH_PACK_VIEWS.length + 1));
+        return {
+          name: preset.name,
+          dataUrl: canvas.toDataURL('image/jpeg', 0.9),
+          width: canvas.width,
+          height: canvas.height,
+        };
+      });
+
       const filename = `shirt-design-${Date.now()}`;
 
-      await exportCanvasAsPDF(canvas, {
+      await exportTechPackPDF(views, {
         filename,
         title: 'Shirt Design',
         includeMetadata: true,
+        sink,
       });
 
       logger.info('PDF export completed', {
         context: 'useExport',
-        metadata: { filename },
+        metadata: { filename, views: TECH_PACK_VIEWS },
       });
     } catch (error) {
       logger.error('PDF export failed', {
@@ -117,28 +175,40 @@ export function useExport(): UseExportResult {
       });
       throw error;
     } finally {
+      // Put the camera back where the user left it
+      camera.position.copy(position);
+      camera.quaternion.copy(quaternion);
+      camera.updateMatrixWorld();
+      gl.render(scene, camera);
       isExportingRef.current = false;
     }
   }, [gl, scene, camera]);
 
   const exportAsModel = useCallback(
-    async (format: 'glb' | 'gltf') => {
-      if (isExportingRef.current) return;
+    async (format: ModelFormat, maxTextureSize: number | null = null, { signal, sink }: ExportRun = {}) => {
+      if (isExportingRef.current) {
+        throw new Error(EXPORT_RUNNING_MESSAGE);
+      }
 
       isExportingRef.current = true;
       try {
         const filename = `shirt-design-${Date.now()}`;
 
-        await exportSceneAsModel(scene, {
+        // Composites and prints must be applied before they are baked
+        await waitForSceneUpdates();
+        signal?.throwIfAborted();
+        await exportGarmentAsModel(scene, useConfiguratorStore.getState().componentMap, {
           format,
           filename,
           includeMaterials: true,
           includeTextures: true,
+          maxTextureSize: maxTextureSize ?? undefined,
+          sink,
         });
 
         logger.info('3D model export completed', {
           context: 'useExport',
-          metadata: { format, filename },
+          metadata: { format, filename, maxTextureSize },
         });
       } catch (error) {
         logger.error('3D model export failed', {
@@ -154,10 +224,208 @@ export function useExport(): UseExportResult {
     [scene]
   );
 
+  const exportColorways = useCallback(async ({ signal, sink }: ExportRun = {}) => {
+    if (isExportingRef.current) {
+      throw new Error(EXPORT_RUNNING_MESSAGE);
+    }
+
+    isExportingRef.current = true;
+    const { variants, activeVariantId } = useConfiguratorStore.getState();
+    const colorways = [{ id: null, name: 'Base' }, ...variants];
+    try {
+      const renders: ColorwayRender[] = [];
+      const { reportExportProgress } = useExportStore.getState();
+      for (const [index, colorway] of colorways.entries()) {
+        // Switch the viewer only; this is not an edit, so it bypasses the history
+        useConfiguratorStore.setState({ activeVariantId: colorway.id });
+
+        // Let React apply the switch, then wait for the materials and prints it started
+        await new Promise((resolve) => requestAnimationFrame(resolve));
+        await new Promise((resolve) => requestAnimationFrame(resolve));
+        await waitForSceneUpdates();
+        signal?.throwIfAborted();
+
+        gl.render(scene, camera);
+        renders.push({ name: colorway.name, image: await captureCanvasImage(gl.domElement) });
+        reportExportProgress((index + 1) / colorways.length);
+      }
+
+      await exportColorwayArchive(renders, undefined, sink);
+
+      logger.info('Colorway export completed', {
+        context: 'useExport',
+        metadata: { colorways: colorways.length },
+      });
+    } catch (error) {
+      logger.error('Colorway export failed', {
+        context: 'useExport',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      throw error;
+    } finally {
+      useConfiguratorStore.setState({ activeVariantId });
+      isExportingRef.current = false;
+    }
+  }, [gl, scene, camera]);
+
+  const exportRoster = useCallback(async ({ signal, sink }: ExportRun = {}) => {
+    if (isExportingRef.current) {
+      throw new Error(EXPORT_RUNNING_MESSAGE);
+    }
+
+    const { columns, rows, previewRowId } = useRosterStore.getState();
+    const state = useConfiguratorStore.getState();
+    const bindings = getRosterBindings(resolveColorway(state, state.activeVariantId).printMap);
+    if (rows.length === 0) {
+      throw new Error('The roster has no rows');
+    }
+    if (bindings.length === 0) {
+      throw new Error('No text print is bound to a roster column');
+    }
+
+    isExportingRef.current = true;
+    try {
+      const renders: RosterRender[] = [];
+      const { reportExportProgress } = useExportStore.getState();
+      for (const [index, row] of rows.entries()) {
+        // Personalize the viewer only; rows are never written into the design
+        useRosterStore.setState({ previewRowId: row.id });
+
+        await new Promise((resolve) => requestAnimationFrame(resolve));
+        await new Promise((resolve) => requestAnimationFrame(resolve));
+        await waitForSceneUpdates();
+        signal?.throwIfAborted();
+
+        gl.render(scene, camera);
+        renders.push({
+          label: getRosterRowLabel(row, columns, index),
+          values: row.values,
+          personalization: bindings.map((binding) => {
+            const value = row.values[binding.field];
+            return {
+              component: binding.component,
+              field: binding.field,
+              text: value === undefined ? binding.placeholder : value.trim() || null,
+            };
+          }),
+          image: await captureCanvasImage(gl.domElement),
+        });
+        reportExportProgress((index + 1) / rows.length);
+      }
+
+      await exportRosterArchive(renders, generateDesignMetadata('roster'), undefined, sink);
+
+      logger.info('Roster export completed', {
+        context: 'useExport',
+        metadata: { rows: rows.length, bindings: bindings.length },
+      });
+    } catch (error) {
+      logger.error('Roster export failed', {
+        context: 'useExport',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      throw error;
+    } finally {
+      useRosterStore.setState({ previewRowId });
+      isExportingRef.current = false;
+    }
+  }, [gl, scene, camera]);
+
+  const exportTurntable = useCallback(
+    async (options: TurntableOptions, { signal, sink }: ExportRun = {}) => {
+      if (isExportingRef.current) {
+        throw new Error(EXPORT_RUNNING_MESSAGE);
+      }
+
+      isExportingRef.current = true;
+      try {
+        await waitForSceneUpdates();
+        signal?.throwIfAborted();
+        await exportTurntableAnimation(gl, scene, camera, options, undefined, sink, signal);
+
+        logger.info('Turntable export completed', {
+          context: 'useExport',
+          metadata: { format: options.format, frames: options.frames },
+        });
+      } catch (error) {
+        logger.error('Turntable export failed', {
+          context: 'useExport',
+          error: error instanceof Error ? error : new Error(String(error)),
+          metadata: { format: options.format },
+        });
+        throw error;
+      } finally {
+        isExportingRef.current = false;
+      }
+    },
+    [gl, scene, camera]
+  );
+
+  const exportContactSheet = useCallback(
+    async (options: ContactSheetOptions, { signal, sink }: ExportRun = {}) => {
+      if (isExportingRef.current) {
+        throw new Error(EXPORT_RUNNING_MESSAGE);
+      }
+
+      isExportingRef.current = true;
+      try {
+        await waitForSceneUpdates();
+        signal?.throwIfAborted();
+        await exportContactSheetImage(gl, scene, camera, options, undefined, sink);
+
+        logger.info('Contact sheet export completed', {
+          context: 'useExport',
+          metadata: { views: options.views, lightingPreset: options.lightingPreset },
+        });
+      } catch (error) {
+        logger.error('Contact sheet export failed', {
+          context: 'useExport',
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        throw error;
+      } finally {
+        isExportingRef.current = false;
+      }
+    },
+    [gl, scene, camera]
+  );
+
+  const exportTextures = useCallback(async ({ signal, sink }: ExportRun = {}) => {
+    if (isExportingRef.current) {
+      throw new Error(EXPORT_RUNNING_MESSAGE);
+    }
+
+    isExportingRef.current = true;
+    try {
+      await waitForSceneUpdates();
+      signal?.throwIfAborted();
+      const state = useConfiguratorStore.getState();
+      await exportTextureAtlas(scene, state.componentMap, resolveColorway(state, state.activeVariantId), undefined, undefined, sink);
+
+      logger.info('Texture export completed', {
+        context: 'useExport',
+        metadata: { meshes: Object.keys(state.componentMap).length },
+      });
+    } catch (error) {
+      logger.error('Texture export failed', {
+        context: 'useExport',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      throw error;
+    } finally {
+      isExportingRef.current = false;
+    }
+  }, [scene]);
+
   return {
     exportAsImage,
     exportAsPDF,
     exportAsModel,
+    exportColorways,
+    exportRoster,
+    exportTurntable,
+    exportContactSheet,
+    exportTextures,
     isExporting: isExportingRef.current,
   };
 }
@@ -0,0 +1,40 @@
+'use client';
+
+/**
+ * useHistoryTransaction Hook
+ * Makes one drag of a control (e.g. a slider) a single undo step, however long it pauses: opens a
+ * history transaction on pointer down and commits it when the pointer is released anywhere
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+
+export function useHistoryTransaction(label: string) {
+  const releaseRef = useRef<(() => void) | null>(null);
+
+  const commit = useCallback(() => {
+    releaseRef.current?.();
+    releaseRef.current = null;
+    useConfiguratorStore.getState().commitTransaction();
+  }, []);
+
+  const onPointerDown = useCallback(() => {
+    if (releaseRef.current) return;
+    useConfiguratorStore.getState().beginTransaction(label);
+    window.addEventListener('pointerup', commit);
+    window.addEventListener('pointercancel', commit);
+    releaseRef.current = () => {
+      window.removeEventListener('pointerup', commit);
+      window.removeEventListener('pointercancel', commit);
+    };
+  }, [label, commit]);
+
+  // Don't leave the transaction open if the control goes away mid-drag
+  useEffect(() => {
+    return () => {
+      if (releaseRef.current) commit();
+    };
+  }, [commit]);
+
+  return { onPointerDown };
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useOrderStore } from '@/stores/orderStore';
+import { useActiveColorway } from '@/hooks/useActiveColorway';
+import { usePrintSizes } from '@/hooks/usePrintSizes';
+import { calculateOrder } from '@/lib/pricing';
+import { OrderSummary } from '@/types/pricing';
+
+/**
+ * Hook returning the priced order for the current design (active colorway) and the order builder's quantities
+ * @returns Order summary; totalQuantity is 0 while no sizes are filled in
+ */
+export function useOrderSummary(): OrderSummary {
+  const patternMap = useConfiguratorStore((state) => state.patternMap);
+  const quantities = useOrderStore((state) => state.quantities);
+  const { materialMap, printMap } = useActiveColorway();
+  const printSizes = usePrintSizes(printMap);
+
+  return useMemo(
+    () => calculateOrder({ materialMap, patternMap, printMap }, quantities),
+    [materialMap, patternMap, printMap, quantities, printSizes]
+  );
+}
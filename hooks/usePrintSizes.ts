@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+import { isPrintSizeRecorded } from '@/lib/pricing';
+import { measurePrintInches } from '@/lib/export/artworkExport';
+import { logger } from '@/lib/logger';
+
+/**
+ * Hook measuring the drawn size of every print so prices use it (see recordPrintSize)
+ * @returns Counter that changes when new sizes were recorded; add it to the dependencies of prices
+ */
+export function usePrintSizes(printMap: Record<ComponentType, PrintApplication[]>): number {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const pending = Object.values(printMap)
+      .flatMap((prints) => prints || [])
+      .filter((print) => !isPrintSizeRecorded(print));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.allSettled(pending.map((print) => measurePrintInches(print))).then((results) => {
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          logger.warn('Could not measure print for pricing', {
+            context: 'usePrintSizes',
+            error: result.reason instanceof Error ? result.reason : new Error(String(result.reason)),
+            metadata: { printId: pending[index].id },
+          });
+        }
+      });
+      if (!cancelled) setVersion((value) => value + 1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [printMap]);
+
+  return version;
+}
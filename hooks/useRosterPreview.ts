@@ -0,0 +1,27 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useRosterStore } from '@/stores/rosterStore';
+import { applyRosterRow } from '@/lib/roster';
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+
+/**
+ * Hook applying the previewed roster row to a print map
+ * @param printMap - Print map to personalize (usually the active colorway's)
+ * @param enabled - Pass false to always return printMap unchanged
+ * @returns printMap with bound text prints replaced by the row's values, or printMap itself when no row is previewed
+ */
+export function useRosterPreview(
+  printMap: Record<ComponentType, PrintApplication[]>,
+  enabled: boolean = true
+): Record<ComponentType, PrintApplication[]> {
+  const previewRow = useRosterStore((state) =>
+    state.previewRowId ? state.rows.find((row) => row.id === state.previewRowId) ?? null : null
+  );
+
+  return useMemo(
+    () => (enabled && previewRow ? applyRosterRow(printMap, previewRow) : printMap),
+    [printMap, previewRow, enabled]
+  );
+}
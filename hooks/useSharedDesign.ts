@@ -0,0 +1,53 @@
+'use client';
+
+/**
+ * useSharedDesign Hook
+ * Loads a design shared through a link (#design=...) into the configurator on page load
+ * @returns Whether a shared design was loaded
+ */
+
+import { useEffect, useState } from 'react';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { decodeSharedDesign, getSharedDesignToken, clearSharedDesignToken } from '@/lib/designShare';
+import { toast } from '@/stores/toastStore';
+import { logger } from '@/lib/logger';
+
+export function useSharedDesign(): boolean {
+  const loadDesign = useConfiguratorStore((state) => state.loadDesign);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const token = getSharedDesignToken();
+    if (!token) return;
+
+    try {
+      const { design, omittedPrints } = decodeSharedDesign(token);
+      loadDesign(design);
+      setIsLoaded(true);
+
+      logger.info('Shared design loaded from URL', {
+        context: 'useSharedDesign',
+        metadata: { omittedPrints: omittedPrints.length },
+      });
+
+      if (omittedPrints.length > 0) {
+        toast.warning(
+          `Shared design loaded. ${omittedPrints.length} print${omittedPrints.length === 1 ? '' : 's'} used uploaded or embedded images and could not be included.`,
+          { duration: 8000 }
+        );
+      } else {
+        toast.success('Shared design loaded');
+      }
+    } catch (error) {
+      logger.error('Failed to load shared design', {
+        context: 'useSharedDesign',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      toast.error(`Could not open shared design: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearSharedDesignToken();
+    }
+  }, [loadDesign]);
+
+  return isLoaded;
+}
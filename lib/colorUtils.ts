@@ -16,11 +16,11 @@ export interface HSV {
 
 /**
  * Convert hex color to RGB
- * @param hex - Hex color string (#RRGGBB or RRGGBB)
+ * @param hex - Hex color string (#RRGGBB or RRGGBB, or the #RGB shorthand)
  * @returns RGB object
  */
 export function hexToRgb(hex: string): RGB {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(expandShorthandHex(hex));
   if (!result) {
     return { r: 255, g: 255, b: 255 };
   }
@@ -168,12 +168,20 @@ export function isValidHex(hex: string): boolean {
 }
 
 /**
- * Normalize hex color (ensure # prefix and uppercase)
+ * Expand a 3-digit hex color to 6 digits (e.g. "#f0a" -> "#ff00aa"); other strings are returned as is
+ */
+function expandShorthandHex(hex: string): string {
+  const result = /^(#?)([a-f\d])([a-f\d])([a-f\d])$/i.exec(hex);
+  return result ? `${result[1]}${result[2].repeat(2)}${result[3].repeat(2)}${result[4].repeat(2)}` : hex;
+}
+
+/**
+ * Normalize hex color (ensure # prefix, 6 digits and uppercase)
  * @param hex - Hex color string
  * @returns Normalized hex color string
  */
 export function normalizeHex(hex: string): string {
-  const cleaned = hex.replace('#', '').toUpperCase();
+  const cleaned = expandShorthandHex(hex).replace('#', '').toUpperCase();
   if (cleaned.length === 6 && /^[0-9A-F]{6}$/.test(cleaned)) {
     return `#${cleaned}`;
   }
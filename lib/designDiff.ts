@@ -0,0 +1,183 @@
+import { ComponentType } from '@/types/models';
+import { PatternApplication } from '@/types/patterns';
+import { PrintApplication } from '@/types/prints';
+import type { DesignState } from './designState';
+import type { DesignVariant } from './designVariants';
+
+/**
+ * Design Diff
+ * Structured, per-component comparison of two design states
+ */
+
+export interface ValueChange<T> {
+  before: T | null;
+  after: T | null;
+}
+
+export interface PrintChange {
+  before: PrintApplication;
+  after: PrintApplication;
+  fields: (keyof PrintApplication)[]; // Properties that differ
+}
+
+export interface PrintDiff {
+  added: PrintApplication[];
+  removed: PrintApplication[];
+  changed: PrintChange[];
+}
+
+export interface ComponentDiff {
+  component: ComponentType;
+  material?: ValueChange<string>;
+  color?: ValueChange<string>;
+  pattern?: ValueChange<PatternApplication>;
+  prints?: PrintDiff;
+}
+
+export interface VariantDiff {
+  added: DesignVariant[];
+  removed: DesignVariant[];
+  changed: DesignVariant[]; // Renamed or overrides edited (as in the second design)
+}
+
+export interface DesignDiff {
+  mode?: ValueChange<'blank' | 'branded'>;
+  components: ComponentDiff[]; // Only components with differences
+  variants?: VariantDiff;
+  activeVariant?: ValueChange<string>; // Variant IDs; null is the base colorway
+}
+
+function isSameValue(value1: unknown, value2: unknown): boolean {
+  // Missing and null entries mean the same thing (nothing applied)
+  return JSON.stringify(value1 ?? null) === JSON.stringify(value2 ?? null);
+}
+
+/**
+ * Compare one per-component map of two designs
+ * @returns Components whose entries differ
+ */
+export function diffComponentMaps<T>(
+  map1: Record<ComponentType, T | null>,
+  map2: Record<ComponentType, T | null>
+): Map<ComponentType, ValueChange<T>> {
+  const changes = new Map<ComponentType, ValueChange<T>>();
+  const components = new Set([...Object.keys(map1), ...Object.keys(map2)]) as Set<ComponentType>;
+  components.forEach((component) => {
+    if (!isSameValue(map1[component], map2[component])) {
+      changes.set(component, { before: map1[component] ?? null, after: map2[component] ?? null });
+    }
+  });
+  return changes;
+}
+
+/**
+ * Compare the prints of one component, matching them by ID
+ */
+export function diffPrints(prints1: PrintApplication[], prints2: PrintApplication[]): PrintDiff {
+  const before = new Map(prints1.map((print) => [print.id, print]));
+  const after = new Map(prints2.map((print) => [print.id, print]));
+
+  const changed: PrintChange[] = [];
+  prints2.forEach((print) => {
+    const previous = before.get(print.id);
+    if (!previous) return;
+    const keys = new Set([...Object.keys(previous), ...Object.keys(print)]) as Set<keyof PrintApplication>;
+    const fields = Array.from(keys).filter((key) => !isSameValue(previous[key], print[key]));
+    if (fields.length > 0) {
+      changed.push({ before: previous, after: print, fields });
+    }
+  });
+
+  return {
+    added: prints2.filter((print) => !before.has(print.id)),
+    removed: prints1.filter((print) => !after.has(print.id)),
+    changed,
+  };
+}
+
+/**
+ * Compare the colorway variants of two designs, matching them by ID
+ */
+export function diffVariants(variants1: DesignVariant[], variants2: DesignVariant[]): VariantDiff {
+  const before = new Map(variants1.map((variant) => [variant.id, variant]));
+  const after = new Map(variants2.map((variant) => [variant.id, variant]));
+
+  return {
+    added: variants2.filter((variant) => !before.has(variant.id)),
+    removed: variants1.filter((variant) => !after.has(variant.id)),
+    changed: variants2.filter(
+      (variant) => before.has(variant.id) && !isSameValue(before.get(variant.id), variant)
+    ),
+  };
+}
+
+/**
+ * Check whether a print diff holds any change
+ */
+export function hasPrintChanges(diff: PrintDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+/**
+ * Compare two designs
+ * @param state1 - Design to compare from ("before")
+ * @param state2 - Design to compare to ("after")
+ * @returns What differs, per component
+ */
+export function diffDesignStates(state1: DesignState, state2: DesignState): DesignDiff {
+  const byComponent = new Map<ComponentType, ComponentDiff>();
+  const entryFor = (component: ComponentType) => {
+    if (!byComponent.has(component)) {
+      byComponent.set(component, { component });
+    }
+    return byComponent.get(component)!;
+  };
+
+  diffComponentMaps(state1.materialMap, state2.materialMap).forEach((change, component) => {
+    entryFor(component).material = change;
+  });
+  diffComponentMaps(state1.colorMap, state2.colorMap).forEach((change, component) => {
+    entryFor(component).color = change;
+  });
+  diffComponentMaps(state1.patternMap, state2.patternMap).forEach((change, component) => {
+    entryFor(component).pattern = change;
+  });
+
+  const printComponents = new Set([
+    ...Object.keys(state1.printMap),
+    ...Object.keys(state2.printMap),
+  ]) as Set<ComponentType>;
+  printComponents.forEach((component) => {
+    const prints = diffPrints(state1.printMap[component] || [], state2.printMap[component] || []);
+    if (hasPrintChanges(prints)) {
+      entryFor(component).prints = prints;
+    }
+  });
+
+  // Keep the component order of the ComponentType enum
+  const order = Object.values(ComponentType) as string[];
+  const components = Array.from(byComponent.values()).sort(
+    (a, b) => order.indexOf(a.component) - order.indexOf(b.component)
+  );
+
+  const variants = diffVariants(state1.variants, state2.variants);
+  const hasVariantChanges =
+    variants.added.length > 0 || variants.removed.length > 0 || variants.changed.length > 0;
+
+  return {
+    mode: state1.mode !== state2.mode ? { before: state1.mode, after: state2.mode } : undefined,
+    components,
+    variants: hasVariantChanges ? variants : undefined,
+    activeVariant:
+      state1.activeVariantId !== state2.activeVariantId
+        ? { before: state1.activeVariantId, after: state2.activeVariantId }
+        : undefined,
+  };
+}
+
+/**
+ * Check whether a diff holds any change
+ */
+export function isDesignDiffEmpty(diff: DesignDiff): boolean {
+  return !diff.mode && diff.components.length === 0 && !diff.variants && !diff.activeVariant;
+}
@@ -0,0 +1,320 @@
+import { ComponentType, COMPONENT_LABELS } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+import { DesignState, DESIGN_DOCUMENT_VERSION } from './designState';
+
+/**
+ * Design History
+ * Labeled undo/redo entries with coalescing of continuous edits, kept as a tree:
+ * editing after an undo starts a new branch instead of discarding the steps that were undone.
+ * Entries reference the store's maps instead of copying them: every store update replaces only
+ * the maps (and print arrays) it touches, so consecutive entries share everything else.
+ */
+
+export const MAX_HISTORY_STEPS = 100;
+
+/**
+ * Edits with the same coalesce key arriving within this window merge into one step
+ */
+export const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  id: string;
+  parentId: string | null; // Step this one was made from (null for the root)
+  activeChildId: string | null; // Child that redo follows (the most recently made or visited)
+  label: string; // e.g. "Change left sleeve color"
+  timestamp: number; // Time of the last edit recorded in this step
+  design: DesignState;
+  coalesceKey?: string; // Edits sharing this key merge while they keep arriving
+}
+
+/**
+ * A step as listed in the history timeline
+ */
+export interface HistoryTimelineRow {
+  entry: HistoryEntry;
+  depth: number; // Branch nesting level (0 for the main line)
+  isCurrent: boolean;
+  isUndone: boolean; // Not on the path to the current step (redo steps and abandoned branches)
+}
+
+/**
+ * A labeled change to the design
+ */
+export interface HistoryCommand<T> {
+  label: string;
+  coalesceKey?: string;
+  apply: (state: T) => Partial<T>;
+}
+
+/**
+ * Create a history snapshot that shares the given maps (no copying)
+ */
+export function createHistorySnapshot(state: {
+  currentMode: 'blank' | 'branded';
+  componentMap: DesignState['componentMap'];
+  materialMap: DesignState['materialMap'];
+  colorMap: DesignState['colorMap'];
+  patternMap: DesignState['patternMap'];
+  printMap: DesignState['printMap'];
+  variants: DesignState['variants'];
+  activeVariantId: string | null;
+  selectedComponent: ComponentType | null;
+}): DesignState {
+  return {
+    version: DESIGN_DOCUMENT_VERSION,
+    mode: state.currentMode,
+    componentMap: state.componentMap,
+    materialMap: state.materialMap,
+    colorMap: state.colorMap,
+    patternMap: state.patternMap,
+    printMap: state.printMap,
+    variants: state.variants,
+    activeVariantId: state.activeVariantId,
+    selectedComponent: state.selectedComponent,
+    timestamp: Date.now(),
+  };
+}
+
+function areMapsShallowEqual<T>(map1: Record<string, T>, map2: Record<string, T>): boolean {
+  if (map1 === map2) return true;
+  const keys = new Set([...Object.keys(map1), ...Object.keys(map2)]);
+  for (const key of keys) {
+    // Missing and null entries mean the same thing (nothing applied)
+    if ((map1[key] ?? null) !== (map2[key] ?? null)) return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether two snapshots hold the same content by reference
+ * Cheap enough to run on every edit, unlike a deep comparison
+ */
+export function areHistorySnapshotsEqual(state1: DesignState, state2: DesignState): boolean {
+  return (
+    state1.mode === state2.mode &&
+    areMapsShallowEqual(state1.materialMap, state2.materialMap) &&
+    areMapsShallowEqual(state1.colorMap, state2.colorMap) &&
+    areMapsShallowEqual(state1.patternMap, state2.patternMap) &&
+    areMapsShallowEqual(state1.printMap, state2.printMap) &&
+    state1.variants === state2.variants &&
+    state1.activeVariantId === state2.activeVariantId
+  );
+}
+
+/**
+ * Create a history entry
+ */
+export function createHistoryEntry(
+  label: string,
+  design: DesignState,
+  coalesceKey?: string
+): HistoryEntry {
+  return {
+    id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    parentId: null,
+    activeChildId: null,
+    label,
+    timestamp: Date.now(),
+    design,
+    coalesceKey,
+  };
+}
+
+/**
+ * Find a history entry by ID
+ */
+export function getHistoryEntry(history: HistoryEntry[], id: string | null): HistoryEntry | null {
+  if (!id) return null;
+  return history.find((entry) => entry.id === id) || null;
+}
+
+/**
+ * IDs of an entry and all of its ancestors, starting from the entry
+ */
+function getHistoryPath(history: HistoryEntry[], id: string | null): string[] {
+  const path: string[] = [];
+  let entry = getHistoryEntry(history, id);
+  while (entry) {
+    path.push(entry.id);
+    entry = getHistoryEntry(history, entry.parentId);
+  }
+  return path;
+}
+
+/**
+ * Drop entries beyond MAX_HISTORY_STEPS
+ * Abandoned branches and redo steps go first, oldest first; once only the path to the current
+ * step is left, the oldest step is dropped and its child becomes the root
+ */
+function pruneHistory(history: HistoryEntry[], currentId: string): HistoryEntry[] {
+  let pruned = history;
+  while (pruned.length > MAX_HISTORY_STEPS) {
+    const keep = new Set(getHistoryPath(pruned, currentId));
+    const parentIds = new Set(pruned.map((entry) => entry.parentId));
+    const leaf = pruned.find((entry) => !keep.has(entry.id) && !parentIds.has(entry.id));
+
+    if (leaf) {
+      pruned = pruned
+        .filter((entry) => entry !== leaf)
+        .map((entry) =>
+          entry.activeChildId === leaf.id ? { ...entry, activeChildId: null } : entry
+        );
+    } else {
+      const root = pruned.find((entry) => entry.parentId === null);
+      if (!root) break;
+      pruned = pruned
+        .filter((entry) => entry !== root)
+        .map((entry) => (entry.parentId === root.id ? { ...entry, parentId: null } : entry));
+    }
+  }
+  return pruned;
+}
+
+/**
+ * Record a step after the current one, merging it into the current step when it continues the same edit
+ * @param history - All history entries
+ * @param currentId - ID of the current step
+ * @param entry - Step to record
+ * @returns New history and current step ID
+ */
+export function pushHistoryEntry(
+  history: HistoryEntry[],
+  currentId: string | null,
+  entry: HistoryEntry
+): { history: HistoryEntry[]; currentHistoryId: string } {
+  const current = getHistoryEntry(history, currentId);
+
+  if (!current) {
+    return { history: [{ ...entry, parentId: null }], currentHistoryId: entry.id };
+  }
+
+  const hasChildren = history.some((other) => other.parentId === current.id);
+  if (
+    !hasChildren &&
+    entry.coalesceKey !== undefined &&
+    current.coalesceKey === entry.coalesceKey &&
+    entry.timestamp - current.timestamp <= COALESCE_WINDOW_MS
+  ) {
+    const merged = { ...current, design: entry.design, timestamp: entry.timestamp };
+    return {
+      history: history.map((other) => (other === current ? merged : other)),
+      currentHistoryId: current.id,
+    };
+  }
+
+  // Branch off the current step; any undone steps stay reachable on their own branch
+  const child: HistoryEntry = { ...entry, parentId: current.id, activeChildId: null };
+  const next = [
+    ...history.map((other) => (other === current ? { ...current, activeChildId: child.id } : other)),
+    child,
+  ];
+  return { history: pruneHistory(next, child.id), currentHistoryId: child.id };
+}
+
+/**
+ * Make a step current, pointing redo along the path to it
+ * @returns New history, or null when the step doesn't exist
+ */
+export function selectHistoryEntry(history: HistoryEntry[], id: string): HistoryEntry[] | null {
+  if (!getHistoryEntry(history, id)) return null;
+
+  const path = getHistoryPath(history, id);
+  const childOnPath = new Map<string, string>();
+  for (let i = 1; i < path.length; i++) {
+    childOnPath.set(path[i], path[i - 1]);
+  }
+
+  return history.map((entry) => {
+    const childId = childOnPath.get(entry.id);
+    return childId && entry.activeChildId !== childId ? { ...entry, activeChildId: childId } : entry;
+  });
+}
+
+/**
+ * List history steps for display: oldest first, abandoned branches indented under the step they
+ * branched from, followed by the newer line of edits
+ */
+export function getHistoryTimeline(
+  history: HistoryEntry[],
+  currentId: string | null
+): HistoryTimelineRow[] {
+  const rows: HistoryTimelineRow[] = [];
+  const currentPath = new Set(getHistoryPath(history, currentId));
+  const childrenOf = (id: string | null) => history.filter((entry) => entry.parentId === id);
+
+  const visit = (entry: HistoryEntry, depth: number) => {
+    rows.push({
+      entry,
+      depth,
+      isCurrent: entry.id === currentId,
+      isUndone: !currentPath.has(entry.id),
+    });
+
+    const children = childrenOf(entry.id);
+    if (children.length === 0) return;
+
+    // The newest child continues this line; older children are abandoned branches
+    const mainChild = children[children.length - 1];
+    children.slice(0, -1).forEach((child) => visit(child, depth + 1));
+    visit(mainChild, depth);
+  };
+
+  childrenOf(null).forEach((root) => visit(root, 0));
+  return rows;
+}
+
+/**
+ * Component name as it reads inside a history label, e.g. "left sleeve"
+ */
+export function getComponentLabel(component: ComponentType | string): string {
+  return (COMPONENT_LABELS[component as ComponentType] || component).toLowerCase();
+}
+
+/**
+ * Print as it reads inside a history label, e.g. "print 'Logo'"
+ */
+export function getPrintLabel(print: PrintApplication): string {
+  if (print.textContent) {
+    const text = print.textContent.trim();
+    return `print '${text.length > 20 ? `${text.slice(0, 20)}…` : text}'`;
+  }
+  if (print.printId) {
+    return `print '${print.printId}'`;
+  }
+  return 'image print';
+}
+
+/**
+ * Describe a print update by the fields that actually changed
+ * @returns Verb for the label and a key so repeated edits of the same field coalesce,
+ * or null when the update changes nothing
+ */
+export function describePrintUpdate(
+  print: PrintApplication,
+  updates: Partial<PrintApplication>
+): { verb: string; field: string } | null {
+  const changed = (Object.keys(updates) as (keyof PrintApplication)[]).filter(
+    (key) => JSON.stringify(updates[key]) !== JSON.stringify(print[key])
+  );
+  if (changed.length === 0) return null;
+
+  if (changed.length === 1) {
+    switch (changed[0]) {
+      case 'position':
+        return { verb: 'Move', field: 'position' };
+      case 'scale':
+        return { verb: 'Scale', field: 'scale' };
+      case 'rotation':
+        return { verb: 'Rotate', field: 'rotation' };
+      case 'opacity':
+        return { verb: 'Change opacity of', field: 'opacity' };
+      case 'blendMode':
+        return { verb: 'Change blend mode of', field: 'blendMode' };
+      case 'textContent':
+      case 'textStyle':
+        return { verb: 'Edit text of', field: 'text' };
+    }
+  }
+
+  return { verb: 'Edit', field: changed.sort().join(',') };
+}
@@ -0,0 +1,225 @@
+import { SavedDesign, SavedDesignSummary } from '@/types/designs';
+import { DesignState, serializeDesignState, deserializeDesignState, inlineDesignImages } from './designState';
+import { DESIGNS_STORE, promisifyRequest, withStore } from './indexedDb';
+import { logger } from './logger';
+
+/**
+ * Design Library Storage
+ * Handles saving and loading full designs from IndexedDB
+ * (print images are inlined as data URLs, which would exceed the localStorage quota)
+ */
+class DesignLibraryStorage {
+  private generateId(): string {
+    return `design_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private toSummary({ document: _document, ...summary }: SavedDesign): SavedDesignSummary {
+    return summary;
+  }
+
+  /**
+   * Get all saved designs (without documents), most recently updated first
+   */
+  async getAll(): Promise<SavedDesignSummary[]> {
+    try {
+      const entries = await withStore(DESIGNS_STORE, 'readonly', (store) =>
+        promisifyRequest(store.getAll() as IDBRequest<SavedDesign[]>)
+      );
+      return entries
+        .map((entry) => this.toSummary(entry))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      logger.error('Failed to load design library', {
+        context: 'designLibraryStorage',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get a saved design entry by ID
+   */
+  async getById(id: string): Promise<SavedDesign | null> {
+    const entry = await withStore(DESIGNS_STORE, 'readonly', (store) =>
+      promisifyRequest(store.get(id) as IDBRequest<SavedDesign | undefined>)
+    );
+    return entry || null;
+  }
+
+  /**
+   * Load, migrate and validate the design state of a saved entry
+   * @throws DesignValidationError when the stored document is invalid
+   */
+  async loadDesign(id: string): Promise<DesignState | null> {
+    const entry = await this.getById(id);
+    if (!entry) {
+      logger.warn('Saved design not found', {
+        context: 'designLibraryStorage',
+        metadata: { id },
+      });
+      return null;
+    }
+    return deserializeDesignState(entry.document);
+  }
+
+  /**
+   * Save a design as a new library entry
+   * @returns The new entry's ID
+   */
+  async save(
+    design: DesignState,
+    metadata: { name: string; thumbnailUrl?: string }
+  ): Promise<string> {
+    try {
+      const now = Date.now();
+      const entry: SavedDesign = {
+        id: this.generateId(),
+        name: metadata.name,
+        createdAt: now,
+        updatedAt: now,
+        document: serializeDesignState(await inlineDesignImages(design)),
+        thumbnailUrl: metadata.thumbnailUrl,
+      };
+
+      await withStore(DESIGNS_STORE, 'readwrite', (store) => promisifyRequest(store.add(entry)));
+
+      logger.info('Design saved to library', {
+        context: 'designLibraryStorage',
+        metadata: { id: entry.id, name: entry.name },
+      });
+
+      return entry.id;
+    } catch (error) {
+      logger.error('Failed to save design to library', {
+        context: 'designLibraryStorage',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing entry's name, design or thumbnail
+   */
+  async update(
+    id: string,
+    updates: { name?: string; design?: DesignState; thumbnailUrl?: string }
+  ): Promise<boolean> {
+    try {
+      const document = updates.design
+        ? serializeDesignState(await inlineDesignImages(updates.design))
+        : undefined;
+
+      const updated = await withStore(DESIGNS_STORE, 'readwrite', async (store) => {
+        const entry = await promisifyRequest(store.get(id) as IDBRequest<SavedDesign | undefined>);
+        if (!entry) return false;
+
+        await promisifyRequest(
+          store.put({
+            ...entry,
+            name: updates.name ?? entry.name,
+            document: document ?? entry.document,
+            thumbnailUrl: updates.thumbnailUrl ?? entry.thumbnailUrl,
+            updatedAt: Date.now(),
+          })
+        );
+        return true;
+      });
+
+      if (!updated) {
+        logger.warn('Saved design not found for update', {
+          context: 'designLibraryStorage',
+          metadata: { id },
+        });
+        return false;
+      }
+
+      logger.info('Saved design updated', {
+        context: 'designLibraryStorage',
+        metadata: { id, fields: Object.keys(updates) },
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to update saved design', {
+        context: 'designLibraryStorage',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Rename a saved design
+   */
+  rename(id: string, name: string): Promise<boolean> {
+    return this.update(id, { name });
+  }
+
+  /**
+   * Duplicate a saved design
+   * @returns The copy's ID, or null if the source was not found
+   */
+  async duplicate(id: string, name?: string): Promise<string | null> {
+    try {
+      const source = await this.getById(id);
+      if (!source) {
+        logger.warn('Saved design not found for duplication', {
+          context: 'designLibraryStorage',
+          metadata: { id },
+        });
+        return null;
+      }
+
+      const now = Date.now();
+      const copy: SavedDesign = {
+        ...source,
+        id: this.generateId(),
+        name: name ?? `${source.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await withStore(DESIGNS_STORE, 'readwrite', (store) => promisifyRequest(store.add(copy)));
+
+      logger.info('Saved design duplicated', {
+        context: 'designLibraryStorage',
+        metadata: { sourceId: id, id: copy.id },
+      });
+
+      return copy.id;
+    } catch (error) {
+      logger.error('Failed to duplicate saved design', {
+        context: 'designLibraryStorage',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Delete a saved design
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      await withStore(DESIGNS_STORE, 'readwrite', (store) => promisifyRequest(store.delete(id)));
+
+      logger.info('Saved design deleted', {
+        context: 'designLibraryStorage',
+        metadata: { id },
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to delete saved design', {
+        context: 'designLibraryStorage',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+export const designLibraryStorage = new DesignLibraryStorage();
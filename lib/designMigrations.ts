@@ -0,0 +1,150 @@
+import { BlendMode } from '@/types/prints';
+import { PrintZoneLibrary, getZoneById, isPositionInZone } from '@/types/zones';
+import zonesData from '@/data/zones.json';
+
+/**
+ * Design Document Migrations
+ * Upgrades saved design documents from older schema versions to the current one
+ *
+ * Version history:
+ * - 0: Unversioned. `printMap` held a single print (or null) per component; selectedComponent and timestamp were optional
+ * - 1: `printMap` holds an array of prints; prints may lack zoneId, blendMode, zIndex and component
+ * - 2: Every print carries blendMode, zIndex and component, and zoneId where it can be resolved
+ * - 3: Current. Colorway variants (`variants`, `activeVariantId`)
+ */
+
+export const DESIGN_DOCUMENT_VERSION = 3;
+
+/**
+ * Raw, not yet validated design document
+ */
+export type RawDesignDocument = Record<string, any>;
+
+interface DesignMigration {
+  from: number;
+  description: string;
+  migrate: (doc: RawDesignDocument) => RawDesignDocument;
+}
+
+/**
+ * Legacy print zones mapped to the zone IDs in zones.json
+ */
+const LEGACY_ZONE_IDS: Record<string, string> = {
+  front: 'chest_front',
+  back: 'back_center',
+  leftSleeve: 'sleeve_left_upper',
+  rightSleeve: 'sleeve_right_upper',
+};
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve a zone ID for a print saved before zoneId existed.
+ * Only assigned when the legacy zone belongs to the print's component and the print sits inside it,
+ * so free-placed prints stay free.
+ */
+function inferZoneId(print: Record<string, any>, component: string): string | undefined {
+  const zoneId = LEGACY_ZONE_IDS[print.zone];
+  if (!zoneId) return undefined;
+
+  const zone = getZoneById((zonesData as PrintZoneLibrary).zones, zoneId);
+  if (!zone || zone.component !== component) return undefined;
+
+  const position = print.position;
+  if (!isRecord(position) || typeof position.x !== 'number' || typeof position.y !== 'number') {
+    return undefined;
+  }
+
+  return isPositionInZone({ u: position.x, v: position.y }, zone) ? zoneId : undefined;
+}
+
+const MIGRATIONS: DesignMigration[] = [
+  {
+    from: 0,
+    description: 'Convert single print per component to print arrays',
+    migrate: (doc) => {
+      const printMap: Record<string, unknown[]> = {};
+      if (isRecord(doc.printMap)) {
+        Object.entries(doc.printMap).forEach(([component, prints]) => {
+          if (Array.isArray(prints)) {
+            printMap[component] = prints;
+          } else if (prints) {
+            printMap[component] = [prints];
+          } else {
+            printMap[component] = [];
+          }
+        });
+      }
+      return {
+        ...doc,
+        printMap,
+        selectedComponent: doc.selectedComponent ?? null,
+        timestamp: doc.timestamp ?? 0,
+      };
+    },
+  },
+  {
+    from: 1,
+    description: 'Fill in print zoneId, blendMode, zIndex and component',
+    migrate: (doc) => {
+      if (!isRecord(doc.printMap)) return doc;
+
+      const printMap: Record<string, unknown> = {};
+      Object.entries(doc.printMap).forEach(([component, prints]) => {
+        if (!Array.isArray(prints)) {
+          printMap[component] = prints;
+          return;
+        }
+        printMap[component] = prints.map((print, index) => {
+          if (!isRecord(print)) return print;
+          return {
+            ...print,
+            zoneId: print.zoneId ?? inferZoneId(print, component),
+            blendMode: print.blendMode ?? BlendMode.NORMAL,
+            zIndex: print.zIndex ?? index,
+            component: print.component ?? component,
+          };
+        });
+      });
+      return { ...doc, printMap };
+    },
+  },
+  {
+    from: 2,
+    description: 'Add colorway variants',
+    migrate: (doc) => ({
+      ...doc,
+      variants: doc.variants ?? [],
+      activeVariantId: doc.activeVariantId ?? null,
+    }),
+  },
+];
+
+/**
+ * Get the schema version of a raw design document (unversioned documents are version 0)
+ */
+export function getDesignDocumentVersion(doc: RawDesignDocument): number {
+  return typeof doc.version === 'number' ? doc.version : 0;
+}
+
+/**
+ * Run every migration needed to bring a document up to DESIGN_DOCUMENT_VERSION.
+ * Documents from a newer version are returned untouched; validation reports them.
+ */
+export function migrateDesignDocument(doc: RawDesignDocument): RawDesignDocument {
+  let version = getDesignDocumentVersion(doc);
+  let migrated = doc;
+
+  while (version < DESIGN_DOCUMENT_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration available from design document version ${version}`);
+    }
+    migrated = migration.migrate(migrated);
+    version = migration.from + 1;
+  }
+
+  return { ...migrated, version };
+}
@@ -0,0 +1,130 @@
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+import { RecoverySnapshot } from '@/types/designs';
+import { DesignState, serializeDesignState, deserializeDesignState } from './designState';
+import { RECOVERY_STORE, promisifyRequest, withStore } from './indexedDb';
+import { logger } from './logger';
+
+const RECOVERY_SLOT_ID = 'current';
+
+/**
+ * Design Recovery Storage
+ * Keeps the in-progress design in a single IndexedDB slot so it survives crashes and lost WebGL contexts.
+ * Uploaded images are stored as blobs, since their object URLs die with the page.
+ */
+class DesignRecoveryStorage {
+  // Object URLs never change content, so each blob only has to be read once per session
+  private blobCache = new Map<string, Blob>();
+
+  private async collectImages(design: DesignState): Promise<Record<string, Blob>> {
+    const urls = new Set<string>();
+    Object.values(design.printMap).forEach((prints) => {
+      (prints || []).forEach((print) => {
+        if (print.customImageUrl?.startsWith('blob:')) {
+          urls.add(print.customImageUrl);
+        }
+      });
+    });
+
+    const images: Record<string, Blob> = {};
+    await Promise.all(
+      Array.from(urls).map(async (url) => {
+        let blob = this.blobCache.get(url);
+        if (!blob) {
+          blob = await (await fetch(url)).blob();
+          this.blobCache.set(url, blob);
+        }
+        images[url] = blob;
+      })
+    );
+    return images;
+  }
+
+  /**
+   * Autosave a design to the recovery slot, replacing the previous one
+   */
+  async save(design: DesignState): Promise<void> {
+    const snapshot: RecoverySnapshot = {
+      id: RECOVERY_SLOT_ID,
+      savedAt: Date.now(),
+      document: serializeDesignState(design),
+      images: await this.collectImages(design),
+    };
+
+    await withStore(RECOVERY_STORE, 'readwrite', (store) => promisifyRequest(store.put(snapshot)));
+
+    logger.debug('Design autosaved', {
+      context: 'designRecoveryStorage',
+      metadata: { images: Object.keys(snapshot.images).length },
+    });
+  }
+
+  /**
+   * Get the autosaved design, if any
+   */
+  async load(): Promise<RecoverySnapshot | null> {
+    try {
+      const snapshot = await withStore(RECOVERY_STORE, 'readonly', (store) =>
+        promisifyRequest(store.get(RECOVERY_SLOT_ID) as IDBRequest<RecoverySnapshot | undefined>)
+      );
+      return snapshot || null;
+    } catch (error) {
+      logger.error('Failed to read recovery slot', {
+        context: 'designRecoveryStorage',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Rebuild the autosaved design, giving its uploaded images fresh object URLs
+   * @throws DesignValidationError when the autosaved document is invalid
+   */
+  restore(snapshot: RecoverySnapshot): DesignState {
+    const design = deserializeDesignState(snapshot.document);
+    const urlMap = new Map<string, string>();
+
+    Object.entries(snapshot.images).forEach(([oldUrl, blob]) => {
+      const url = URL.createObjectURL(blob);
+      urlMap.set(oldUrl, url);
+      this.blobCache.set(url, blob);
+    });
+
+    const printMap = {} as Record<ComponentType, PrintApplication[]>;
+    (Object.entries(design.printMap) as [ComponentType, PrintApplication[]][]).forEach(
+      ([component, prints]) => {
+        printMap[component] = (prints || []).map((print) => {
+          const url = print.customImageUrl && urlMap.get(print.customImageUrl);
+          return url ? { ...print, customImageUrl: url } : print;
+        });
+      }
+    );
+
+    logger.info('Design restored from recovery slot', {
+      context: 'designRecoveryStorage',
+      metadata: { savedAt: snapshot.savedAt, images: urlMap.size },
+    });
+
+    return { ...design, printMap };
+  }
+
+  /**
+   * Empty the recovery slot
+   */
+  async clear(): Promise<void> {
+    try {
+      await withStore(RECOVERY_STORE, 'readwrite', (store) =>
+        promisifyRequest(store.delete(RECOVERY_SLOT_ID))
+      );
+    } catch (error) {
+      logger.error('Failed to clear recovery slot', {
+        context: 'designRecoveryStorage',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const designRecoveryStorage = new DesignRecoveryStorage();
@@ -0,0 +1,189 @@
+import { deflateSync, inflateSync, strToU8, strFromU8 } from 'fflate';
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+import { DesignState, DESIGN_DOCUMENT_VERSION, parseDesignDocument } from './designState';
+import { prunePrintColors } from './designVariants';
+
+/**
+ * Design Sharing
+ * Encodes a full design into a compact, URL-safe token (deflate + base64url) for shareable links
+ */
+
+const SHARE_HASH_PARAM = 'design';
+const MAX_SHARED_IMAGE_URL_LENGTH = 2048; // Longer image URLs (e.g. large remote URLs) stay out of links
+
+/**
+ * Links longer than this may be cut off by chat clients and browsers
+ */
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+/**
+ * A print left out of a shared link because its image only exists on the sender's machine, is
+ * embedded in the design as a data URL, or has a URL too long for a link
+ */
+export interface NonShareablePrint {
+  component: ComponentType;
+  printId: string;
+  reason: string;
+}
+
+interface SharedDesignPayload {
+  design: Omit<DesignState, 'componentMap'> & { componentMap?: DesignState['componentMap'] };
+  omittedPrints: NonShareablePrint[];
+}
+
+export interface EncodedDesign {
+  token: string;
+  nonShareablePrints: NonShareablePrint[];
+}
+
+export interface ShareUrl extends EncodedDesign {
+  url: string;
+  tooLong: boolean; // Longer than MAX_SHARE_URL_LENGTH
+}
+
+export interface DecodedDesign {
+  design: DesignState;
+  omittedPrints: NonShareablePrint[];
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): Uint8Array {
+  const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Drop null entries so unset components don't cost bytes
+ */
+function compactMap<T>(map: Record<ComponentType, T | null>): Record<ComponentType, T> {
+  return Object.fromEntries(
+    Object.entries(map).filter(([, value]) => value !== null && value !== undefined)
+  ) as Record<ComponentType, T>;
+}
+
+/**
+ * Why a print's image can't travel in a link, if it can't
+ */
+function getNonShareableReason(print: PrintApplication): string | null {
+  const url = print.customImageUrl;
+  if (!url) return null;
+  if (url.startsWith('blob:')) return 'Uploaded image is only available on this device';
+  if (url.startsWith('data:')) return 'Embedded images are not included in links';
+  if (url.length > MAX_SHARED_IMAGE_URL_LENGTH) return 'Image URL is too long for a link';
+  return null;
+}
+
+/**
+ * Encode a design for sharing
+ * Prints whose images are local object URLs or embedded data URLs cannot travel in a link; they are
+ * left out and reported
+ * @param state - Design state snapshot
+ * @returns URL-safe token and the prints that were left out
+ */
+export function encodeDesignForSharing(state: DesignState): EncodedDesign {
+  const nonShareablePrints: NonShareablePrint[] = [];
+  const printMap = {} as Record<ComponentType, PrintApplication[]>;
+
+  (Object.entries(state.printMap) as [ComponentType, PrintApplication[]][]).forEach(
+    ([component, prints]) => {
+      const shareable = (prints || []).filter((print) => {
+        const reason = getNonShareableReason(print);
+        if (reason) {
+          nonShareablePrints.push({ component, printId: print.id, reason });
+          return false;
+        }
+        return true;
+      });
+      if (shareable.length > 0) {
+        printMap[component] = shareable;
+      }
+    }
+  );
+
+  // The component map comes from the loaded model, so the recipient rebuilds it
+  const { componentMap: _componentMap, ...design } = state;
+  const payload: SharedDesignPayload = {
+    design: {
+      ...design,
+      version: DESIGN_DOCUMENT_VERSION,
+      materialMap: compactMap(state.materialMap),
+      colorMap: compactMap(state.colorMap),
+      patternMap: compactMap(state.patternMap),
+      printMap,
+      variants: prunePrintColors(state.variants, printMap),
+      selectedComponent: null,
+    },
+    omittedPrints: nonShareablePrints,
+  };
+
+  const token = toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }));
+  return { token, nonShareablePrints };
+}
+
+/**
+ * Decode a shared design token
+ * @throws DesignValidationError when the shared design is invalid
+ * @throws Error when the token is corrupt
+ */
+export function decodeSharedDesign(token: string): DecodedDesign {
+  let payload: SharedDesignPayload;
+  try {
+    payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(token))));
+  } catch (error) {
+    throw new Error('This design link is damaged or incomplete');
+  }
+
+  const design = parseDesignDocument({ componentMap: {}, ...payload.design });
+  return {
+    design,
+    omittedPrints: Array.isArray(payload.omittedPrints) ? payload.omittedPrints : [],
+  };
+}
+
+/**
+ * Build a shareable link for a design
+ * @param state - Design state snapshot
+ * @param baseUrl - Page to link to (defaults to the current page)
+ */
+export function createShareUrl(
+  state: DesignState,
+  baseUrl: string = window.location.href
+): ShareUrl {
+  const encoded = encodeDesignForSharing(state);
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_HASH_PARAM}=${encoded.token}`;
+  const href = url.toString();
+  return { ...encoded, url: href, tooLong: href.length > MAX_SHARE_URL_LENGTH };
+}
+
+/**
+ * Read a shared design token from a URL's hash, if present
+ */
+export function getSharedDesignToken(url: string = window.location.href): string | null {
+  const hash = new URL(url).hash.replace(/^#/, '');
+  return new URLSearchParams(hash).get(SHARE_HASH_PARAM);
+}
+
+/**
+ * Remove the shared design token from the address bar without reloading
+ */
+export function clearSharedDesignToken(): void {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(window.history.state, '', url.toString());
+}
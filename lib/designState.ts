@@ -1,17 +1,29 @@
 import { ComponentType, ComponentMap } from '@/types/models';
 import { PatternApplication } from '@/types/patterns';
 import { PrintApplication } from '@/types/prints';
+import { DESIGN_DOCUMENT_VERSION, RawDesignDocument, migrateDesignDocument } from './designMigrations';
+import { DesignValidationError, validateDesignDocument } from './designValidation';
+import { toPersistentImageUrl } from './imageProcessor';
+import { diffDesignStates, isDesignDiffEmpty } from './designDiff';
+import { DesignVariant } from './designVariants';
+
+export { DESIGN_DOCUMENT_VERSION } from './designMigrations';
+export { DesignValidationError } from './designValidation';
+export type { DesignValidationIssue } from './designValidation';
 
 /**
  * Design state snapshot
  */
 export interface DesignState {
+  version: number; // Design document schema version (see designMigrations)
   mode: 'blank' | 'branded';
   componentMap: ComponentMap;
   materialMap: Record<ComponentType, string | null>;
   colorMap: Record<ComponentType, string | null>;
   patternMap: Record<ComponentType, PatternApplication | null>;
   printMap: Record<ComponentType, PrintApplication[]>; // Changed to array to match store
+  variants: DesignVariant[]; // Colorways layered on the maps above
+  activeVariantId: string | null; // null = base colorway
   selectedComponent: ComponentType | null;
   timestamp: number;
 }
@@ -23,37 +35,49 @@ export interface DesignState {
  */
 export function serializeDesignState(state: DesignState): string {
   try {
-    return JSON.stringify(state);
+    return JSON.stringify({ ...state, version: DESIGN_DOCUMENT_VERSION });
   } catch (error) {
     console.error('Error serializing design state:', error);
     throw new Error('Failed to serialize design state');
   }
 }
 
+/**
+ * Migrate and validate a parsed design document
+ * @param value - Parsed JSON value of any supported document version
+ * @returns Design state in the current version
+ * @throws DesignValidationError listing every problem found
+ */
+export function parseDesignDocument(value: unknown): DesignState {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new DesignValidationError([{ path: '$', message: 'Expected a design document object' }]);
+  }
+
+  const migrated = migrateDesignDocument(value as RawDesignDocument);
+  const issues = validateDesignDocument(migrated);
+  if (issues.length > 0) {
+    throw new DesignValidationError(issues);
+  }
+
+  return migrated as DesignState;
+}
+
 /**
  * Deserialize JSON string to design state
  * @param json - JSON string
  * @returns Design state object
+ * @throws DesignValidationError when the JSON is malformed or the document is invalid
  */
-export function deserializeDesignState(json: string): DesignState | null {
+export function deserializeDesignState(json: string): DesignState {
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(json);
-    // Validate structure
-    if (
-      typeof parsed.mode === 'string' &&
-      typeof parsed.componentMap === 'object' &&
-      typeof parsed.materialMap === 'object' &&
-      typeof parsed.colorMap === 'object' &&
-      typeof parsed.patternMap === 'object' &&
-      typeof parsed.printMap === 'object'
-    ) {
-      return parsed as DesignState;
-    }
-    return null;
+    parsed = JSON.parse(json);
   } catch (error) {
-    console.error('Error deserializing design state:', error);
-    return null;
+    throw new DesignValidationError([
+      { path: '$', message: `Malformed JSON: ${error instanceof Error ? error.message : String(error)}` },
+    ]);
   }
+  return parseDesignDocument(parsed);
 }
 
 /**
@@ -68,15 +92,20 @@ export function createDesignStateSnapshot(state: {
   colorMap: Record<ComponentType, string | null>;
   patternMap: Record<ComponentType, PatternApplication | null>;
   printMap: Record<ComponentType, PrintApplication[]>; // Changed to array to match store
+  variants: DesignVariant[];
+  activeVariantId: string | null;
   selectedComponent: ComponentType | null;
 }): DesignState {
   return {
+    version: DESIGN_DOCUMENT_VERSION,
     mode: state.currentMode,
     componentMap: { ...state.componentMap },
     materialMap: { ...state.materialMap },
     colorMap: { ...state.colorMap },
     patternMap: { ...state.patternMap },
     printMap: { ...state.printMap },
+    variants: [...state.variants],
+    activeVariantId: state.activeVariantId,
     selectedComponent: state.selectedComponent,
     timestamp: Date.now(),
   };
@@ -90,13 +119,33 @@ export function createDesignStateSnapshot(state: {
  */
 export function areDesignStatesEqual(state1: DesignState, state2: DesignState): boolean {
   return (
-    state1.mode === state2.mode &&
+    isDesignDiffEmpty(diffDesignStates(state1, state2)) &&
     JSON.stringify(state1.componentMap) === JSON.stringify(state2.componentMap) &&
-    JSON.stringify(state1.materialMap) === JSON.stringify(state2.materialMap) &&
-    JSON.stringify(state1.colorMap) === JSON.stringify(state2.colorMap) &&
-    JSON.stringify(state1.patternMap) === JSON.stringify(state2.patternMap) &&
-    JSON.stringify(state1.printMap) === JSON.stringify(state2.printMap) &&
     state1.selectedComponent === state2.selectedComponent
   );
 }
 
+/**
+ * Inline print images that only exist as object URLs so the design can be stored and reloaded
+ * @param state - Design state snapshot
+ * @returns Copy of the design with every blob: image replaced by a data URL
+ */
+export async function inlineDesignImages(state: DesignState): Promise<DesignState> {
+  const printMap = {} as Record<ComponentType, PrintApplication[]>;
+
+  await Promise.all(
+    (Object.entries(state.printMap) as [ComponentType, PrintApplication[]][]).map(
+      async ([component, prints]) => {
+        printMap[component] = await Promise.all(
+          (prints || []).map(async (print) =>
+            print.customImageUrl
+              ? { ...print, customImageUrl: await toPersistentImageUrl(print.customImageUrl) }
+              : print
+          )
+        );
+      }
+    )
+  );
+
+  return { ...state, printMap };
+}
@@ -0,0 +1,114 @@
+import { ComponentType, COMPONENT_MIRRORS } from '@/types/models';
+import { PatternApplication } from '@/types/patterns';
+import { PrintApplication, PrintZone } from '@/types/prints';
+import { PrintZoneLibrary, getZoneById, getZonesForComponent } from '@/types/zones';
+import zonesData from '@/data/zones.json';
+
+/**
+ * Design Symmetry
+ * Mirrors edits between paired left/right components. Materials and colors are copied as-is;
+ * patterns and prints are flipped horizontally.
+ */
+
+const zones = (zonesData as PrintZoneLibrary).zones;
+
+const MIRRORED_PRINT_ZONES: Partial<Record<PrintZone, PrintZone>> = {
+  leftSleeve: 'rightSleeve',
+  rightSleeve: 'leftSleeve',
+};
+
+/**
+ * Get the opposite component of a left/right pair
+ * @returns The counterpart, or null for unpaired components (body, collar...)
+ */
+export function getMirroredComponent(component: ComponentType): ComponentType | null {
+  return COMPONENT_MIRRORS[component] ?? null;
+}
+
+/**
+ * Components an edit applies to
+ * @param symmetry - Whether symmetry mode is on
+ * @returns The component, plus its counterpart when symmetry is on and it has one
+ */
+export function getSymmetryTargets(component: ComponentType, symmetry: boolean): ComponentType[] {
+  const mirrored = symmetry ? getMirroredComponent(component) : null;
+  return mirrored ? [component, mirrored] : [component];
+}
+
+function mirrorRotation(rotation: number): number {
+  return (360 - rotation) % 360;
+}
+
+/**
+ * Flip a pattern application horizontally (procedural patterns add their own angle to the rotation)
+ */
+export function mirrorPattern(pattern: PatternApplication | null): PatternApplication | null {
+  if (!pattern) return null;
+  const mirrored = { ...pattern, rotation: mirrorRotation(pattern.rotation) };
+  if (pattern.params) {
+    mirrored.params = { ...pattern.params, angle: mirrorRotation(pattern.params.angle) };
+  }
+  return mirrored;
+}
+
+/**
+ * Find the zone on the opposite sleeve that matches a zone
+ * Zones are matched by name ("sleeve_left_upper" <-> "sleeve_right_upper"), falling back to the
+ * counterpart's first zone
+ */
+function getMirroredZoneId(zoneId: string | undefined, component: ComponentType): string | undefined {
+  if (!zoneId || !getZoneById(zones, zoneId)) return undefined;
+  const candidates = getZonesForComponent(zones, component);
+  const swapped = zoneId.replace(/left|right/g, (side) => (side === 'left' ? 'right' : 'left'));
+  return (candidates.find((zone) => zone.id === swapped) || candidates[0])?.id;
+}
+
+function generatePrintId(print: PrintApplication): string {
+  const prefix = print.textContent ? 'text' : 'print';
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Create the linked copy of a sleeve print for the opposite sleeve
+ * The UV position and rotation are flipped horizontally; both prints point at each other via mirrorId
+ * @returns The original (with mirrorId set) and its mirror
+ */
+export function createMirroredPrint(
+  component: ComponentType,
+  print: PrintApplication
+): { original: PrintApplication; mirror: PrintApplication; component: ComponentType } | null {
+  const mirroredComponent = getMirroredComponent(component);
+  const mirroredZone = MIRRORED_PRINT_ZONES[print.zone];
+  if (!mirroredComponent || !mirroredZone) return null;
+
+  const id = generatePrintId(print);
+  return {
+    original: { ...print, mirrorId: id },
+    mirror: {
+      ...print,
+      id,
+      component: mirroredComponent,
+      zone: mirroredZone,
+      zoneId: getMirroredZoneId(print.zoneId, mirroredComponent),
+      position: { x: 1 - print.position.x, y: print.position.y },
+      rotation: mirrorRotation(print.rotation),
+      mirrorId: print.id,
+    },
+    component: mirroredComponent,
+  };
+}
+
+/**
+ * Translate an update of a print into the update of its mirror
+ * Placement-specific fields (ID, component, zone, link) are never copied
+ */
+export function mirrorPrintUpdates(updates: Partial<PrintApplication>): Partial<PrintApplication> {
+  const { id: _id, component: _component, zone: _zone, zoneId: _zoneId, mirrorId: _mirrorId, ...mirrored } = updates;
+  if (mirrored.position) {
+    mirrored.position = { x: 1 - mirrored.position.x, y: mirrored.position.y };
+  }
+  if (mirrored.rotation !== undefined) {
+    mirrored.rotation = mirrorRotation(mirrored.rotation);
+  }
+  return mirrored;
+}
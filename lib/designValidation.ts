@@ -0,0 +1,345 @@
+import { ComponentType } from '@/types/models';
+import { MaterialLibrary } from '@/types/materials';
+import { PatternLibrary } from '@/types/patterns';
+import { BlendMode } from '@/types/prints';
+import { PrintZoneLibrary } from '@/types/zones';
+import { DESIGN_DOCUMENT_VERSION } from './designMigrations';
+import materialsData from '@/data/materials.json';
+import patternsData from '@/data/patterns.json';
+import zonesData from '@/data/zones.json';
+
+/**
+ * Design Document Validation
+ * Checks a migrated design document against the current schema and the material, pattern and zone libraries
+ */
+
+export interface DesignValidationIssue {
+  path: string; // Dotted path to the offending value, e.g. "printMap.body[0].zoneId"
+  message: string;
+}
+
+/**
+ * Thrown when a design document cannot be loaded
+ */
+export class DesignValidationError extends Error {
+  readonly issues: DesignValidationIssue[];
+
+  constructor(issues: DesignValidationIssue[]) {
+    const summary = issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+    super(`Invalid design document (${issues.length} issue${issues.length === 1 ? '' : 's'}): ${summary}`);
+    this.name = 'DesignValidationError';
+    this.issues = issues;
+  }
+}
+
+const COMPONENT_TYPES = new Set<string>(Object.values(ComponentType));
+const BLEND_MODES = new Set<string>(Object.values(BlendMode));
+const PRINT_ZONES = new Set(['front', 'back', 'leftSleeve', 'rightSleeve']);
+const TEXT_ALIGNMENTS = new Set(['left', 'center', 'right']);
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const materialIds = new Set((materialsData.materials as MaterialLibrary).map((m) => m.id));
+const patternIds = new Set((patternsData.patterns as PatternLibrary).map((p) => p.id));
+const paletteSizes = new Map(
+  (patternsData.patterns as PatternLibrary).map((p) => [p.id, p.properties.palette?.length ?? 0])
+);
+const zones = (zonesData as PrintZoneLibrary).zones;
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+class IssueCollector {
+  readonly issues: DesignValidationIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  number(path: string, value: unknown, min?: number, max?: number): void {
+    if (!isFiniteNumber(value)) {
+      this.add(path, `Expected a number, got ${JSON.stringify(value)}`);
+    } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      this.add(path, `Expected a value between ${min ?? '-∞'} and ${max ?? '∞'}, got ${value}`);
+    }
+  }
+
+  /**
+   * Validate that a value is an object keyed by component type.
+   * Returns the entries that are safe to inspect further.
+   */
+  componentRecord(path: string, value: unknown): [ComponentType, unknown][] {
+    if (!isRecord(value)) {
+      this.add(path, 'Expected an object keyed by component');
+      return [];
+    }
+    const entries: [ComponentType, unknown][] = [];
+    Object.entries(value).forEach(([key, entry]) => {
+      if (COMPONENT_TYPES.has(key)) {
+        entries.push([key as ComponentType, entry]);
+      } else {
+        this.add(`${path}.${key}`, `Unknown component "${key}"`);
+      }
+    });
+    return entries;
+  }
+}
+
+function validateMaterialMap(issues: IssueCollector, path: string, value: unknown): void {
+  issues.componentRecord(path, value).forEach(([component, materialId]) => {
+    if (materialId === null) return;
+    if (typeof materialId !== 'string') {
+      issues.add(`${path}.${component}`, 'Expected a material ID or null');
+    } else if (!materialIds.has(materialId)) {
+      issues.add(`${path}.${component}`, `Unknown material ID "${materialId}"`);
+    }
+  });
+}
+
+function validateColorMap(issues: IssueCollector, path: string, value: unknown): void {
+  issues.componentRecord(path, value).forEach(([component, color]) => {
+    if (color === null) return;
+    if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+      issues.add(`${path}.${component}`, `Invalid hex color ${JSON.stringify(color)}`);
+    }
+  });
+}
+
+function validateVariants(issues: IssueCollector, variants: unknown, activeVariantId: unknown): void {
+  if (!Array.isArray(variants)) {
+    issues.add('variants', 'Expected an array of colorway variants');
+    return;
+  }
+
+  const variantIds = new Set<string>();
+  variants.forEach((variant, index) => {
+    const path = `variants[${index}]`;
+    if (!isRecord(variant)) {
+      issues.add(path, 'Expected a colorway variant object');
+      return;
+    }
+    if (typeof variant.id !== 'string' || !variant.id) {
+      issues.add(`${path}.id`, 'Expected a non-empty string');
+    } else if (variantIds.has(variant.id)) {
+      issues.add(`${path}.id`, `Duplicate variant ID "${variant.id}"`);
+    } else {
+      variantIds.add(variant.id);
+    }
+    if (typeof variant.name !== 'string') {
+      issues.add(`${path}.name`, 'Expected a string');
+    }
+    validateMaterialMap(issues, `${path}.materialMap`, variant.materialMap);
+    validateColorMap(issues, `${path}.colorMap`, variant.colorMap);
+    if (!isRecord(variant.printColors)) {
+      issues.add(`${path}.printColors`, 'Expected an object mapping print IDs to colors');
+    } else {
+      Object.entries(variant.printColors).forEach(([printId, color]) => {
+        if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+          issues.add(`${path}.printColors.${printId}`, `Invalid hex color ${JSON.stringify(color)}`);
+        }
+      });
+    }
+  });
+
+  if (activeVariantId !== null && !variantIds.has(activeVariantId as string)) {
+    issues.add('activeVariantId', `Unknown variant "${activeVariantId}"`);
+  }
+}
+
+function validatePatternApplication(issues: IssueCollector, path: string, value: unknown): void {
+  if (value === null) return;
+  if (!isRecord(value)) {
+    issues.add(path, 'Expected a pattern application or null');
+    return;
+  }
+
+  if (typeof value.patternId !== 'string') {
+    issues.add(`${path}.patternId`, 'Expected a pattern ID');
+  } else if (!patternIds.has(value.patternId)) {
+    issues.add(`${path}.patternId`, `Unknown pattern ID "${value.patternId}"`);
+  }
+  issues.number(`${path}.intensity`, value.intensity, 0, 1);
+  issues.number(`${path}.scale`, value.scale, 0);
+  issues.number(`${path}.rotation`, value.rotation, 0, 360);
+
+  if (value.params !== undefined) {
+    if (!isRecord(value.params)) {
+      issues.add(`${path}.params`, 'Expected procedural pattern parameters');
+    } else {
+      issues.number(`${path}.params.spacing`, value.params.spacing, 0);
+      issues.number(`${path}.params.thickness`, value.params.thickness, 0, 1);
+      issues.number(`${path}.params.angle`, value.params.angle, 0, 360);
+    }
+  }
+  if (value.colors !== undefined) {
+    if (!Array.isArray(value.colors)) {
+      issues.add(`${path}.colors`, 'Expected an array of pattern colors');
+    } else {
+      const slots = paletteSizes.get(String(value.patternId));
+      if (slots !== undefined && value.colors.length > slots) {
+        issues.add(`${path}.colors`, `Pattern has ${slots} palette slot${slots === 1 ? '' : 's'}, got ${value.colors.length} colors`);
+      }
+      value.colors.forEach((color, index) => {
+        if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+          issues.add(`${path}.colors[${index}]`, `Invalid hex color ${JSON.stringify(color)}`);
+        }
+      });
+    }
+  }
+}
+
+function validatePrint(
+  issues: IssueCollector,
+  path: string,
+  value: unknown,
+  component: ComponentType,
+  seenIds: Map<string, string>
+): void {
+  if (!isRecord(value)) {
+    issues.add(path, 'Expected a print application');
+    return;
+  }
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    issues.add(`${path}.id`, 'Expected a non-empty print ID');
+  } else if (seenIds.has(value.id)) {
+    issues.add(`${path}.id`, `Duplicate print ID "${value.id}" (also used at ${seenIds.get(value.id)})`);
+  } else {
+    seenIds.set(value.id, path);
+  }
+
+  if (!value.customImageUrl && !value.textContent && !value.printId) {
+    issues.add(path, 'Print has no image, text or library print');
+  }
+  if (value.customImageUrl !== undefined && typeof value.customImageUrl !== 'string') {
+    issues.add(`${path}.customImageUrl`, 'Expected an image URL');
+  }
+  if (value.textContent !== undefined && typeof value.textContent !== 'string') {
+    issues.add(`${path}.textContent`, 'Expected text content');
+  }
+  if (value.textStyle !== undefined) {
+    if (!isRecord(value.textStyle)) {
+      issues.add(`${path}.textStyle`, 'Expected a text style object');
+    } else {
+      if (value.textStyle.fontSize !== undefined) {
+        issues.number(`${path}.textStyle.fontSize`, value.textStyle.fontSize, 1);
+      }
+      if (value.textStyle.color !== undefined && !HEX_COLOR.test(String(value.textStyle.color))) {
+        issues.add(`${path}.textStyle.color`, `Invalid hex color ${JSON.stringify(value.textStyle.color)}`);
+      }
+      if (value.textStyle.textAlign !== undefined && !TEXT_ALIGNMENTS.has(value.textStyle.textAlign)) {
+        issues.add(`${path}.textStyle.textAlign`, `Unknown text alignment "${value.textStyle.textAlign}"`);
+      }
+    }
+  }
+
+  if (!isRecord(value.position)) {
+    issues.add(`${path}.position`, 'Expected a position with x and y');
+  } else {
+    issues.number(`${path}.position.x`, value.position.x);
+    issues.number(`${path}.position.y`, value.position.y);
+  }
+  issues.number(`${path}.scale`, value.scale, 0);
+  issues.number(`${path}.rotation`, value.rotation);
+  issues.number(`${path}.opacity`, value.opacity, 0, 1);
+
+  if (!PRINT_ZONES.has(value.zone)) {
+    issues.add(`${path}.zone`, `Unknown print zone "${value.zone}"`);
+  }
+  if (value.zoneId !== undefined) {
+    const zone = zones.find((z) => z.id === value.zoneId);
+    if (!zone) {
+      issues.add(`${path}.zoneId`, `Unknown zone ID "${value.zoneId}"`);
+    } else if (zone.component !== component) {
+      issues.add(`${path}.zoneId`, `Zone "${zone.id}" belongs to ${zone.component}, not ${component}`);
+    }
+  }
+  if (!BLEND_MODES.has(value.blendMode)) {
+    issues.add(`${path}.blendMode`, `Unknown blend mode "${value.blendMode}"`);
+  }
+  if (value.component !== component) {
+    issues.add(`${path}.component`, `Expected "${component}", got ${JSON.stringify(value.component)}`);
+  }
+  if (value.zIndex !== undefined) issues.number(`${path}.zIndex`, value.zIndex);
+  if (value.mirrorId !== undefined && typeof value.mirrorId !== 'string') {
+    issues.add(`${path}.mirrorId`, 'Expected a print ID');
+  }
+  if (value.rosterField !== undefined) {
+    if (typeof value.rosterField !== 'string') {
+      issues.add(`${path}.rosterField`, 'Expected a roster column name');
+    } else if (!value.textContent) {
+      issues.add(`${path}.rosterField`, 'Only text prints can be bound to a roster column');
+    }
+  }
+  if (value.width !== undefined) issues.number(`${path}.width`, value.width, 0);
+  if (value.height !== undefined) issues.number(`${path}.height`, value.height, 0);
+}
+
+/**
+ * Validate a migrated design document
+ * @param doc - Parsed design document (already migrated to the current version)
+ * @returns List of issues; empty when the document is valid
+ */
+export function validateDesignDocument(doc: unknown): DesignValidationIssue[] {
+  const issues = new IssueCollector();
+
+  if (!isRecord(doc)) {
+    issues.add('$', 'Expected a design document object');
+    return issues.issues;
+  }
+
+  if (doc.version !== DESIGN_DOCUMENT_VERSION) {
+    issues.add(
+      'version',
+      typeof doc.version === 'number' && doc.version > DESIGN_DOCUMENT_VERSION
+        ? `Design was saved by a newer version (${doc.version}); this app supports up to ${DESIGN_DOCUMENT_VERSION}`
+        : `Expected version ${DESIGN_DOCUMENT_VERSION}, got ${JSON.stringify(doc.version)}`
+    );
+  }
+
+  if (doc.mode !== 'blank' && doc.mode !== 'branded') {
+    issues.add('mode', `Expected "blank" or "branded", got ${JSON.stringify(doc.mode)}`);
+  }
+
+  if (!isRecord(doc.componentMap)) {
+    issues.add('componentMap', 'Expected an object mapping mesh names to components');
+  } else {
+    Object.entries(doc.componentMap).forEach(([meshName, component]) => {
+      if (!COMPONENT_TYPES.has(component as string)) {
+        issues.add(`componentMap.${meshName}`, `Unknown component "${component}"`);
+      }
+    });
+  }
+
+  validateMaterialMap(issues, 'materialMap', doc.materialMap);
+  validateColorMap(issues, 'colorMap', doc.colorMap);
+
+  issues.componentRecord('patternMap', doc.patternMap).forEach(([component, pattern]) => {
+    validatePatternApplication(issues, `patternMap.${component}`, pattern);
+  });
+
+  const seenPrintIds = new Map<string, string>();
+  issues.componentRecord('printMap', doc.printMap).forEach(([component, prints]) => {
+    if (!Array.isArray(prints)) {
+      issues.add(`printMap.${component}`, 'Expected an array of prints');
+      return;
+    }
+    prints.forEach((print, index) => {
+      validatePrint(issues, `printMap.${component}[${index}]`, print, component, seenPrintIds);
+    });
+  });
+
+  validateVariants(issues, doc.variants, doc.activeVariantId);
+
+  if (doc.selectedComponent !== null && !COMPONENT_TYPES.has(doc.selectedComponent)) {
+    issues.add('selectedComponent', `Unknown component "${doc.selectedComponent}"`);
+  }
+
+  issues.number('timestamp', doc.timestamp, 0);
+
+  return issues.issues;
+}
@@ -0,0 +1,128 @@
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+
+/**
+ * Colorway Variants
+ * Named sets of material and color overrides layered on top of one design. Geometry, patterns and
+ * print placement are shared; a variant only changes what it overrides.
+ */
+
+export interface DesignVariant {
+  id: string;
+  name: string;
+  materialMap: Partial<Record<ComponentType, string | null>>; // Overrides of the base materialMap
+  colorMap: Partial<Record<ComponentType, string | null>>; // Overrides of the base colorMap
+  printColors: Record<string, string>; // Print ID -> text color override
+}
+
+/**
+ * The maps a colorway renders with
+ */
+export interface ResolvedColorway {
+  materialMap: Record<ComponentType, string | null>;
+  colorMap: Record<ComponentType, string | null>;
+  printMap: Record<ComponentType, PrintApplication[]>;
+}
+
+interface ColorwaySource extends ResolvedColorway {
+  variants: DesignVariant[];
+}
+
+function generateVariantId(): string {
+  return `variant_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Create a colorway variant
+ * @param name - Display name
+ * @param from - Variant whose overrides are copied (e.g. the active one)
+ */
+export function createDesignVariant(name: string, from?: DesignVariant | null): DesignVariant {
+  return {
+    id: generateVariantId(),
+    name,
+    materialMap: { ...from?.materialMap },
+    colorMap: { ...from?.colorMap },
+    printColors: { ...from?.printColors },
+  };
+}
+
+/**
+ * Find a variant by ID
+ */
+export function getDesignVariant(
+  variants: DesignVariant[],
+  variantId: string | null | undefined
+): DesignVariant | null {
+  if (!variantId) return null;
+  return variants.find((variant) => variant.id === variantId) || null;
+}
+
+/**
+ * Apply a variant's overrides to the base maps
+ * The base maps are returned as-is (same references) when no variant applies, so memoized
+ * consumers do not re-render for nothing
+ * @param source - Base maps and the design's variants
+ * @param variantId - Variant to apply; null for the base colorway
+ */
+export function resolveColorway(source: ColorwaySource, variantId: string | null): ResolvedColorway {
+  const variant = getDesignVariant(source.variants, variantId);
+  if (!variant) {
+    return { materialMap: source.materialMap, colorMap: source.colorMap, printMap: source.printMap };
+  }
+
+  let printMap = source.printMap;
+  if (Object.keys(variant.printColors).length > 0) {
+    printMap = {} as Record<ComponentType, PrintApplication[]>;
+    (Object.entries(source.printMap) as [ComponentType, PrintApplication[]][]).forEach(
+      ([component, prints]) => {
+        printMap[component] = (prints || []).map((print) => {
+          const color = variant.printColors[print.id];
+          return color && print.textStyle ? { ...print, textStyle: { ...print.textStyle, color } } : print;
+        });
+      }
+    );
+  }
+
+  return {
+    materialMap: { ...source.materialMap, ...variant.materialMap },
+    colorMap: { ...source.colorMap, ...variant.colorMap },
+    printMap,
+  };
+}
+
+/**
+ * Drop print color overrides whose print no longer exists
+ */
+export function prunePrintColors(
+  variants: DesignVariant[],
+  printMap: Record<ComponentType, PrintApplication[]>
+): DesignVariant[] {
+  const printIds = new Set(
+    Object.values(printMap).flatMap((prints) => (prints || []).map((print) => print.id))
+  );
+  let changed = false;
+  const pruned = variants.map((variant) => {
+    const stale = Object.keys(variant.printColors).filter((printId) => !printIds.has(printId));
+    if (stale.length === 0) return variant;
+    changed = true;
+    const printColors = { ...variant.printColors };
+    stale.forEach((printId) => delete printColors[printId]);
+    return { ...variant, printColors };
+  });
+  return changed ? pruned : variants;
+}
+
+/**
+ * Rewrite print color overrides after prints were given new IDs (e.g. on import)
+ * @param idMap - Old print ID -> new print ID
+ */
+export function remapPrintColors(variants: DesignVariant[], idMap: Map<string, string>): DesignVariant[] {
+  return variants.map((variant) => {
+    const printColors: Record<string, string> = {};
+    Object.entries(variant.printColors).forEach(([printId, color]) => {
+      printColors[idMap.get(printId) || printId] = color;
+    });
+    return { ...variant, printColors };
+  });
+}
@@ -0,0 +1,224 @@
+import { zipSync, Zippable } from 'fflate';
+import { logger } from '@/lib/logger';
+import { printTextureManager } from '@/lib/printTextureManager';
+import { PRICING_RULES, recordPrintSize } from '@/lib/pricing';
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+import { PrintZone, PrintZoneLibrary, getZoneById, getZonesForComponent, isPositionInZone } from '@/types/zones';
+import { setPngDpi } from './pngChunks';
+import { downloadBlob } from './download';
+import zonesData from '@/data/zones.json';
+
+/**
+ * Print Artwork Export
+ * Renders the flat, print-ready artwork of each print zone at its physical size and a target DPI:
+ * one transparent PNG per zone, optionally with crop marks
+ */
+
+export interface ArtworkExportOptions {
+  dpi?: number; // Default 300
+  cropMarks?: boolean; // Adds a margin with corner crop marks around the trim size
+  filename?: string;
+}
+
+/**
+ * Artwork to render for one zone
+ */
+export interface ZoneArtwork {
+  zone: PrintZone;
+  prints: PrintApplication[];
+  widthInches: number; // Trim size
+  heightInches: number;
+  widthPx: number; // Trim size at the target DPI
+  heightPx: number;
+}
+
+const zones = (zonesData as PrintZoneLibrary).zones;
+const CROP_MARGIN_INCHES = 0.25;
+const MAX_CANVAS_SIZE = 16384; // Browser canvas limit per side
+
+/**
+ * Physical size of a print as it is drawn on the texture and in the zone artwork
+ * The size is also recorded for pricing, so prices and tech pack sizes agree.
+ * @returns Width and height in inches
+ */
+export async function measurePrintInches(print: PrintApplication): Promise<{ width: number; height: number }> {
+  const { width, height } = await printTextureManager.measurePrint(print);
+  recordPrintSize(print, { width, height });
+  const { uvSizeInches } = PRICING_RULES.prints;
+  return { width: width * uvSizeInches, height: height * uvSizeInches };
+}
+
+/**
+ * Zone a print belongs to: its zoneId, or else the only zone of the component containing its center
+ * Zones can share UV bounds (the body's chest and back zones do), so a center inside several zones
+ * places the print nowhere rather than in the wrong artwork.
+ */
+function getPrintZone(print: PrintApplication, component: ComponentType): PrintZone | undefined {
+  if (print.zoneId) return getZoneById(zones, print.zoneId);
+  const candidates = getZonesForComponent(zones, component).filter((zone) =>
+    isPositionInZone({ u: print.position.x, v: print.position.y }, zone)
+  );
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Group the design's prints by zone and work out each zone's physical and pixel size
+ * @returns Zones with prints, in zones.json order, and the prints that can't be placed in one zone
+ */
+export function planZoneArtwork(
+  printMap: Record<ComponentType, PrintApplication[]>,
+  dpi: number = 300
+): { artworks: ZoneArtwork[]; unplaced: PrintApplication[] } {
+  const byZone = new Map<string, PrintApplication[]>();
+  const unplaced: PrintApplication[] = [];
+
+  (Object.keys(printMap) as ComponentType[]).forEach((component) => {
+    (printMap[component] || []).forEach((print) => {
+      const zone = getPrintZone(print, component);
+      if (!zone) {
+        unplaced.push(print);
+        return;
+      }
+      byZone.set(zone.id, [...(byZone.get(zone.id) || []), print]);
+    });
+  });
+
+  const { uvSizeInches } = PRICING_RULES.prints;
+  const artworks = zones
+    .filter((zone) => byZone.has(zone.id))
+    .map((zone) => {
+      const { minU, maxU, minV, maxV } = zone.uvBounds;
+      const widthInches = (maxU - minU) * uvSizeInches;
+      const heightInches = (maxV - minV) * uvSizeInches;
+      return {
+        zone,
+        prints: byZone.get(zone.id)!,
+        widthInches,
+        heightInches,
+        widthPx: Math.round(widthInches * dpi),
+        heightPx: Math.round(heightInches * dpi),
+      };
+    });
+
+  return { artworks, unplaced };
+}
+
+/**
+ * Draw corner crop marks in the margin, offset from the trim box
+ */
+function drawCropMarks(ctx: CanvasRenderingContext2D, margin: number, width: number, height: number, dpi: number): void {
+  const gap = margin * 0.3;
+  const length = margin * 0.6;
+  const left = margin;
+  const top = margin;
+  const right = margin + width;
+  const bottom = margin + height;
+
+  ctx.save();
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = Math.max(1, dpi / 150);
+  ctx.beginPath();
+  [
+    [left, top, -1, -1],
+    [right, top, 1, -1],
+    [left, bottom, -1, 1],
+    [right, bottom, 1, 1],
+  ].forEach(([x, y, dx, dy]) => {
+    // Horizontal mark on the trim line's row, vertical mark on its column
+    ctx.moveTo(x + dx * gap, y);
+    ctx.lineTo(x + dx * (gap + length), y);
+    ctx.moveTo(x, y + dy * gap);
+    ctx.lineTo(x, y + dy * (gap + length));
+  });
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Render one zone's artwork to a PNG with the DPI recorded in the file
+ */
+export async function renderZoneArtwork(artwork: ZoneArtwork, options: ArtworkExportOptions = {}): Promise<Blob> {
+  const { dpi = 300, cropMarks = false } = options;
+  const margin = cropMarks ? Math.round(CROP_MARGIN_INCHES * dpi) : 0;
+  const width = artwork.widthPx + margin * 2;
+  const height = artwork.heightPx + margin * 2;
+  if (width > MAX_CANVAS_SIZE || height > MAX_CANVAS_SIZE) {
+    throw new Error(`${artwork.zone.name} would be ${width}x${height} px at ${dpi} DPI; lower the DPI`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  // Map the zone's UV bounds onto the trim box and keep prints inside it
+  const uvSize = dpi * PRICING_RULES.prints.uvSizeInches;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(margin, margin, artwork.widthPx, artwork.heightPx);
+  ctx.clip();
+  ctx.translate(margin - artwork.zone.uvBounds.minU * uvSize, margin - artwork.zone.uvBounds.minV * uvSize);
+  await printTextureManager.drawPrints(ctx, artwork.prints, uvSize);
+  ctx.restore();
+
+  if (cropMarks) {
+    drawCropMarks(ctx, margin, artwork.widthPx, artwork.heightPx, dpi);
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error(`Failed to encode the ${artwork.zone.name} artwork`);
+  }
+  const png = setPngDpi(new Uint8Array(await blob.arrayBuffer()), dpi);
+  return new Blob([png as BlobPart], { type: 'image/png' });
+}
+
+/**
+ * Render every zone that has prints and download the PNGs as a ZIP archive
+ * @throws When the design has no prints inside a zone
+ */
+export async function exportPrintArtwork(
+  printMap: Record<ComponentType, PrintApplication[]>,
+  options: ArtworkExportOptions = {}
+): Promise<void> {
+  const { dpi = 300, cropMarks = false, filename = `shirt-artwork-${Date.now()}` } = options;
+  const { artworks, unplaced } = planZoneArtwork(printMap, dpi);
+  if (artworks.length === 0) {
+    throw new Error('No prints are placed in a print zone');
+  }
+
+  try {
+    const files: Zippable = {};
+    for (const artwork of artworks) {
+      const png = await renderZoneArtwork(artwork, { dpi, cropMarks });
+      const suffix = `${dpi}dpi${cropMarks ? '-marks' : ''}`;
+      files[`${artwork.zone.id}-${suffix}.png`] = [new Uint8Array(await png.arrayBuffer()), { level: 0 }]; // Already compressed
+    }
+
+    const archive = new Blob([zipSync(files) as BlobPart], { type: 'application/zip' });
+    downloadBlob(archive, `${filename}.zip`);
+
+    logger.info('Print artwork exported', {
+      context: 'artworkExport',
+      metadata: {
+        filename,
+        dpi,
+        cropMarks,
+        zones: artworks.map((artwork) => `${artwork.zone.id} ${artwork.widthPx}x${artwork.heightPx}`),
+        unplaced: unplaced.length,
+        size: archive.size,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to export print artwork', {
+      context: 'artworkExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+      metadata: { dpi, cropMarks },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import { zipSync, Zippable } from 'fflate';
+import { logger } from '@/lib/logger';
+import { ExportFormat, ExportQuality } from '@/stores/exportStore';
+import { downloadBlob, DownloadedFile } from './download';
+
+/**
+ * Batch Export
+ * Bundles the files produced by a queue of exports into one ZIP archive
+ */
+
+// Formats that are compressed already; storing them saves time without growing the archive
+const STORED_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webm', 'zip', 'shirt']);
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG',
+  jpg: 'JPG',
+  pdf: 'Tech pack (PDF)',
+  glb: 'GLB',
+  gltf: 'GLTF',
+  usdz: 'USDZ',
+  obj: 'OBJ/MTL (ZIP)',
+  colorways: 'All colorways (ZIP)',
+  roster: 'Team roster (ZIP)',
+  turntable: 'Turntable',
+  contactSheet: 'Contact sheet',
+  textures: 'Textures (ZIP)',
+};
+
+/**
+ * Display name of a queued export, e.g. "PNG (4K)"
+ */
+export function getExportLabel(format: ExportFormat, quality: ExportQuality = 'standard'): string {
+  return quality === 'high' ? `${FORMAT_LABELS[format]} (4K)` : FORMAT_LABELS[format];
+}
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Zip exported files, renaming duplicates
+ * @returns Archive blob
+ */
+export async function createBatchArchive(files: DownloadedFile[]): Promise<Blob> {
+  const entries: Zippable = {};
+
+  for (const file of files) {
+    const extension = getExtension(file.filename);
+    const base = extension ? file.filename.slice(0, -(extension.length + 1)) : file.filename;
+    let name = file.filename;
+    for (let i = 2; name in entries; i++) {
+      name = extension ? `${base}-${i}.${extension}` : `${base}-${i}`;
+    }
+
+    const data = new Uint8Array(await file.blob.arrayBuffer());
+    entries[name] = STORED_EXTENSIONS.has(extension) ? [data, { level: 0 }] : data;
+  }
+
+  return new Blob([zipSync(entries) as BlobPart], { type: 'application/zip' });
+}
+
+/**
+ * Zip exported files and download the archive
+ */
+export async function exportBatchArchive(
+  files: DownloadedFile[],
+  filename: string = `shirt-export-${Date.now()}`
+): Promise<void> {
+  try {
+    const archive = await createBatchArchive(files);
+    downloadBlob(archive, `${filename}.zip`);
+
+    logger.info('Batch export bundled', {
+      context: 'batchExport',
+      metadata: { filename, files: files.map((file) => file.filename), size: archive.size },
+    });
+  } catch (error) {
+    logger.error('Failed to bundle batch export', {
+      context: 'batchExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,83 @@
+import { zipSync, Zippable } from 'fflate';
+import { logger } from '@/lib/logger';
+import { downloadBlob, DownloadSink } from './download';
+
+/**
+ * Colorway Export
+ * Bundles one render per colorway variant into a ZIP archive
+ */
+
+export interface ColorwayRender {
+  name: string; // Colorway name, used for the file name
+  image: Blob; // PNG render
+}
+
+function toFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'colorway';
+}
+
+/**
+ * Read a canvas into a PNG blob
+ * Requires the WebGL canvas to be created with preserveDrawingBuffer
+ */
+export function captureCanvasImage(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob && blob.size > 0) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to capture the viewer canvas'));
+      }
+    }, 'image/png');
+  });
+}
+
+/**
+ * Zip the colorway renders, one PNG per colorway
+ * @returns Archive blob
+ */
+export async function createColorwayArchive(renders: ColorwayRender[]): Promise<Blob> {
+  const files: Zippable = {};
+  const usedNames = new Set<string>();
+
+  for (const render of renders) {
+    const base = toFileName(render.name);
+    let name = base;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${base}-${i}`;
+    }
+    usedNames.add(name);
+    files[`${name}.png`] = [new Uint8Array(await render.image.arrayBuffer()), { level: 0 }]; // Already compressed
+  }
+
+  return new Blob([zipSync(files) as BlobPart], { type: 'application/zip' });
+}
+
+/**
+ * Zip the colorway renders and download the archive
+ */
+export async function exportColorwayArchive(
+  renders: ColorwayRender[],
+  filename: string = `shirt-colorways-${Date.now()}`,
+  sink?: DownloadSink
+): Promise<void> {
+  try {
+    const archive = await createColorwayArchive(renders);
+    downloadBlob(archive, `${filename}.zip`, sink);
+
+    logger.info('Colorways exported', {
+      context: 'colorwayExport',
+      metadata: { filename, colorways: renders.map((render) => render.name), size: archive.size },
+    });
+  } catch (error) {
+    logger.error('Failed to export colorways', {
+      context: 'colorwayExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+import { logger } from '@/lib/logger';
+import { CAMERA_PRESETS } from '@/lib/cameraPresets';
+import { LIGHTING_PRESETS, swapLightingPreset } from '@/lib/lightingPresets';
+import { getAccessibleTextColor } from '@/lib/accessibility/colorContrast';
+import { generateDesignMetadata, formatMetadataAsText } from './designMetadata';
+import { createViewCamera, withRendererSize } from './renderCapture';
+import { captureCanvasImage } from './colorwayExport';
+import { downloadBlob, DownloadSink } from './download';
+
+/**
+ * Contact Sheet Export
+ * Renders several camera preset views into one labeled grid image, all under the same lighting,
+ * with an optional design metadata footer
+ */
+
+export interface ContactSheetOptions {
+  views: string[]; // CAMERA_PRESETS keys, in grid order
+  columns: number;
+  cellSize: number; // Pixel size of each (square) view
+  lightingPreset: string | null; // LIGHTING_PRESETS key; null keeps the viewer's lighting
+  background: string | null; // Hex color; null for a transparent sheet
+  includeMetadata: boolean; // Footer from formatMetadataAsText
+}
+
+export const DEFAULT_CONTACT_SHEET_OPTIONS: ContactSheetOptions = {
+  views: ['front', 'back', 'left', 'right'],
+  columns: 2,
+  cellSize: 600,
+  lightingPreset: 'studio',
+  background: '#ffffff',
+  includeMetadata: true,
+};
+
+const PADDING = 24;
+const LABEL_HEIGHT = 32;
+const FOOTER_LINE_HEIGHT = 18;
+const FOOTER_COLUMN_WIDTH = 360;
+
+/**
+ * Split the footer lines into columns that fit the sheet width
+ */
+function layoutFooter(lines: string[], width: number): string[][] {
+  const columnCount = Math.max(1, Math.floor((width - PADDING * 2) / FOOTER_COLUMN_WIDTH));
+  const perColumn = Math.ceil(lines.length / columnCount);
+  const columns: string[][] = [];
+  for (let i = 0; i < lines.length; i += perColumn) {
+    columns.push(lines.slice(i, i + perColumn));
+  }
+  return columns;
+}
+
+/**
+ * Render the contact sheet onto a new canvas
+ * @param camera - Live camera; views use copies of it
+ */
+export async function renderContactSheet(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: ContactSheetOptions = DEFAULT_CONTACT_SHEET_OPTIONS
+): Promise<HTMLCanvasElement> {
+  const views = options.views.filter((key) => CAMERA_PRESETS[key]);
+  if (views.length === 0) {
+    throw new Error('Pick at least one view for the contact sheet');
+  }
+
+  const columns = Math.max(1, Math.min(options.columns, views.length));
+  const rows = Math.ceil(views.length / columns);
+  const { cellSize } = options;
+  const width = PADDING + columns * (cellSize + PADDING);
+  const gridHeight = PADDING + rows * (cellSize + LABEL_HEIGHT + PADDING);
+
+  const footerLines = options.includeMetadata
+    ? formatMetadataAsText(generateDesignMetadata('contact-sheet')).split('\n')
+    : [];
+  const footerColumns = layoutFooter(footerLines, width);
+  const footerHeight = footerLines.length > 0
+    ? Math.max(...footerColumns.map((column) => column.length)) * FOOTER_LINE_HEIGHT + PADDING
+    : 0;
+
+  const sheet = document.createElement('canvas');
+  sheet.width = width;
+  sheet.height = gridHeight + footerHeight;
+  const ctx = sheet.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, sheet.width, sheet.height);
+  }
+  const textColor = options.background
+    ? getAccessibleTextColor(options.background, { light: '#f5f5f5', dark: '#222222' })
+    : '#222222';
+
+  const lighting = options.lightingPreset ? LIGHTING_PRESETS[options.lightingPreset] : undefined;
+  const restoreLighting = lighting ? swapLightingPreset(scene, lighting) : null;
+  try {
+    await withRendererSize(renderer, cellSize, cellSize, async () => {
+      views.forEach((key, index) => {
+        const preset = CAMERA_PRESETS[key];
+        const x = PADDING + (index % columns) * (cellSize + PADDING);
+        const y = PADDING + Math.floor(index / columns) * (cellSize + LABEL_HEIGHT + PADDING);
+
+        // Render and copy in one task so nothing else draws in between
+        renderer.render(scene, createViewCamera(camera, preset.position, preset.target, 1));
+        ctx.drawImage(renderer.domElement, x, y, cellSize, cellSize);
+
+        ctx.fillStyle = textColor;
+        ctx.font = '600 18px Inter, Arial, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(preset.name, x + cellSize / 2, y + cellSize + LABEL_HEIGHT / 2);
+      });
+    });
+  } finally {
+    restoreLighting?.();
+    renderer.render(scene, camera);
+  }
+
+  if (footerLines.length > 0) {
+    ctx.fillStyle = textColor;
+    ctx.font = '13px "Courier New", monospace';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    footerColumns.forEach((column, columnIndex) => {
+      column.forEach((line, lineIndex) => {
+        ctx.fillText(line, PADDING + columnIndex * FOOTER_COLUMN_WIDTH, gridHeight + lineIndex * FOOTER_LINE_HEIGHT);
+      });
+    });
+  }
+
+  return sheet;
+}
+
+/**
+ * Render the contact sheet and download it as PNG
+ */
+export async function exportContactSheet(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: ContactSheetOptions = DEFAULT_CONTACT_SHEET_OPTIONS,
+  filename: string = `shirt-contact-sheet-${Date.now()}`,
+  sink?: DownloadSink
+): Promise<void> {
+  try {
+    const sheet = await renderContactSheet(renderer, scene, camera, options);
+    const blob = await captureCanvasImage(sheet);
+    downloadBlob(blob, `${filename}.png`, sink);
+
+    logger.info('Contact sheet exported', {
+      context: 'contactSheet',
+      metadata: { filename, ...options, size: `${sheet.width}x${sheet.height}` },
+    });
+  } catch (error) {
+    logger.error('Failed to export contact sheet', {
+      context: 'contactSheet',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,56 @@
+import { DesignState, serializeDesignState, deserializeDesignState, inlineDesignImages } from '@/lib/designState';
+import { logger } from '@/lib/logger';
+import { insertPngChunks, encodePngText, readPngText, isPng } from './pngChunks';
+
+/**
+ * Design Image
+ * PNG renders that carry the design document in a compressed iTXt chunk, so a PNG sent back by a
+ * client can be opened as the design it shows. Uploaded print images are inlined as data URLs.
+ */
+
+const DESIGN_KEYWORD = 'shirt-design';
+
+/**
+ * Add the design document to a PNG
+ * @param png - PNG render
+ * @param state - Design state snapshot
+ * @returns PNG with the design embedded
+ */
+export async function embedDesignInPng(png: Blob, state: DesignState): Promise<Blob> {
+  const json = serializeDesignState(await inlineDesignImages(state));
+  const bytes = insertPngChunks(new Uint8Array(await png.arrayBuffer()), [
+    { type: 'iTXt', data: encodePngText(DESIGN_KEYWORD, json) },
+  ]);
+  return new Blob([bytes as BlobPart], { type: 'image/png' });
+}
+
+/**
+ * Read the design document embedded in a PNG
+ * @throws DesignValidationError when the embedded design is invalid
+ * @throws Error when the file is not a PNG or carries no design
+ */
+export async function importDesignImage(file: Blob): Promise<DesignState> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isPng(bytes)) {
+    throw new Error('This file is not a PNG image');
+  }
+
+  let json: string | undefined;
+  try {
+    json = readPngText(bytes, DESIGN_KEYWORD);
+  } catch (error) {
+    throw new Error('The design data in this PNG is damaged');
+  }
+  if (json === undefined) {
+    throw new Error('This PNG was not exported from the configurator, or has lost its design data');
+  }
+
+  const design = deserializeDesignState(json);
+
+  logger.info('Design imported from PNG', {
+    context: 'designImage',
+    metadata: { size: file.size, version: design.version },
+  });
+
+  return design;
+}
@@ -1,5 +1,9 @@
 import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { useOrderStore } from '@/stores/orderStore';
 import { ComponentType } from '@/types/models';
+import { OrderSummary } from '@/types/pricing';
+import { resolveColorway } from '@/lib/designVariants';
+import { calculateOrder, formatPrice } from '@/lib/pricing';
 
 /**
  * Design Metadata Generator
@@ -18,18 +22,34 @@ export interface DesignMetadata {
   }[];
   totalPrints: number;
   exportFormat: string;
+  order?: OrderSummary; // Present when the order builder has quantities
 }
 
 /**
- * Generate metadata for current design
+ * Price the order builder's quantities for the current design (active colorway)
+ * @returns The order, or undefined when no quantities are entered
+ */
+export function generateOrderSummary(): OrderSummary | undefined {
+  const state = useConfiguratorStore.getState();
+  const { materialMap, printMap } = resolveColorway(state, state.activeVariantId);
+  const order = calculateOrder(
+    { materialMap, patternMap: state.patternMap, printMap },
+    useOrderStore.getState().quantities
+  );
+  return order.totalQuantity > 0 ? order : undefined;
+}
+
+/**
+ * Generate metadata for current design (active colorway)
  */
 export function generateDesignMetadata(exportFormat: string): DesignMetadata {
   const state = useConfiguratorStore.getState();
+  const { materialMap, colorMap, printMap } = resolveColorway(state, state.activeVariantId);
   
   const components = Object.values(ComponentType).map((component) => {
-    const material = state.materialMap[component] || undefined;
-    const color = state.colorMap[component] || undefined;
-    const prints = state.printMap[component] || [];
+    const material = materialMap[component] || undefined;
+    const color = colorMap[component] || undefined;
+    const prints = printMap[component] || [];
     
     return {
       component,
@@ -39,7 +59,7 @@ export function generateDesignMetadata(exportFormat: string): DesignMetadata {
     };
   });
 
-  const totalPrints = Object.values(state.printMap).reduce(
+  const totalPrints = Object.values(printMap).reduce(
     (sum, prints) => sum + (prints?.length || 0),
     0
   );
@@ -51,6 +71,7 @@ export function generateDesignMetadata(exportFormat: string): DesignMetadata {
     components,
     totalPrints,
     exportFormat,
+    order: generateOrderSummary(),
   };
 }
 
@@ -80,6 +101,20 @@ export function formatMetadataAsText(metadata: DesignMetadata): string {
   lines.push(``);
   lines.push(`Total Prints: ${metadata.totalPrints}`);
 
+  const { order } = metadata;
+  if (order) {
+    lines.push(``);
+    lines.push(`Order:`);
+    order.lines.forEach((line) => {
+      lines.push(`  ${line.size}: ${line.quantity} x ${formatPrice(line.unitPrice, order.currency)} = ${formatPrice(line.total, order.currency)}`);
+    });
+    lines.push(`  Pieces: ${order.totalQuantity}`);
+    if (order.tier.discount > 0) {
+      lines.push(`  Quantity discount: ${Math.round(order.tier.discount * 100)}% (-${formatPrice(order.discountTotal, order.currency)})`);
+    }
+    lines.push(`  Total: ${formatPrice(order.total, order.currency)}`);
+  }
+
   return lines.join('\n');
 }
 
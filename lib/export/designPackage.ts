@@ -0,0 +1,250 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+import {
+  DesignState,
+  DesignValidationError,
+  DesignValidationIssue,
+  serializeDesignState,
+  parseDesignDocument,
+} from '@/lib/designState';
+import { remapPrintColors } from '@/lib/designVariants';
+import { logger } from '@/lib/logger';
+import { downloadBlob } from './download';
+
+/**
+ * Design Package (.shirt)
+ * A zip archive holding the design document, every uploaded print image and a preview render:
+ *
+ *   manifest.json   package format and contents
+ *   design.json     design document; uploaded prints point at images/...
+ *   images/<id>.png print images
+ *   preview.png     viewer render (optional)
+ */
+
+export const DESIGN_PACKAGE_EXTENSION = 'shirt';
+
+const PACKAGE_FORMAT = 'shirt-design-package';
+const PACKAGE_VERSION = 1;
+const IMAGE_DIR = 'images/';
+
+interface DesignPackageManifest {
+  format: typeof PACKAGE_FORMAT;
+  packageVersion: number;
+  createdAt: string;
+  images: string[];
+  preview?: string;
+}
+
+export interface ImportedDesignPackage {
+  design: DesignState;
+  preview?: Blob; // Packaged preview render; callers make their own object URL if they show it
+  createdAt?: string;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(IMAGE_EXTENSIONS).map(([mime, ext]) => [ext, mime])
+);
+
+function generatePrintId(print: PrintApplication): string {
+  const prefix = print.textContent ? 'text' : 'print';
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function mapPrints(
+  printMap: Record<ComponentType, PrintApplication[]>,
+  callback: (print: PrintApplication) => PrintApplication
+): Record<ComponentType, PrintApplication[]> {
+  const mapped = {} as Record<ComponentType, PrintApplication[]>;
+  (Object.entries(printMap) as [ComponentType, PrintApplication[]][]).forEach(([component, prints]) => {
+    mapped[component] = (prints || []).map(callback);
+  });
+  return mapped;
+}
+
+function bytesToBlob(bytes: Uint8Array, type: string): Blob {
+  return new Blob([bytes as BlobPart], { type });
+}
+
+async function dataUrlToBytes(dataUrl: string): Promise<Uint8Array> {
+  return new Uint8Array(await (await fetch(dataUrl)).arrayBuffer());
+}
+
+/**
+ * Build a .shirt package
+ * @param state - Design state snapshot
+ * @param previewDataUrl - Optional PNG data URL of the viewer
+ * @returns Archive blob
+ */
+export async function createDesignPackage(
+  state: DesignState,
+  previewDataUrl?: string
+): Promise<Blob> {
+  const files: Zippable = {};
+  const images: string[] = [];
+  const imagePaths = new Map<string, string>(); // Source URL -> archive path
+
+  // Embed local images (object and data URLs); remote URLs stay as references
+  for (const prints of Object.values(state.printMap)) {
+    for (const print of prints || []) {
+      const url = print.customImageUrl;
+      if (!url || imagePaths.has(url) || !(url.startsWith('blob:') || url.startsWith('data:'))) {
+        continue;
+      }
+      const blob = await (await fetch(url)).blob();
+      const path = `${IMAGE_DIR}${print.id}.${IMAGE_EXTENSIONS[blob.type] || 'png'}`;
+      files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }]; // Already compressed
+      imagePaths.set(url, path);
+      images.push(path);
+    }
+  }
+
+  const design: DesignState = {
+    ...state,
+    printMap: mapPrints(state.printMap, (print) =>
+      print.customImageUrl && imagePaths.has(print.customImageUrl)
+        ? { ...print, customImageUrl: imagePaths.get(print.customImageUrl) }
+        : print
+    ),
+  };
+  files['design.json'] = strToU8(serializeDesignState(design));
+
+  if (previewDataUrl) {
+    files['preview.png'] = [await dataUrlToBytes(previewDataUrl), { level: 0 }];
+  }
+
+  const manifest: DesignPackageManifest = {
+    format: PACKAGE_FORMAT,
+    packageVersion: PACKAGE_VERSION,
+    createdAt: new Date().toISOString(),
+    images,
+    preview: previewDataUrl ? 'preview.png' : undefined,
+  };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return bytesToBlob(zipSync(files, { level: 6 }), 'application/zip');
+}
+
+/**
+ * Build a .shirt package and download it
+ */
+export async function exportDesignPackage(
+  state: DesignState,
+  options: { filename?: string; previewDataUrl?: string } = {}
+): Promise<void> {
+  const { filename = `shirt-design-${Date.now()}`, previewDataUrl } = options;
+  try {
+    const blob = await createDesignPackage(state, previewDataUrl);
+    downloadBlob(blob, `${filename}.${DESIGN_PACKAGE_EXTENSION}`);
+
+    logger.info('Design package exported', {
+      context: 'designPackage',
+      metadata: { filename, size: blob.size },
+    });
+  } catch (error) {
+    logger.error('Failed to export design package', {
+      context: 'designPackage',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Read a .shirt package
+ * Prints get new IDs so the design can sit next to the one it came from, and the document is
+ * validated against the material, pattern and zone data before anything is returned
+ * @throws DesignValidationError when the design or its images are invalid
+ * @throws Error when the file is not a design package
+ */
+export async function importDesignPackage(file: Blob): Promise<ImportedDesignPackage> {
+  let files: Record<string, Uint8Array>;
+  let manifest: DesignPackageManifest;
+  let document: unknown;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    manifest = JSON.parse(strFromU8(files['manifest.json']));
+    document = JSON.parse(strFromU8(files['design.json']));
+  } catch (error) {
+    throw new Error('This file is not a valid .shirt design package');
+  }
+
+  if (manifest.format !== PACKAGE_FORMAT) {
+    throw new Error('This file is not a valid .shirt design package');
+  }
+  if (manifest.packageVersion > PACKAGE_VERSION) {
+    throw new Error('This design package was made by a newer version of the configurator');
+  }
+
+  const parsed = parseDesignDocument(document);
+
+  const imageUrls = new Map<string, string>(); // Archive path -> object URL
+  const missing: DesignValidationIssue[] = [];
+  const toObjectUrl = (path: string) => {
+    if (!imageUrls.has(path)) {
+      const extension = path.split('.').pop() || '';
+      const blob = bytesToBlob(files[path], IMAGE_MIME_TYPES[extension] || 'image/png');
+      imageUrls.set(path, URL.createObjectURL(blob));
+    }
+    return imageUrls.get(path)!;
+  };
+
+  const printIds = new Map<string, string>(); // Packaged print ID -> new print ID
+  const printMap = {} as Record<ComponentType, PrintApplication[]>;
+  (Object.entries(parsed.printMap) as [ComponentType, PrintApplication[]][]).forEach(
+    ([component, prints]) => {
+      printMap[component] = (prints || []).map((print, index) => {
+        let customImageUrl = print.customImageUrl;
+        if (customImageUrl?.startsWith(IMAGE_DIR)) {
+          if (files[customImageUrl]) {
+            customImageUrl = toObjectUrl(customImageUrl);
+          } else {
+            missing.push({
+              path: `printMap.${component}[${index}].customImageUrl`,
+              message: `Image "${customImageUrl}" is missing from the package`,
+            });
+          }
+        }
+        const id = generatePrintId(print);
+        printIds.set(print.id, id);
+        return { ...print, id, customImageUrl };
+      });
+    }
+  );
+
+  // Keep mirrored sleeve prints linked under their new IDs
+  Object.values(printMap).forEach((prints) => {
+    prints.forEach((print, index) => {
+      if (print.mirrorId) {
+        prints[index] = { ...print, mirrorId: printIds.get(print.mirrorId) };
+      }
+    });
+  });
+
+  if (missing.length > 0) {
+    imageUrls.forEach((url) => URL.revokeObjectURL(url));
+    throw new DesignValidationError(missing);
+  }
+
+  const preview =
+    manifest.preview && files[manifest.preview] ? bytesToBlob(files[manifest.preview], 'image/png') : undefined;
+
+  logger.info('Design package imported', {
+    context: 'designPackage',
+    metadata: { images: imageUrls.size, createdAt: manifest.createdAt },
+  });
+
+  return {
+    design: { ...parsed, printMap, variants: remapPrintColors(parsed.variants, printIds) },
+    preview,
+    createdAt: manifest.createdAt,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Download Helper
+ * Saves a generated file through a temporary link, or hands it to the sink of the export that made it
+ */
+
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string;
+}
+
+/**
+ * Receives an export's files instead of the browser, e.g. to keep a queued job's files for its ZIP
+ */
+export type DownloadSink = (file: DownloadedFile) => void;
+
+/**
+ * Trigger a browser download for a blob
+ * @param blob - File contents
+ * @param filename - Name including extension
+ * @param sink - Hand the file to this sink instead of downloading it
+ */
+export function downloadBlob(blob: Blob, filename: string, sink?: DownloadSink): void {
+  if (sink) {
+    sink({ blob, filename });
+    return;
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Clean up
+  URL.revokeObjectURL(url);
+}
@@ -1,4 +1,7 @@
 import { logger } from '../logger';
+import { downloadBlob, DownloadSink } from './download';
+import { embedDesignInPng } from './designImage';
+import { DesignState } from '../designState';
 import * as THREE from 'three';
 
 /**
@@ -13,6 +16,8 @@ export interface ImageExportOptions {
   width?: number; // Override canvas width
   height?: number; // Override canvas height
   renderer?: THREE.WebGLRenderer; // Optional renderer for better capture
+  design?: DesignState; // Embedded in PNG exports so the image can be opened as a design again
+  sink?: DownloadSink; // Receives the file instead of the browser
 }
 
 /**
@@ -30,6 +35,8 @@ export async function exportCanvasAsImage(
     width,
     height,
     renderer,
+    design,
+    sink,
   } = options;
 
   try {
@@ -83,7 +90,7 @@ export async function exportCanvasAsImage(
     }
 
     // Convert to blob
-    const blob = await new Promise<Blob>((resolve, reject) => {
+    let blob = await new Promise<Blob>((resolve, reject) => {
       exportCanvas.toBlob(
         (blob) => {
           if (blob) {
@@ -102,21 +109,15 @@ export async function exportCanvasAsImage(
       );
     });
 
-    // Create download link
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${filename}.${format}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    if (format === 'png' && design) {
+      blob = await embedDesignInPng(blob, design);
+    }
 
-    // Clean up
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `${filename}.${format}`, sink);
 
     logger.info('Canvas exported as image', {
       context: 'imageExport',
-      metadata: { format, filename, width, height },
+      metadata: { format, filename, width, height, embeddedDesign: format === 'png' && !!design },
     });
   } catch (error) {
     logger.error('Failed to export canvas as image', {
@@ -157,3 +158,27 @@ export async function exportHighResImage(
   });
 }
 
+
+/**
+ * Create a small PNG data URL from a canvas (for library thumbnails)
+ * Requires the WebGL canvas to be created with preserveDrawingBuffer
+ */
+export function createCanvasThumbnail(canvas: HTMLCanvasElement, maxSize: number = 256): string | undefined {
+  if (canvas.width === 0 || canvas.height === 0) {
+    return undefined;
+  }
+
+  const ratio = Math.min(maxSize / canvas.width, maxSize / canvas.height, 1);
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = Math.round(canvas.width * ratio);
+  thumbnail.height = Math.round(canvas.height * ratio);
+  const ctx = thumbnail.getContext('2d');
+  if (!ctx) {
+    return undefined;
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail.toDataURL('image/png');
+}
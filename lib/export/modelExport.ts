@@ -1,18 +1,35 @@
 import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
 import * as THREE from 'three';
+import { ComponentMap } from '@/types/models';
 import { logger } from '../logger';
+import { downloadBlob, DownloadSink } from './download';
+import { bakeAlbedoCanvas } from './textureAtlasExport';
+import { exportSceneAsUSDZ } from './usdzExport';
+import { exportSceneAsOBJ } from './objExport';
 
 /**
  * 3D Model Export Utility
  * Exports Three.js scene as GLB or GLTF file
  */
 
+/**
+ * Name of the group holding the garment in the viewer scene (see ModelLoader)
+ */
+export const GARMENT_OBJECT_NAME = 'garment';
+
+/**
+ * Formats the cleaned garment can be written in
+ */
+export type ModelFormat = 'glb' | 'gltf' | 'usdz' | 'obj';
+
 export interface ModelExportOptions {
   format?: 'glb' | 'gltf';
   filename?: string;
   binary?: boolean; // For GLTF, whether to export as binary
   includeMaterials?: boolean;
   includeTextures?: boolean;
+  maxTextureSize?: number; // Downscale larger textures to this size
+  sink?: DownloadSink; // Receives the file instead of the browser
 }
 
 /**
@@ -25,9 +42,11 @@ export async function exportSceneAsModel(
   const {
     format = 'glb',
     filename = `shirt-design-${Date.now()}`,
-    binary = true,
+    binary = format === 'glb',
     includeMaterials = true,
     includeTextures = true,
+    maxTextureSize = Infinity,
+    sink,
   } = options;
 
   try {
@@ -38,6 +57,7 @@ export async function exportSceneAsModel(
       trs: false, // Use matrix instead of position/rotation/scale
       onlyVisible: false, // Export all objects
       includeCustomExtensions: true,
+      maxTextureSize,
     };
 
     // Export the scene
@@ -78,17 +98,7 @@ export async function exportSceneAsModel(
       fileExtension = 'gltf';
     }
 
-    // Create download link
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${filename}.${fileExtension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    // Clean up
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `${filename}.${fileExtension}`, sink);
 
     logger.info('Scene exported as 3D model', {
       context: 'modelExport',
@@ -118,3 +128,196 @@ export async function exportObjectAsModel(
   return exportSceneAsModel(tempScene, options);
 }
 
+
+function copyTransform(target: THREE.Object3D, source: THREE.Object3D): void {
+  target.name = source.name;
+  target.position.copy(source.position);
+  target.quaternion.copy(source.quaternion);
+  target.scale.copy(source.scale);
+  target.visible = source.visible;
+}
+
+// Textures drawn for an export copy; disposeExportModel frees only these, never the viewer's
+const exportTextures = new WeakSet<THREE.Texture>();
+
+/**
+ * Copy of a texture shrunk to fit maxSize, or the texture itself when it already fits
+ * or its image can't be drawn onto a canvas
+ */
+function fitTexture(
+  texture: THREE.Texture | null,
+  maxSize: number,
+  resized: Map<string, THREE.Texture>
+): THREE.Texture | null {
+  const image = texture?.image as CanvasImageSource & { width: number; height: number } | undefined;
+  const drawable =
+    image instanceof HTMLImageElement || image instanceof HTMLCanvasElement || image instanceof ImageBitmap;
+  if (!texture || !image || !drawable || Math.max(image.width, image.height) <= maxSize) return texture;
+
+  const cached = resized.get(texture.uuid);
+  if (cached) return cached;
+
+  const ratio = maxSize / Math.max(image.width, image.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * ratio));
+  canvas.height = Math.max(1, Math.round(image.height * ratio));
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  // Keeps the original's color space, wrapping, UV transform and orientation
+  const copy = texture.clone();
+  copy.image = canvas;
+  copy.needsUpdate = true;
+  exportTextures.add(copy);
+  resized.set(texture.uuid, copy);
+  return copy;
+}
+
+/**
+ * Standard PBR material with the viewer's map and color baked into one albedo texture
+ * Viewer-only state (highlight emissive, canvas composites) is left behind
+ * @param maxTextureSize - Largest width or height of any texture; larger ones are shrunk to fit
+ */
+function createExportMaterial(
+  source: THREE.MeshStandardMaterial,
+  maxTextureSize: number,
+  baked: Map<string, THREE.Material>,
+  resized: Map<string, THREE.Texture>
+): THREE.Material {
+  const cached = baked.get(source.uuid);
+  if (cached) return cached;
+
+  const material = new THREE.MeshStandardMaterial({
+    name: source.name,
+    color: source.map ? 0xffffff : source.color,
+    roughness: source.roughness,
+    metalness: source.metalness,
+    roughnessMap: fitTexture(source.roughnessMap, maxTextureSize, resized),
+    metalnessMap: fitTexture(source.metalnessMap, maxTextureSize, resized),
+    normalMap: fitTexture(source.normalMap, maxTextureSize, resized),
+    normalScale: source.normalScale,
+    aoMap: fitTexture(source.aoMap, maxTextureSize, resized),
+    transparent: source.transparent,
+    opacity: source.opacity,
+    alphaTest: source.alphaTest,
+    side: source.side,
+  });
+
+  const image = source.map?.image as { width?: number } | undefined;
+  if (image?.width) {
+    const texture = new THREE.CanvasTexture(bakeAlbedoCanvas(source, Math.min(image.width, maxTextureSize)));
+    texture.flipY = false; // Baked in glTF UV orientation
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    material.map = texture;
+    exportTextures.add(texture);
+  }
+
+  baked.set(source.uuid, material);
+  return material;
+}
+
+/**
+ * Copy the garment for export: component meshes and the groups holding them, nothing else
+ * Highlight outlines, zone guides and other helpers are dropped because they are not in the
+ * component map; materials are replaced by baked standard materials. userData is not copied.
+ * @param garment - Group holding the garment
+ * @param componentMap - Mesh name -> component
+ * @param maxTextureSize - Largest width or height of the exported textures, for every format
+ * @returns Detached copy; dispose its baked textures with disposeExportModel
+ */
+export function prepareModelForExport(
+  garment: THREE.Object3D,
+  componentMap: ComponentMap,
+  maxTextureSize: number = Infinity
+): THREE.Group {
+  const baked = new Map<string, THREE.Material>();
+  const resized = new Map<string, THREE.Texture>();
+
+  const copy = (source: THREE.Object3D): THREE.Object3D | null => {
+    const mesh = source as THREE.Mesh;
+    if (mesh.isMesh) {
+      const material = (Array.isArray(mesh.material) ? mesh.material[0] : mesh.material) as THREE.MeshStandardMaterial;
+      if (!componentMap[mesh.name || `mesh_${mesh.uuid}`] || !material?.color) return null;
+
+      const target = new THREE.Mesh(mesh.geometry, createExportMaterial(material, maxTextureSize, baked, resized));
+      copyTransform(target, mesh);
+      return target;
+    }
+
+    // Groups only; lines, points, sprites, lights and cameras are viewer helpers
+    if (source.type !== 'Group' && source.type !== 'Object3D') return null;
+
+    const children = source.children.map(copy).filter((child): child is THREE.Object3D => child !== null);
+    if (children.length === 0) return null;
+
+    const target = new THREE.Group();
+    copyTransform(target, source);
+    target.add(...children);
+    return target;
+  };
+
+  const model = new THREE.Group();
+  model.name = GARMENT_OBJECT_NAME;
+  const content = copy(garment);
+  if (content) {
+    model.add(...content.children);
+  }
+  return model;
+}
+
+/**
+ * Dispose the baked materials and textures of a model from prepareModelForExport
+ * Geometries and the original maps are shared with the viewer and stay
+ */
+export function disposeExportModel(model: THREE.Object3D): void {
+  model.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const material = mesh.material as THREE.MeshStandardMaterial;
+    [material.map, material.roughnessMap, material.metalnessMap, material.normalMap, material.aoMap].forEach((texture) => {
+      if (texture && exportTextures.has(texture)) {
+        texture.dispose();
+      }
+    });
+    material.dispose();
+  });
+}
+
+/**
+ * Export the garment from the viewer scene as a clean GLB, GLTF, USDZ or OBJ/MTL
+ * Every format is written from the same cleaned, baked copy, so materials match across them
+ * @param scene - Viewer scene holding the garment group
+ * @param componentMap - Mesh name -> component
+ * @throws When the scene holds no garment
+ */
+export async function exportGarmentAsModel(
+  scene: THREE.Scene,
+  componentMap: ComponentMap,
+  options: Omit<ModelExportOptions, 'format'> & { format?: ModelFormat } = {}
+): Promise<void> {
+  const { format = 'glb', filename = `shirt-design-${Date.now()}`, maxTextureSize, sink } = options;
+  const garment = scene.getObjectByName(GARMENT_OBJECT_NAME);
+  if (!garment) {
+    throw new Error('No garment in the scene to export');
+  }
+
+  const model = prepareModelForExport(garment, componentMap, maxTextureSize);
+  if (model.children.length === 0) {
+    throw new Error('The garment has no component meshes to export');
+  }
+
+  const exportScene = new THREE.Scene();
+  exportScene.add(model);
+  try {
+    if (format === 'usdz') {
+      await exportSceneAsUSDZ(exportScene, filename, sink);
+    } else if (format === 'obj') {
+      await exportSceneAsOBJ(exportScene, filename, sink);
+    } else {
+      await exportSceneAsModel(exportScene, { ...options, format, filename });
+    }
+  } finally {
+    disposeExportModel(model);
+  }
+}
@@ -0,0 +1,129 @@
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { zipSync, Zippable, strToU8 } from 'fflate';
+import * as THREE from 'three';
+import { logger } from '../logger';
+import { captureCanvasImage } from './colorwayExport';
+import { downloadBlob, DownloadSink } from './download';
+
+/**
+ * OBJ/MTL Export
+ * Writes a scene as a ZIP holding model.obj, model.mtl and one PNG per color map:
+ *
+ *   model.obj
+ *   model.mtl            one material per mesh material, referenced by usemtl
+ *   textures/<name>.png  diffuse maps (map_Kd)
+ */
+
+const MTL_FILE = 'model.mtl';
+
+function toMaterialName(name: string, index: number): string {
+  const slug = name.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '');
+  return slug ? `${slug}_${index + 1}` : `material_${index + 1}`;
+}
+
+/**
+ * Draw a texture image as a PNG with OBJ's bottom-left UV origin
+ */
+async function textureToPng(texture: THREE.Texture): Promise<Uint8Array | null> {
+  const image = texture.image as (CanvasImageSource & { width: number; height: number }) | undefined;
+  if (!image?.width || !image.height) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  // Textures in glTF orientation (flipY false) have their first row at v = 0
+  if (!texture.flipY) {
+    ctx.translate(0, canvas.height);
+    ctx.scale(1, -1);
+  }
+  ctx.drawImage(image, 0, 0);
+  return new Uint8Array(await (await captureCanvasImage(canvas)).arrayBuffer());
+}
+
+function formatColor(color: THREE.Color): string {
+  const rgb = { r: 0, g: 0, b: 0 };
+  color.getRGB(rgb, THREE.SRGBColorSpace);
+  return `${rgb.r.toFixed(4)} ${rgb.g.toFixed(4)} ${rgb.b.toFixed(4)}`;
+}
+
+/**
+ * Build the OBJ/MTL archive for a scene
+ * Materials are renamed to unique, file-safe names so usemtl lines resolve
+ * @returns Archive blob
+ */
+export async function createObjArchive(scene: THREE.Object3D): Promise<Blob> {
+  const materials: THREE.MeshStandardMaterial[] = [];
+  scene.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.isMesh && !materials.includes(mesh.material as THREE.MeshStandardMaterial)) {
+      materials.push(mesh.material as THREE.MeshStandardMaterial);
+    }
+  });
+
+  const originalNames = materials.map((material) => material.name);
+  materials.forEach((material, index) => {
+    material.name = toMaterialName(material.name, index);
+  });
+
+  const files: Zippable = {};
+  try {
+    scene.updateMatrixWorld(true);
+    files['model.obj'] = strToU8(`mtllib ${MTL_FILE}\n${new OBJExporter().parse(scene)}`);
+
+    const mtl: string[] = [];
+    for (const material of materials) {
+      mtl.push(
+        `newmtl ${material.name}`,
+        `Kd ${formatColor(material.color)}`,
+        'Ka 0.0000 0.0000 0.0000',
+        'Ks 0.0000 0.0000 0.0000',
+        `Ns ${Math.round((1 - (material.roughness ?? 1)) * 100)}`,
+        `d ${material.opacity}`,
+        'illum 1'
+      );
+      const png = material.map ? await textureToPng(material.map) : null;
+      if (png) {
+        const path = `textures/${material.name}.png`;
+        files[path] = [png, { level: 0 }]; // Already compressed
+        mtl.push(`map_Kd ${path}`);
+      }
+      mtl.push('');
+    }
+    files[MTL_FILE] = strToU8(mtl.join('\n'));
+  } finally {
+    materials.forEach((material, index) => {
+      material.name = originalNames[index];
+    });
+  }
+
+  return new Blob([zipSync(files, { level: 6 }) as BlobPart], { type: 'application/zip' });
+}
+
+/**
+ * Export a scene as OBJ/MTL in a ZIP archive
+ */
+export async function exportSceneAsOBJ(
+  scene: THREE.Object3D,
+  filename: string = `shirt-design-${Date.now()}`,
+  sink?: DownloadSink
+): Promise<void> {
+  try {
+    const archive = await createObjArchive(scene);
+    downloadBlob(archive, `${filename}-obj.zip`, sink);
+
+    logger.info('Scene exported as OBJ/MTL', {
+      context: 'objExport',
+      metadata: { filename, size: archive.size },
+    });
+  } catch (error) {
+    logger.error('Failed to export scene as OBJ/MTL', {
+      context: 'objExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+      metadata: { filename },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { logger } from '@/lib/logger';
+import { downloadBlob } from './download';
+import { generateDesignMetadata, formatMetadataAsJSON } from './designMetadata';
+
+/**
+ * Order Export
+ * Downloads the design metadata together with the order summary as JSON
+ */
+
+/**
+ * Export the current order summary alongside the design metadata
+ * @throws When the order builder has no quantities
+ */
+export function exportOrderSummary(filename: string = `shirt-order-${Date.now()}`): void {
+  const metadata = generateDesignMetadata('order');
+  if (!metadata.order) {
+    throw new Error('Add quantities in the order builder first');
+  }
+
+  try {
+    const blob = new Blob([formatMetadataAsJSON(metadata)], { type: 'application/json' });
+    downloadBlob(blob, `${filename}.json`);
+
+    logger.info('Order summary exported', {
+      context: 'orderExport',
+      metadata: { filename, totalQuantity: metadata.order.totalQuantity, total: metadata.order.total },
+    });
+  } catch (error) {
+    logger.error('Failed to export order summary', {
+      context: 'orderExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    throw error;
+  }
+}
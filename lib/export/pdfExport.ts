@@ -1,133 +1,444 @@
+import { jsPDF } from 'jspdf';
 import { logger } from '../logger';
-import { exportCanvasAsImage } from './imageExport';
+import { downloadBlob, DownloadSink } from './download';
+import { useConfiguratorStore } from '@/stores/configuratorStore';
+import { ComponentType, COMPONENT_LABELS } from '@/types/models';
+import { MaterialLibrary } from '@/types/materials';
+import { PatternLibrary } from '@/types/patterns';
+import { PrintApplication } from '@/types/prints';
+import { PrintZoneLibrary, getZoneById } from '@/types/zones';
+import { resolveColorway, getDesignVariant } from '@/lib/designVariants';
+import { calculatePrice, formatPrice, PricedDesign } from '@/lib/pricing';
+import { measurePrintInches } from './artworkExport';
+import { generateOrderSummary } from './designMetadata';
+import materialsData from '@/data/materials.json';
+import patternsData from '@/data/patterns.json';
+import zonesData from '@/data/zones.json';
 
 /**
  * PDF Export Utility
- * Exports design as PDF document
+ * Builds a multi-page production tech pack (renders, materials and colors, print placement and price)
+ * and downloads it as a PDF file
  */
 
 export interface PDFExportOptions {
   filename?: string;
   title?: string;
-  includeMetadata?: boolean;
+  includeMetadata?: boolean; // Materials, print placement and price pages; renders only when false
   width?: number;
   height?: number;
+  sink?: DownloadSink; // Receives the file instead of the browser
 }
 
 /**
- * Export canvas as PDF using browser's print functionality
- * This is a simple approach that works without external libraries
+ * One rendered view of the garment
  */
-export async function exportCanvasAsPDF(
-  canvas: HTMLCanvasElement,
-  options: PDFExportOptions = {}
-): Promise<void> {
-  const { filename = `shirt-design-${Date.now()}`, title = 'Shirt Design' } = options;
+export interface TechPackView {
+  name: string; // e.g. "Front"
+  dataUrl: string; // PNG or JPEG data URL
+  width: number; // Pixel size, for the aspect ratio
+  height: number;
+}
 
-  try {
-    // Create a new window with the canvas image
-    const imgData = canvas.toDataURL('image/png');
-    const printWindow = window.open('', '_blank');
-    
-    if (!printWindow) {
-      throw new Error('Failed to open print window. Please allow popups.');
+/**
+ * Design content of a tech pack
+ */
+export interface TechPackDesign extends PricedDesign {
+  colorMap: Record<ComponentType, string | null>;
+  mode: 'blank' | 'branded';
+  colorway?: string; // Name of the active colorway variant
+  printSizes?: Record<string, { width: number; height: number }>; // Drawn size in inches by print ID
+}
+
+type TableCell = string | { text: string; swatch: string }; // swatch: hex color drawn before the text
+
+interface TableColumn {
+  header: string;
+  width: number; // mm
+  align?: 'left' | 'right';
+}
+
+const PAGE_MARGIN = 15;
+const ROW_HEIGHT = 7;
+const FONT = 'helvetica';
+
+const materials = new Map((materialsData.materials as MaterialLibrary).map((m) => [m.id, m]));
+const patterns = new Map((patternsData.patterns as PatternLibrary).map((p) => [p.id, p]));
+const zones = (zonesData as PrintZoneLibrary).zones;
+
+/**
+ * Measure every print at the size it is drawn at, as in the print artwork
+ * Prints whose image can no longer be loaded are left out and show no size.
+ */
+export async function measureTechPackPrints(design: TechPackDesign): Promise<TechPackDesign> {
+  const printSizes: Record<string, { width: number; height: number }> = {};
+  for (const prints of Object.values(design.printMap)) {
+    for (const print of prints || []) {
+      try {
+        printSizes[print.id] = await measurePrintInches(print);
+      } catch (error) {
+        logger.warn('Could not measure print for the tech pack', {
+          context: 'pdfExport',
+          error: error instanceof Error ? error : new Error(String(error)),
+          metadata: { printId: print.id },
+        });
+      }
     }
+  }
+  return { ...design, printSizes };
+}
+
+/**
+ * Read the current design (active colorway) from the configurator store
+ */
+export function getTechPackDesign(): TechPackDesign {
+  const state = useConfiguratorStore.getState();
+  const { materialMap, colorMap, printMap } = resolveColorway(state, state.activeVariantId);
+  return {
+    materialMap,
+    colorMap,
+    printMap,
+    patternMap: state.patternMap,
+    mode: state.currentMode,
+    colorway: getDesignVariant(state.variants, state.activeVariantId)?.name,
+  };
+}
+
+function getZoneName(print: PrintApplication): string {
+  const zone = print.zoneId ? getZoneById(zones, print.zoneId) : undefined;
+  return zone ? zone.name : `${print.zone} (no zone)`;
+}
 
-    printWindow.document.write(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>${title}</title>
-          <style>
-            @media print {
-              @page {
-                margin: 0;
-                size: auto;
-              }
-              body {
-                margin: 0;
-                padding: 0;
-              }
-              img {
-                width: 100%;
-                height: auto;
-                display: block;
-              }
-            }
-            body {
-              margin: 0;
-              padding: 0;
-              display: flex;
-              justify-content: center;
-              align-items: center;
-              min-height: 100vh;
-            }
-            img {
-              max-width: 100%;
-              height: auto;
-            }
-          </style>
-        </head>
-        <body>
-          <img src="${imgData}" alt="${title}" />
-        </body>
-      </html>
-    `);
-    printWindow.document.close();
-
-    // Wait for image to load, then trigger print
-    printWindow.onload = () => {
-      setTimeout(() => {
-        printWindow.print();
-        // Close window after print dialog
-        setTimeout(() => {
-          printWindow.close();
-        }, 100);
-      }, 250);
+function getPrintName(print: PrintApplication): string {
+  if (print.textContent) return `Text "${print.textContent}"`;
+  if (print.printId) return `Print ${print.printId}`;
+  return 'Uploaded image';
+}
+
+function parseHex(hex: string): [number, number, number] {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value.padEnd(6, '0');
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number];
+}
+
+/**
+ * Page writer that keeps track of the vertical position and breaks pages as content grows
+ */
+class TechPackWriter {
+  readonly doc: jsPDF;
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  y = PAGE_MARGIN;
+
+  constructor() {
+    this.doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    this.pageWidth = this.doc.internal.pageSize.getWidth();
+    this.pageHeight = this.doc.internal.pageSize.getHeight();
+  }
+
+  get contentWidth(): number {
+    return this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  newPage(): void {
+    this.doc.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  /**
+   * Start a new page when less than `height` mm are left
+   */
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= this.pageHeight - PAGE_MARGIN - 8) return false;
+    this.newPage();
+    return true;
+  }
+
+  heading(text: string, size = 16): void {
+    this.ensureSpace(size / 2 + 4);
+    this.doc.setFont(FONT, 'bold');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(20, 20, 20);
+    this.doc.text(text, PAGE_MARGIN, this.y + size / 3);
+    this.y += size / 2 + 4;
+  }
+
+  paragraph(text: string, size = 10): void {
+    this.doc.setFont(FONT, 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(90, 90, 90);
+    const lines = this.doc.splitTextToSize(text, this.contentWidth) as string[];
+    lines.forEach((line) => {
+      this.ensureSpace(size / 2);
+      this.doc.text(line, PAGE_MARGIN, this.y + size / 3);
+      this.y += size / 2;
+    });
+    this.y += 2;
+  }
+
+  /**
+   * Draw a table; the header row repeats on every page the table spans
+   */
+  table(columns: TableColumn[], rows: TableCell[][]): void {
+    const drawHeader = () => {
+      this.doc.setFillColor(238, 240, 243);
+      this.doc.rect(PAGE_MARGIN, this.y, this.contentWidth, ROW_HEIGHT, 'F');
+      this.doc.setFont(FONT, 'bold');
+      this.doc.setFontSize(9);
+      this.doc.setTextColor(60, 60, 60);
+      this.drawRow(columns, columns.map((column) => column.header));
+      this.y += ROW_HEIGHT;
     };
 
-    logger.info('PDF export initiated', {
-      context: 'pdfExport',
-      metadata: { filename, title },
+    this.ensureSpace(ROW_HEIGHT * 2);
+    drawHeader();
+    rows.forEach((row) => {
+      if (this.ensureSpace(ROW_HEIGHT)) drawHeader();
+      this.doc.setFont(FONT, 'normal');
+      this.doc.setFontSize(9);
+      this.doc.setTextColor(30, 30, 30);
+      this.drawRow(columns, row);
+      this.doc.setDrawColor(225, 228, 232);
+      this.doc.line(PAGE_MARGIN, this.y + ROW_HEIGHT, PAGE_MARGIN + this.contentWidth, this.y + ROW_HEIGHT);
+      this.y += ROW_HEIGHT;
     });
-  } catch (error) {
-    logger.error('Failed to export as PDF', {
-      context: 'pdfExport',
-      error: error instanceof Error ? error : new Error(String(error)),
-      metadata: { filename },
+    this.y += 4;
+  }
+
+  private drawRow(columns: TableColumn[], cells: TableCell[]): void {
+    let x = PAGE_MARGIN;
+    const baseline = this.y + ROW_HEIGHT / 2 + 1.2;
+    columns.forEach((column, index) => {
+      const cell = cells[index] ?? '';
+      let textX = x + 2;
+      let text = typeof cell === 'string' ? cell : cell.text;
+      if (typeof cell !== 'string') {
+        this.doc.setFillColor(...parseHex(cell.swatch));
+        this.doc.setDrawColor(180, 180, 180);
+        this.doc.rect(textX, this.y + 1.75, 3.5, 3.5, 'FD');
+        textX += 5.5;
+      }
+      // Clip long values to the column
+      const maxWidth = column.width - (textX - x) - 2;
+      while (text.length > 1 && this.doc.getTextWidth(text) > maxWidth) {
+        text = `${text.slice(0, -2)}…`;
+      }
+      if (column.align === 'right') {
+        this.doc.text(text, x + column.width - 2, baseline, { align: 'right' });
+      } else {
+        this.doc.text(text, textX, baseline);
+      }
+      x += column.width;
     });
-    throw error;
+  }
+
+  /**
+   * Stamp the title and page numbers on every page
+   */
+  footer(title: string): void {
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont(FONT, 'normal');
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(140, 140, 140);
+      const y = this.pageHeight - PAGE_MARGIN / 2;
+      this.doc.text(title, PAGE_MARGIN, y);
+      this.doc.text(`Page ${page} of ${pages}`, this.pageWidth - PAGE_MARGIN, y, { align: 'right' });
+    }
+  }
+}
+
+function writeRenders(writer: TechPackWriter, views: TechPackView[]): void {
+  const columns = views.length > 1 ? 2 : 1;
+  const gap = 6;
+  const cellWidth = (writer.contentWidth - gap * (columns - 1)) / columns;
+  const maxHeight = columns > 1 ? 105 : 180;
+
+  for (let i = 0; i < views.length; i += columns) {
+    const row = views.slice(i, i + columns);
+    const heights = row.map((view) => Math.min(maxHeight, (cellWidth * view.height) / view.width));
+    const rowHeight = Math.max(...heights) + 8;
+    writer.ensureSpace(rowHeight);
+
+    row.forEach((view, index) => {
+      const ratio = view.width / view.height;
+      const height = heights[index];
+      const width = Math.min(cellWidth, height * ratio);
+      const x = PAGE_MARGIN + index * (cellWidth + gap) + (cellWidth - width) / 2;
+      const format = view.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+      writer.doc.setDrawColor(225, 228, 232);
+      writer.doc.rect(PAGE_MARGIN + index * (cellWidth + gap), writer.y, cellWidth, height, 'S');
+      writer.doc.addImage(view.dataUrl, format, x, writer.y, width, height);
+      writer.doc.setFont(FONT, 'normal');
+      writer.doc.setFontSize(9);
+      writer.doc.setTextColor(90, 90, 90);
+      writer.doc.text(view.name, PAGE_MARGIN + index * (cellWidth + gap) + cellWidth / 2, writer.y + height + 4.5, {
+        align: 'center',
+      });
+    });
+    writer.y += rowHeight;
+  }
+}
+
+function writeMaterials(writer: TechPackWriter, design: TechPackDesign): void {
+  const rows: TableCell[][] = Object.values(ComponentType).map((component) => {
+    const material = materials.get(design.materialMap[component] || '');
+    const color = design.colorMap[component] || material?.properties.baseColor || null;
+    const pattern = design.patternMap[component];
+    const patternName = pattern ? patterns.get(pattern.patternId)?.properties.name ?? pattern.patternId : '-';
+    return [
+      COMPONENT_LABELS[component],
+      material ? material.properties.name : '-',
+      color ? { text: color.toUpperCase(), swatch: color } : '-',
+      pattern ? `${patternName} (${Math.round(pattern.scale * 100)}%, ${Math.round(pattern.rotation)}°)` : patternName,
+    ];
+  });
+
+  writer.heading('Materials and Colors');
+  writer.table(
+    [
+      { header: 'Component', width: 38 },
+      { header: 'Material', width: 52 },
+      { header: 'Color', width: 32 },
+      { header: 'Pattern', width: 58 },
+    ],
+    rows
+  );
+}
+
+function writePrints(writer: TechPackWriter, design: TechPackDesign): void {
+  const rows: TableCell[][] = [];
+  Object.values(ComponentType).forEach((component) => {
+    (design.printMap[component] || []).forEach((print) => {
+      const size = design.printSizes?.[print.id];
+      const name = getPrintName(print);
+      const color = print.textContent ? print.textStyle?.color : undefined;
+      rows.push([
+        COMPONENT_LABELS[component],
+        color ? { text: name, swatch: color } : name,
+        getZoneName(print),
+        `${print.position.x.toFixed(3)}, ${print.position.y.toFixed(3)}`,
+        size ? `${size.width.toFixed(1)} x ${size.height.toFixed(1)}` : '-',
+        `${Math.round(print.rotation)}°`,
+        `${Math.round(print.opacity * 100)}%`,
+      ]);
+    });
+  });
+
+  writer.heading('Print Placement');
+  if (rows.length === 0) {
+    writer.paragraph('No prints on this design.');
+    return;
+  }
+  writer.paragraph('Positions are UV coordinates of the print center (0-1, origin top left). Sizes are in inches, as drawn in the print artwork.', 9);
+  writer.table(
+    [
+      { header: 'Component', width: 24 },
+      { header: 'Print', width: 44 },
+      { header: 'Zone', width: 30 },
+      { header: 'UV (x, y)', width: 26 },
+      { header: 'Size (in)', width: 22 },
+      { header: 'Rotation', width: 17, align: 'right' },
+      { header: 'Opacity', width: 17, align: 'right' },
+    ],
+    rows
+  );
+}
+
+function writePrice(writer: TechPackWriter, design: TechPackDesign): void {
+  const breakdown = calculatePrice(design);
+  const order = generateOrderSummary();
+  const price = (amount: number) => formatPrice(amount, breakdown.currency);
+
+  writer.heading('Price Summary');
+  writer.table(
+    [
+      { header: 'Item', width: 140 },
+      { header: 'Amount', width: 40, align: 'right' },
+    ],
+    [...breakdown.lines.map((line) => [line.label, price(line.amount)]), ['Price per garment', price(breakdown.total)]]
+  );
+
+  if (order) {
+    writer.heading('Order', 12);
+    writer.table(
+      [
+        { header: 'Size', width: 40 },
+        { header: 'Quantity', width: 40, align: 'right' },
+        { header: 'Unit price', width: 50, align: 'right' },
+        { header: 'Total', width: 50, align: 'right' },
+      ],
+      [
+        ...order.lines.map((line) => [line.size, String(line.quantity), price(line.unitPrice), price(line.total)]),
+        ['Order total', String(order.totalQuantity), '', price(order.total)],
+      ]
+    );
+    if (order.tier.discount > 0) {
+      writer.paragraph(
+        `Includes a ${Math.round(order.tier.discount * 100)}% quantity discount (-${price(order.discountTotal)}).`,
+        9
+      );
+    }
   }
 }
 
 /**
- * Alternative: Export as PDF using download (creates PDF-like file)
- * This creates a downloadable file that can be opened as PDF
+ * Build the tech pack PDF
+ * @param views - Renders for the first page, e.g. front, back and sides
+ * @param design - Design to document; defaults to the configurator's current design
+ * @returns PDF blob
  */
-export async function exportCanvasAsPDFDownload(
-  canvas: HTMLCanvasElement,
-  options: PDFExportOptions = {}
-): Promise<void> {
-  const { filename = `shirt-design-${Date.now()}` } = options;
+export function createTechPackPDF(
+  views: TechPackView[],
+  options: PDFExportOptions = {},
+  design: TechPackDesign = getTechPackDesign()
+): Blob {
+  const { title = 'Shirt Design', includeMetadata = true } = options;
+  const writer = new TechPackWriter();
+  writer.doc.setProperties({ title: `${title} - Tech Pack`, creator: 'Shirt Configurator' });
+
+  writer.heading(`${title} - Tech Pack`, 20);
+  writer.paragraph(
+    [
+      `Generated ${new Date().toLocaleString()}`,
+      `Mode: ${design.mode}`,
+      design.colorway ? `Colorway: ${design.colorway}` : null,
+    ]
+      .filter(Boolean)
+      .join('  |  ')
+  );
+  writeRenders(writer, views);
+
+  if (includeMetadata) {
+    writer.newPage();
+    writeMaterials(writer, design);
+    writer.y += 4;
+    writePrints(writer, design);
+    writer.newPage();
+    writePrice(writer, design);
+  }
+
+  writer.footer(title);
+  return writer.doc.output('blob');
+}
+
+/**
+ * Generate the tech pack PDF and download it
+ */
+export async function exportTechPackPDF(views: TechPackView[], options: PDFExportOptions = {}): Promise<void> {
+  const { filename = `shirt-design-${Date.now()}`, title = 'Shirt Design', sink } = options;
 
   try {
-    // For now, we'll export as high-res PNG and suggest user converts to PDF
-    // A full PDF implementation would require jsPDF library
-    await exportCanvasAsImage(canvas, {
-      format: 'png',
-      filename: `${filename}-for-pdf`,
-      width: canvas.width * 2, // High resolution
-      height: canvas.height * 2,
-    });
+    const blob = createTechPackPDF(views, options, await measureTechPackPrints(getTechPackDesign()));
+    downloadBlob(blob, `${filename}.pdf`, sink);
 
-    logger.info('High-res image exported for PDF conversion', {
+    logger.info('PDF exported', {
       context: 'pdfExport',
-      metadata: { filename },
+      metadata: { filename, title, views: views.map((view) => view.name), size: blob.size },
     });
-
-    // Note: User can convert PNG to PDF using external tools or browser print
   } catch (error) {
-    logger.error('Failed to export for PDF', {
+    logger.error('Failed to export as PDF', {
       context: 'pdfExport',
       error: error instanceof Error ? error : new Error(String(error)),
       metadata: { filename },
@@ -136,3 +447,16 @@ export async function exportCanvasAsPDFDownload(
   }
 }
 
+/**
+ * Export the canvas as it is shown now as a tech pack PDF
+ * Use exportTechPackPDF to include several views
+ */
+export async function exportCanvasAsPDF(
+  canvas: HTMLCanvasElement,
+  options: PDFExportOptions = {}
+): Promise<void> {
+  await exportTechPackPDF(
+    [{ name: 'Current view', dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height }],
+    options
+  );
+}
@@ -0,0 +1,167 @@
+import { zlibSync, unzlibSync, strToU8, strFromU8 } from 'fflate';
+
+/**
+ * PNG Chunks
+ * Reads and writes ancillary chunks of PNG files (physical pixel size, text metadata and similar)
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Check the 8-byte PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Encode one chunk: length, type, data and CRC
+ */
+export function encodePngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * List the chunks of a PNG file in order
+ * @throws When the bytes are not a PNG file
+ */
+export function readPngChunks(png: Uint8Array): { type: string; data: Uint8Array }[] {
+  if (!isPng(png)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  let offset = 8;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/**
+ * Insert chunks right after the IHDR chunk, replacing existing chunks of the same types
+ * @throws When the bytes are not a PNG file
+ */
+export function insertPngChunks(png: Uint8Array, chunks: { type: string; data: Uint8Array }[]): Uint8Array {
+  if (!isPng(png)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const replaced = new Set(chunks.map((chunk) => chunk.type));
+  const parts: Uint8Array[] = [png.subarray(0, 8)];
+
+  let offset = 8;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (!replaced.has(type)) {
+      parts.push(png.subarray(offset, end));
+    }
+    if (type === 'IHDR') {
+      chunks.forEach((chunk) => parts.push(encodePngChunk(chunk.type, chunk.data)));
+    }
+    offset = end;
+  }
+
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    result.set(part, position);
+    position += part.length;
+  });
+  return result;
+}
+
+/**
+ * Record the print resolution in a PNG (pHYs chunk), so image tools open it at its physical size
+ */
+export function setPngDpi(png: Uint8Array, dpi: number): Uint8Array {
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, pixelsPerMeter);
+  view.setUint32(4, pixelsPerMeter);
+  data[8] = 1; // Unit: meter
+  return insertPngChunks(png, [{ type: 'pHYs', data }]);
+}
+
+/**
+ * Encode a compressed UTF-8 text entry (iTXt chunk data)
+ * @param keyword - 1-79 Latin-1 characters naming the entry
+ */
+export function encodePngText(keyword: string, text: string): Uint8Array {
+  const header = strToU8(`${keyword}\0`, true);
+  const body = zlibSync(strToU8(text));
+  const data = new Uint8Array(header.length + 4 + body.length);
+  data.set(header, 0);
+  data[header.length] = 1; // Compressed
+  data[header.length + 1] = 0; // zlib
+  // Empty language tag and translated keyword, each null-terminated
+  data.set(body, header.length + 4);
+  return data;
+}
+
+function splitAtNull(data: Uint8Array, start: number): [Uint8Array, number] {
+  const end = data.indexOf(0, start);
+  return end === -1 ? [data.subarray(start), data.length] : [data.subarray(start, end), end + 1];
+}
+
+/**
+ * Read a text entry from tEXt, zTXt or iTXt chunks
+ * @returns The text of the first entry with this keyword, if any
+ * @throws When the bytes are not a PNG file
+ */
+export function readPngText(png: Uint8Array, keyword: string): string | undefined {
+  for (const { type, data } of readPngChunks(png)) {
+    if (type !== 'tEXt' && type !== 'zTXt' && type !== 'iTXt') continue;
+
+    const [name, offset] = splitAtNull(data, 0);
+    if (strFromU8(name, true) !== keyword) continue;
+
+    if (type === 'tEXt') {
+      return strFromU8(data.subarray(offset), true);
+    }
+    if (type === 'zTXt') {
+      return strFromU8(unzlibSync(data.subarray(offset + 1)), true);
+    }
+
+    const compressed = data[offset] === 1;
+    const [, afterLanguage] = splitAtNull(data, offset + 2);
+    const [, textOffset] = splitAtNull(data, afterLanguage);
+    const text = data.subarray(textOffset);
+    return strFromU8(compressed ? unzlibSync(text) : text);
+  }
+  return undefined;
+}
@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+
+/**
+ * Render Capture
+ * Helpers for rendering the viewer scene at an exact output size from cameras other than the live one,
+ * independent of the viewer's size and the frame loop
+ */
+
+/**
+ * Copy of a camera placed at `position`, looking at `target`, with the given aspect ratio
+ * The live camera is never moved.
+ */
+export function createViewCamera(
+  camera: THREE.Camera,
+  position: THREE.Vector3Tuple | THREE.Vector3,
+  target: THREE.Vector3Tuple | THREE.Vector3,
+  aspect: number
+): THREE.Camera {
+  const viewCamera = camera.clone();
+  if ((viewCamera as THREE.PerspectiveCamera).isPerspectiveCamera) {
+    (viewCamera as THREE.PerspectiveCamera).aspect = aspect;
+    (viewCamera as THREE.PerspectiveCamera).updateProjectionMatrix();
+  }
+
+  const from = Array.isArray(position) ? new THREE.Vector3(...position) : position;
+  const to = Array.isArray(target) ? new THREE.Vector3(...target) : target;
+  viewCamera.position.copy(from);
+  // Looking straight down or up along the up axis has no defined roll; use -Z as up instead
+  const direction = to.clone().sub(from).normalize();
+  viewCamera.up.set(0, 1, 0);
+  if (Math.abs(direction.y) > 0.999) {
+    viewCamera.up.set(0, 0, -1);
+  }
+  viewCamera.lookAt(to);
+  viewCamera.updateMatrixWorld();
+  return viewCamera;
+}
+
+/**
+ * Resize the renderer's drawing buffer to width x height (pixel ratio 1) while `render` runs
+ * Read the canvas in the same task as each render call; the previous size is restored afterwards.
+ */
+export async function withRendererSize<T>(
+  renderer: THREE.WebGLRenderer,
+  width: number,
+  height: number,
+  render: () => Promise<T>
+): Promise<T> {
+  const previousSize = renderer.getSize(new THREE.Vector2());
+  const previousPixelRatio = renderer.getPixelRatio();
+  renderer.setPixelRatio(1);
+  renderer.setSize(width, height, false);
+
+  try {
+    return await render();
+  } finally {
+    renderer.setPixelRatio(previousPixelRatio);
+    renderer.setSize(previousSize.x, previousSize.y, false);
+  }
+}
@@ -0,0 +1,85 @@
+import { zipSync, Zippable, strToU8 } from 'fflate';
+import { logger } from '@/lib/logger';
+import { DesignMetadata } from './designMetadata';
+import { downloadBlob, DownloadSink } from './download';
+
+/**
+ * Roster Export
+ * Bundles one render and one spec per team roster row into a ZIP archive
+ */
+
+export interface RosterRender {
+  label: string; // Row label, used for the file names
+  values: Record<string, string>; // The row's cells
+  personalization: { component: string; field: string; text: string | null }[]; // Bound prints; null when left off
+  image: Blob; // PNG render
+}
+
+/**
+ * Spec written next to each render
+ */
+export interface RosterSpec {
+  row: number; // 1-based, in roster order
+  values: Record<string, string>;
+  personalization: RosterRender['personalization'];
+  design: DesignMetadata;
+}
+
+function toFileName(index: number, label: string): string {
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const number = String(index + 1).padStart(3, '0');
+  return slug ? `${number}-${slug}` : number;
+}
+
+/**
+ * Zip the roster renders: a PNG and a JSON spec per row
+ * @param renders - One render per row, in roster order
+ * @param metadata - Metadata of the shared design
+ * @returns Archive blob
+ */
+export async function createRosterArchive(renders: RosterRender[], metadata: DesignMetadata): Promise<Blob> {
+  const files: Zippable = {};
+
+  for (const [index, render] of renders.entries()) {
+    const name = toFileName(index, render.label);
+    const spec: RosterSpec = {
+      row: index + 1,
+      values: render.values,
+      personalization: render.personalization,
+      design: metadata,
+    };
+    files[`${name}.png`] = [new Uint8Array(await render.image.arrayBuffer()), { level: 0 }]; // Already compressed
+    files[`${name}.json`] = strToU8(JSON.stringify(spec, null, 2));
+  }
+
+  return new Blob([zipSync(files) as BlobPart], { type: 'application/zip' });
+}
+
+/**
+ * Zip the roster renders and download the archive
+ */
+export async function exportRosterArchive(
+  renders: RosterRender[],
+  metadata: DesignMetadata,
+  filename: string = `shirt-roster-${Date.now()}`,
+  sink?: DownloadSink
+): Promise<void> {
+  try {
+    const archive = await createRosterArchive(renders, metadata);
+    downloadBlob(archive, `${filename}.zip`, sink);
+
+    logger.info('Roster exported', {
+      context: 'rosterExport',
+      metadata: { filename, rows: renders.length, size: archive.size },
+    });
+  } catch (error) {
+    logger.error('Failed to export roster', {
+      context: 'rosterExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    throw error;
+  }
+}
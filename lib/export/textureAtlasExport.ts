@@ -0,0 +1,187 @@
+import { zipSync, Zippable, strToU8 } from 'fflate';
+import * as THREE from 'three';
+import { ComponentType, ComponentMap, COMPONENT_LABELS } from '@/types/models';
+import { ResolvedColorway } from '@/lib/designVariants';
+import { logger } from '@/lib/logger';
+import { captureCanvasImage } from './colorwayExport';
+import { downloadBlob, DownloadSink } from './download';
+
+/**
+ * Texture Atlas Export
+ * Bakes the albedo each component shows in the viewer (base material map or print composite,
+ * multiplied by the color tint) into one PNG per component, for use in game engines and other
+ * renderers. Textures are in the model's UV space with a top-left origin, as glTF expects.
+ *
+ *   manifest.json           files, mesh names and the design behind each texture
+ *   textures/<component>.png
+ */
+
+const ATLAS_FORMAT = 'shirt-texture-atlas';
+const ATLAS_VERSION = 1;
+
+export const DEFAULT_ATLAS_SIZE = 2048; // Matches the print composite resolution
+
+interface ComponentTexture {
+  component: ComponentType;
+  material: THREE.MeshStandardMaterial;
+  meshes: string[];
+}
+
+export interface TextureAtlasManifest {
+  format: typeof ATLAS_FORMAT;
+  version: number;
+  createdAt: string;
+  size: number; // Width and height of every texture, in pixels
+  uvOrigin: 'top-left';
+  textures: {
+    file: string;
+    component: ComponentType;
+    label: string;
+    meshes: string[]; // Mesh names from the component map
+    materialId: string | null;
+    color: string | null;
+    prints: number;
+  }[];
+}
+
+/**
+ * Group the model's meshes by component and material
+ * Meshes of one component usually share a material; any that don't get their own texture
+ */
+export function collectComponentTextures(root: THREE.Object3D, componentMap: ComponentMap): ComponentTexture[] {
+  const textures = new Map<string, ComponentTexture>();
+
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+
+    const meshName = mesh.name || `mesh_${mesh.uuid}`;
+    const component = componentMap[meshName];
+    const material = (Array.isArray(mesh.material) ? mesh.material[0] : mesh.material) as THREE.MeshStandardMaterial;
+    if (!component || !material?.color) return;
+
+    const key = `${component}:${material.uuid}`;
+    const entry = textures.get(key);
+    if (entry) {
+      entry.meshes.push(meshName);
+    } else {
+      textures.set(key, { component, material, meshes: [meshName] });
+    }
+  });
+
+  return Array.from(textures.values());
+}
+
+/**
+ * Bake a material's map and color into a square canvas
+ */
+export function bakeAlbedoCanvas(material: THREE.MeshStandardMaterial, size: number = DEFAULT_ATLAS_SIZE): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to create texture canvas context');
+  }
+
+  const image = material.map?.image as CanvasImageSource | undefined;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  if (image) {
+    ctx.drawImage(image, 0, 0, size, size);
+  }
+
+  // The shader multiplies the map by the material color
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.fillStyle = `#${material.color.getHexString(THREE.SRGBColorSpace)}`;
+  ctx.fillRect(0, 0, size, size);
+
+  return canvas;
+}
+
+/**
+ * Bake a material's map and color into a square PNG
+ */
+export function bakeAlbedo(material: THREE.MeshStandardMaterial, size: number = DEFAULT_ATLAS_SIZE): Promise<Blob> {
+  return captureCanvasImage(bakeAlbedoCanvas(material, size));
+}
+
+/**
+ * Bake every component's texture and zip them with a manifest
+ * @param root - Scene or model holding the component meshes
+ * @param componentMap - Mesh name -> component
+ * @param design - Active colorway maps, recorded in the manifest
+ * @returns Archive blob
+ */
+export async function createTextureAtlasArchive(
+  root: THREE.Object3D,
+  componentMap: ComponentMap,
+  design: ResolvedColorway,
+  size: number = DEFAULT_ATLAS_SIZE
+): Promise<Blob> {
+  const textures = collectComponentTextures(root, componentMap);
+  if (textures.length === 0) {
+    throw new Error('No component meshes found to bake');
+  }
+
+  const files: Zippable = {};
+  const manifest: TextureAtlasManifest = {
+    format: ATLAS_FORMAT,
+    version: ATLAS_VERSION,
+    createdAt: new Date().toISOString(),
+    size,
+    uvOrigin: 'top-left',
+    textures: [],
+  };
+
+  for (const texture of textures) {
+    let name = texture.component as string;
+    for (let i = 2; `textures/${name}.png` in files; i++) {
+      name = `${texture.component}-${i}`;
+    }
+    const file = `textures/${name}.png`;
+
+    const blob = await bakeAlbedo(texture.material, size);
+    files[file] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }]; // Already compressed
+    manifest.textures.push({
+      file,
+      component: texture.component,
+      label: COMPONENT_LABELS[texture.component],
+      meshes: texture.meshes,
+      materialId: design.materialMap[texture.component] ?? null,
+      color: design.colorMap[texture.component] ?? null,
+      prints: design.printMap[texture.component]?.length ?? 0,
+    });
+  }
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files) as BlobPart], { type: 'application/zip' });
+}
+
+/**
+ * Bake every component's texture and download the archive
+ */
+export async function exportTextureAtlas(
+  root: THREE.Object3D,
+  componentMap: ComponentMap,
+  design: ResolvedColorway,
+  size: number = DEFAULT_ATLAS_SIZE,
+  filename: string = `shirt-textures-${Date.now()}`,
+  sink?: DownloadSink
+): Promise<void> {
+  try {
+    const archive = await createTextureAtlasArchive(root, componentMap, design, size);
+    downloadBlob(archive, `${filename}.zip`, sink);
+
+    logger.info('Texture atlas exported', {
+      context: 'textureAtlasExport',
+      metadata: { filename, size, archiveSize: archive.size },
+    });
+  } catch (error) {
+    logger.error('Failed to export texture atlas', {
+      context: 'textureAtlasExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    throw error;
+  }
+}
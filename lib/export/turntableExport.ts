@@ -0,0 +1,216 @@
+import * as THREE from 'three';
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { logger } from '@/lib/logger';
+import { CAMERA_PRESETS } from '@/lib/cameraPresets';
+import { downloadBlob, DownloadSink } from './download';
+import { createViewCamera, withRendererSize } from './renderCapture';
+
+/**
+ * Turntable Export
+ * Orbits a copy of the camera 360° around the model and encodes the frames as WebM or animated GIF.
+ * Frames are rendered explicitly at fixed angles, independent of the live frame loop.
+ */
+
+export interface TurntableOptions {
+  format: 'webm' | 'gif';
+  frames: number; // Frames per full turn
+  fps: number; // Playback speed
+  width: number; // Output resolution in pixels
+  height: number;
+  background: string; // Hex color behind the model
+}
+
+export const DEFAULT_TURNTABLE_OPTIONS: TurntableOptions = {
+  format: 'webm',
+  frames: 72,
+  fps: 24,
+  width: 800,
+  height: 800,
+  background: '#ffffff',
+};
+
+const ORBIT_TARGET = new THREE.Vector3(...CAMERA_PRESETS.front.target);
+
+/**
+ * Camera for one turntable frame
+ * The orbit keeps the live camera's distance and height around the preset target and starts at its
+ * current angle, so the first frame matches the view on screen.
+ */
+export function getTurntableCamera(
+  camera: THREE.Camera,
+  frame: number,
+  frames: number,
+  aspect: number
+): THREE.Camera {
+  const offset = camera.position.clone().sub(ORBIT_TARGET);
+  let radius = Math.hypot(offset.x, offset.z);
+  if (radius < 0.01) {
+    radius = new THREE.Vector3(...CAMERA_PRESETS.front.position).distanceTo(ORBIT_TARGET);
+  }
+  const angle = Math.atan2(offset.x, offset.z) + (2 * Math.PI * frame) / frames;
+
+  const position = new THREE.Vector3(
+    ORBIT_TARGET.x + Math.sin(angle) * radius,
+    ORBIT_TARGET.y + offset.y,
+    ORBIT_TARGET.z + Math.cos(angle) * radius
+  );
+  return createViewCamera(camera, position, ORBIT_TARGET, aspect);
+}
+
+/**
+ * Render every frame into frameCanvas (background filled in) and hand it to onFrame
+ * @param signal - Stops before the next frame once aborted
+ */
+async function renderTurntableFrames(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: TurntableOptions,
+  frameCanvas: HTMLCanvasElement,
+  onFrame: (index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const ctx = frameCanvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  try {
+    await withRendererSize(renderer, options.width, options.height, async () => {
+      for (let i = 0; i < options.frames; i++) {
+        signal?.throwIfAborted();
+        // Render and copy in one task so nothing else draws in between
+        renderer.render(scene, getTurntableCamera(camera, i, options.frames, options.width / options.height));
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, options.width, options.height);
+        ctx.drawImage(renderer.domElement, 0, 0, options.width, options.height);
+        await onFrame(i);
+      }
+    });
+  } finally {
+    renderer.render(scene, camera);
+  }
+}
+
+async function encodeGif(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: TurntableOptions,
+  frameCanvas: HTMLCanvasElement,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const ctx = frameCanvas.getContext('2d', { willReadFrequently: true })!;
+  const gif = GIFEncoder();
+  const delay = Math.round(1000 / options.fps);
+
+  await renderTurntableFrames(renderer, scene, camera, options, frameCanvas, async () => {
+    const { data } = ctx.getImageData(0, 0, options.width, options.height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), options.width, options.height, { palette, delay, repeat: 0 });
+    // Keep the page responsive between frames
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }, signal);
+
+  gif.finish();
+  return new Blob([gif.bytes() as BlobPart], { type: 'image/gif' });
+}
+
+async function encodeWebm(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: TurntableOptions,
+  frameCanvas: HTMLCanvasElement,
+  signal?: AbortSignal
+): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined' || !frameCanvas.captureStream) {
+    throw new Error('This browser cannot record WebM video; export a GIF instead');
+  }
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+  if (!mimeType) {
+    throw new Error('This browser cannot record WebM video; export a GIF instead');
+  }
+
+  // MediaRecorder timestamps frames by wall-clock time, so frames are pushed by hand (frame rate 0)
+  // on a fixed schedule from the start; a late frame doesn't delay the ones after it. Hidden tabs
+  // throttle timers to a second or more, so recording needs the tab in the foreground.
+  if (document.hidden) {
+    throw new Error('Keep this tab in the foreground to record WebM video, or export a GIF instead');
+  }
+  const stream = frameCanvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  const start = performance.now();
+  try {
+    await renderTurntableFrames(renderer, scene, camera, options, frameCanvas, async (index) => {
+      if (document.hidden) {
+        throw new Error('The tab was hidden while recording WebM video; keep it in the foreground or export a GIF');
+      }
+      track.requestFrame();
+      const next = start + ((index + 1) * 1000) / options.fps;
+      await new Promise((resolve) => setTimeout(resolve, Math.max(0, next - performance.now())));
+    }, signal);
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach((t) => t.stop());
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+/**
+ * Render the turntable and download it
+ * @param camera - Live camera; it is copied, never moved
+ * @param sink - Receives the file instead of the browser
+ * @param signal - Cancels the export between frames
+ */
+export async function exportTurntable(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: TurntableOptions = DEFAULT_TURNTABLE_OPTIONS,
+  filename: string = `shirt-turntable-${Date.now()}`,
+  sink?: DownloadSink,
+  signal?: AbortSignal
+): Promise<void> {
+  if (options.frames < 2 || options.width < 16 || options.height < 16 || options.fps <= 0) {
+    throw new Error('Turntable needs at least 2 frames, a positive frame rate and a size of 16 px or more');
+  }
+
+  try {
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = options.width;
+    frameCanvas.height = options.height;
+
+    const blob =
+      options.format === 'gif'
+        ? await encodeGif(renderer, scene, camera, options, frameCanvas, signal)
+        : await encodeWebm(renderer, scene, camera, options, frameCanvas, signal);
+    downloadBlob(blob, `${filename}.${options.format}`, sink);
+
+    logger.info('Turntable exported', {
+      context: 'turntableExport',
+      metadata: { filename, ...options, size: blob.size },
+    });
+  } catch (error) {
+    logger.error('Failed to export turntable', {
+      context: 'turntableExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+      metadata: { ...options },
+    });
+    throw error;
+  }
+}
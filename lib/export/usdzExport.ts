@@ -0,0 +1,39 @@
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js';
+import * as THREE from 'three';
+import { logger } from '../logger';
+import { downloadBlob, DownloadSink } from './download';
+
+/**
+ * USDZ Export
+ * Writes a scene as USDZ for AR Quick Look on retail product pages
+ */
+
+/**
+ * Export a scene as USDZ
+ * Only MeshStandardMaterial meshes are written, and textures are capped at 1024px by the exporter
+ */
+export async function exportSceneAsUSDZ(
+  scene: THREE.Object3D,
+  filename: string = `shirt-design-${Date.now()}`,
+  sink?: DownloadSink
+): Promise<void> {
+  try {
+    scene.updateMatrixWorld(true);
+    const exporter = new USDZExporter();
+    const bytes = await exporter.parse(scene, { quickLookCompatible: true });
+    const blob = new Blob([bytes as BlobPart], { type: 'model/vnd.usdz+zip' });
+    downloadBlob(blob, `${filename}.usdz`, sink);
+
+    logger.info('Scene exported as USDZ', {
+      context: 'usdzExport',
+      metadata: { filename, size: blob.size },
+    });
+  } catch (error) {
+    logger.error('Failed to export scene as USDZ', {
+      context: 'usdzExport',
+      error: error instanceof Error ? error : new Error(String(error)),
+      metadata: { filename },
+    });
+    throw error;
+  }
+}
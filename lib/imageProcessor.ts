@@ -180,3 +180,30 @@ export async function processImageFiles(files: File[]): Promise<ProcessedImage[]
   return Promise.all(files.map(processImageFile));
 }
 
+
+/**
+ * Convert a blob to a data URL
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read blob'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Make an image URL survive a page reload
+ * Object URLs (blob:) only live as long as the document, so they are inlined as data URLs
+ */
+export async function toPersistentImageUrl(url: string): Promise<string> {
+  if (!url.startsWith('blob:')) {
+    return url;
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to read image: ${url}`);
+  }
+  return blobToDataUrl(await response.blob());
+}
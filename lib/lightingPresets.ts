@@ -139,3 +139,28 @@ export function applyLightingPreset(scene: THREE.Scene, preset: LightingPreset):
 
 
 
+
+/**
+ * Light the scene with a preset until the returned function is called
+ * Used by exports that need a specific lighting without changing the viewer's preset.
+ * @returns Restores the lights the scene had before
+ */
+export function swapLightingPreset(scene: THREE.Scene, preset: LightingPreset): () => void {
+  const previous: { light: THREE.Object3D; parent: THREE.Object3D }[] = [];
+  scene.traverse((object) => {
+    if (object instanceof THREE.AmbientLight || object instanceof THREE.DirectionalLight || object instanceof THREE.HemisphereLight) {
+      if (object.parent) previous.push({ light: object, parent: object.parent });
+    }
+  });
+  previous.forEach(({ light, parent }) => parent.remove(light));
+
+  applyLightingPreset(scene, preset);
+  const added = scene.children.filter(
+    (object) => object instanceof THREE.AmbientLight || object instanceof THREE.DirectionalLight || object instanceof THREE.HemisphereLight
+  );
+
+  return () => {
+    added.forEach((light) => scene.remove(light));
+    previous.forEach(({ light, parent }) => parent.add(light));
+  };
+}
@@ -1,12 +1,20 @@
 import * as THREE from 'three';
 import { PatternProperties, PatternApplication } from '@/types/patterns';
 import { loadTexture, disposeTexture } from './textureLoader';
+import { createProceduralTile, resolveProceduralParams } from './proceduralPatterns';
+import { hasCustomColors, recolorPatternImage, resolvePatternColors } from './patternPalette';
 
 /**
  * Pattern Manager class for applying patterns to materials
+ * Patterns are baked into a UV-space canvas texture on top of the material's own map, so prints can
+ * be composited on the result like on any other base texture.
  */
 class PatternManager {
   private patternCache: Map<string, THREE.Texture> = new Map();
+  private textureCache: Map<string, THREE.CanvasTexture> = new Map();
+  private recolorCache: Map<string, HTMLCanvasElement> = new Map(); // Recolored texture tiles
+  private readonly textureSize = 2048; // Patterned texture resolution
+  private readonly maxCachedTextures = 16; // Slider drags create a texture per step
 
   /**
    * Apply pattern to a material
@@ -20,36 +28,18 @@ class PatternManager {
     application: PatternApplication
   ): Promise<void> {
     try {
-      // Load pattern texture
-      const texture = await this.getPatternTexture(pattern.textures.diffuse || '');
-
-      if (texture) {
-        // Clone texture to avoid affecting other materials
-        const patternTexture = texture.clone();
-
-        // Apply pattern settings
-        patternTexture.wrapS = THREE.RepeatWrapping;
-        patternTexture.wrapT = THREE.RepeatWrapping;
-        patternTexture.repeat.set(application.scale, application.scale);
-        patternTexture.rotation = (application.rotation * Math.PI) / 180; // Convert to radians
-
-        // Apply as overlay on existing map or as new map
-        if (material.map) {
-          // Blend pattern with existing texture
-          material.map = this.blendTextures(material.map, patternTexture, application.intensity);
-        } else {
-          // Use pattern as base texture
-          material.map = patternTexture;
-          material.alphaTest = 0.1;
-        }
+      const patternTexture = await this.createPatternTexture(material.map, pattern, application);
+      if (patternTexture) {
+        material.map = patternTexture;
+        material.needsUpdate = true;
+      }
 
-        // Load normal map if available
-        if (pattern.textures.normal) {
-          const normalTexture = await this.getPatternTexture(pattern.textures.normal);
-          if (normalTexture) {
-            material.normalMap = normalTexture.clone();
-            material.normalMapType = THREE.TangentSpaceNormalMap;
-          }
+      // Load normal map if available
+      if (pattern.textures.normal) {
+        const normalTexture = await this.getPatternTexture(pattern.textures.normal);
+        if (normalTexture) {
+          material.normalMap = normalTexture.clone();
+          material.normalMapType = THREE.TangentSpaceNormalMap;
         }
       }
     } catch (error) {
@@ -57,6 +47,78 @@ class PatternManager {
     }
   }
 
+  /**
+   * Bake a pattern over a base texture
+   * Procedural patterns are generated from the application's params and palette colors; other
+   * patterns tile their diffuse texture, recolored when the application changes its palette colors.
+   * @param baseTexture - Material map to draw the pattern on; white when null
+   * @returns Patterned texture (cached), or null when the pattern has no texture
+   */
+  async createPatternTexture(
+    baseTexture: THREE.Texture | null,
+    pattern: PatternProperties,
+    application: PatternApplication
+  ): Promise<THREE.CanvasTexture | null> {
+    const { procedural } = pattern;
+    const params = procedural ? resolveProceduralParams(procedural, application) : null;
+    const colors = resolvePatternColors(pattern, application);
+    const cacheKey = [
+      baseTexture ? baseTexture.uuid : 'no-base',
+      application.patternId,
+      application.intensity,
+      application.scale,
+      application.rotation,
+      params ? `${params.spacing}:${params.thickness}:${params.angle}` : '',
+      colors.join(','),
+    ].join('|');
+
+    const cached = this.textureCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let tile: CanvasImageSource | null = null;
+    let repeats = application.scale;
+    let rotation = application.rotation;
+    if (procedural && params) {
+      tile = createProceduralTile(procedural, application, colors);
+      repeats *= params.spacing;
+      rotation += params.angle;
+    } else {
+      const texturePath = pattern.textures.diffuse || '';
+      const texture = await this.getPatternTexture(texturePath);
+      const image = texture?.image as (CanvasImageSource & { width: number; height: number }) | undefined;
+      tile = image ?? null;
+      if (image && pattern.palette && hasCustomColors(pattern, application)) {
+        tile = this.getRecoloredTile(texturePath, image, pattern, colors);
+      }
+    }
+    if (!tile) {
+      return null;
+    }
+
+    const canvas = this.blendTextures(baseTexture, tile, {
+      intensity: application.intensity,
+      repeats,
+      rotation,
+    });
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.flipY = false;
+    texture.colorSpace = baseTexture?.colorSpace ?? THREE.SRGBColorSpace;
+    texture.needsUpdate = true;
+
+    this.textureCache.set(cacheKey, texture);
+    if (this.textureCache.size > this.maxCachedTextures) {
+      // Evict the oldest; a texture still on a material is uploaded again when next rendered
+      const [oldestKey, oldest] = this.textureCache.entries().next().value!;
+      oldest.dispose();
+      this.textureCache.delete(oldestKey);
+    }
+    return texture;
+  }
+
   /**
    * Remove pattern from material
    * @param material - Three.js material
@@ -95,21 +157,77 @@ class PatternManager {
   }
 
   /**
-   * Blend two textures together
-   * @param baseTexture - Base texture
-   * @param overlayTexture - Pattern texture to overlay
-   * @param intensity - Blend intensity (0-1)
-   * @returns Blended texture (simplified - returns overlay for now)
+   * Recolor a texture tile to the given palette colors
+   * @returns Recolored copy of the tile (cached per texture and colors)
+   */
+  private getRecoloredTile(
+    texturePath: string,
+    image: CanvasImageSource & { width: number; height: number },
+    pattern: PatternProperties,
+    colors: string[]
+  ): HTMLCanvasElement {
+    const cacheKey = `${texturePath}|${colors.join(',')}`;
+    const cached = this.recolorCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const recolored = recolorPatternImage(image, pattern.palette ?? [], colors);
+    this.recolorCache.set(cacheKey, recolored);
+    if (this.recolorCache.size > this.maxCachedTextures) {
+      this.recolorCache.delete(this.recolorCache.keys().next().value!);
+    }
+    return recolored;
+  }
+
+  /**
+   * Blend a repeating pattern tile over a base texture
+   * @param baseTexture - Base texture; white when null
+   * @param tile - One repeat of the pattern
+   * @param layout - Opacity (0-1), repeats across the texture and rotation in degrees
+   * @returns Canvas with the blended texture
    */
   private blendTextures(
-    baseTexture: THREE.Texture,
-    overlayTexture: THREE.Texture,
-    intensity: number
-  ): THREE.Texture {
-    // Simplified blending - in a full implementation, you'd use a shader or canvas
-    // For now, return the overlay texture with adjusted opacity
-    // Note: alphaTest is a material property, not texture property
-    return overlayTexture;
+    baseTexture: THREE.Texture | null,
+    tile: CanvasImageSource,
+    layout: { intensity: number; repeats: number; rotation: number }
+  ): HTMLCanvasElement {
+    const size = this.textureSize;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    const baseImage = baseTexture?.image as CanvasImageSource | undefined;
+    if (baseImage) {
+      ctx.drawImage(baseImage, 0, 0, size, size);
+    } else {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, size, size);
+    }
+
+    const fill = ctx.createPattern(tile, 'repeat');
+    const tileWidth = (tile as { width: number }).width;
+    if (!fill || !tileWidth || layout.repeats <= 0) {
+      return canvas;
+    }
+
+    // Lay the tile out around the texture center, covering the square at any rotation
+    const tileScale = size / (tileWidth * layout.repeats);
+    const extent = (size * Math.SQRT2) / tileScale;
+    ctx.save();
+    ctx.globalAlpha = layout.intensity;
+    ctx.translate(size / 2, size / 2);
+    ctx.rotate((layout.rotation * Math.PI) / 180);
+    ctx.scale(tileScale, tileScale);
+    ctx.fillStyle = fill;
+    ctx.fillRect(-extent / 2, -extent / 2, extent, extent);
+    ctx.restore();
+
+    return canvas;
   }
 
   /**
@@ -120,6 +238,11 @@ class PatternManager {
       disposeTexture(texture);
     }
     this.patternCache.clear();
+    for (const texture of this.textureCache.values()) {
+      texture.dispose();
+    }
+    this.textureCache.clear();
+    this.recolorCache.clear();
   }
 }
 
@@ -0,0 +1,89 @@
+import { PatternApplication, PatternPaletteSlot, PatternProperties } from '@/types/patterns';
+import { hexToRgb, normalizeHex } from './colorUtils';
+
+/**
+ * Pattern Palettes
+ * Resolves the colors chosen for a pattern's palette slots and recolors texture patterns on a canvas
+ */
+
+/**
+ * Colors of an application, one per palette slot; missing entries use the slot defaults
+ */
+export function resolvePatternColors(
+  pattern: PatternProperties,
+  application?: Pick<PatternApplication, 'colors'> | null
+): string[] {
+  return (pattern.palette ?? []).map((slot, index) => application?.colors?.[index] || slot.color);
+}
+
+/**
+ * Whether an application changes any of the pattern's palette colors
+ */
+export function hasCustomColors(
+  pattern: PatternProperties,
+  application?: Pick<PatternApplication, 'colors'> | null
+): boolean {
+  const palette = pattern.palette ?? [];
+  return resolvePatternColors(pattern, application).some(
+    (color, index) => normalizeHex(color) !== normalizeHex(palette[index].color)
+  );
+}
+
+/**
+ * Tone of each slot, brightest first as listed; slots without one are spread evenly from 1 to 0
+ */
+function getSlotTones(palette: PatternPaletteSlot[]): number[] {
+  const last = Math.max(1, palette.length - 1);
+  return palette.map((slot, index) => slot.tone ?? 1 - index / last);
+}
+
+/**
+ * Recolor a texture pattern as a gradient map
+ * Each pixel's brightness is placed between the two slots with the nearest tones and gets the matching
+ * blend of their new colors, which keeps anti-aliased edges and fabric shading. Alpha is kept.
+ * @param image - Pattern texture image
+ * @param palette - Palette slots of the pattern
+ * @param colors - New color of each slot
+ * @returns Canvas with the recolored pattern, the size of the image
+ */
+export function recolorPatternImage(
+  image: CanvasImageSource & { width: number; height: number },
+  palette: PatternPaletteSlot[],
+  colors: string[]
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(image, 0, 0);
+  if (palette.length === 0) {
+    return canvas;
+  }
+
+  const stops = getSlotTones(palette)
+    .map((tone, index) => ({ tone, color: hexToRgb(colors[index] || palette[index].color) }))
+    .sort((a, b) => a.tone - b.tone);
+  const rgb = stops.map(({ color }) => [color.r, color.g, color.b]);
+
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = data.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const brightness = (0.2126 * pixels[i] + 0.7152 * pixels[i + 1] + 0.0722 * pixels[i + 2]) / 255;
+
+    let upper = stops.findIndex((stop) => stop.tone >= brightness);
+    if (upper === -1) upper = stops.length - 1;
+    const lower = Math.max(0, upper - 1);
+    const span = stops[upper].tone - stops[lower].tone;
+    const t = span > 0 ? Math.min(1, Math.max(0, (brightness - stops[lower].tone) / span)) : 1;
+
+    pixels[i] = rgb[lower][0] + (rgb[upper][0] - rgb[lower][0]) * t;
+    pixels[i + 1] = rgb[lower][1] + (rgb[upper][1] - rgb[lower][1]) * t;
+    pixels[i + 2] = rgb[lower][2] + (rgb[upper][2] - rgb[lower][2]) * t;
+  }
+  ctx.putImageData(data, 0, 0);
+
+  return canvas;
+}
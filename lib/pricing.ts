@@ -0,0 +1,287 @@
+import { ComponentType, COMPONENT_LABELS } from '@/types/models';
+import { MaterialLibrary } from '@/types/materials';
+import { PatternLibrary, PatternApplication } from '@/types/patterns';
+import { PrintApplication } from '@/types/prints';
+import { PrintZoneLibrary, getZoneById } from '@/types/zones';
+import {
+  PricingRules,
+  PriceBreakdown,
+  PriceLine,
+  GarmentSize,
+  QuantityTier,
+  OrderLine,
+  OrderSummary,
+} from '@/types/pricing';
+import materialsData from '@/data/materials.json';
+import patternsData from '@/data/patterns.json';
+import zonesData from '@/data/zones.json';
+import pricingData from '@/data/pricing.json';
+
+/**
+ * Pricing Engine
+ * Itemized garment price: base price, per-component material and pattern modifiers (weighted by how
+ * much fabric the component uses), premium material surcharges and print charges; and order totals
+ * across sizes with quantity-break discounts and per-size upcharges
+ */
+
+export const PRICING_RULES = pricingData as PricingRules;
+
+const materials = new Map((materialsData.materials as MaterialLibrary).map((m) => [m.id, m]));
+const patterns = new Map((patternsData.patterns as PatternLibrary).map((p) => [p.id, p]));
+const zones = (zonesData as PrintZoneLibrary).zones;
+
+/**
+ * Design maps the price depends on
+ */
+export interface PricedDesign {
+  materialMap: Record<ComponentType, string | null>;
+  patternMap: Record<ComponentType, PatternApplication | null>;
+  printMap: Record<ComponentType, PrintApplication[]>;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function getComponentShare(rules: PricingRules, component: ComponentType): number {
+  return rules.componentShares[component] ?? 0;
+}
+
+const MAX_MEASURED_PRINTS = 200;
+
+// Drawn sizes in UV units by print ID, with the print they were measured from
+const measuredPrints = new Map<string, { print: PrintApplication; width: number; height: number }>();
+
+function hasSameDrawnSize(a: PrintApplication, b: PrintApplication): boolean {
+  return (
+    a.scale === b.scale &&
+    a.textContent === b.textContent &&
+    a.textStyle?.fontFamily === b.textStyle?.fontFamily &&
+    a.textStyle?.fontSize === b.textStyle?.fontSize &&
+    a.textStyle?.fontWeight === b.textStyle?.fontWeight &&
+    a.customImageUrl === b.customImageUrl &&
+    a.width === b.width &&
+    a.height === b.height
+  );
+}
+
+/**
+ * Record the size a print is drawn at, so it is priced by that size
+ * Measuring needs the image or the font (see printTextureManager.measurePrint), so it happens
+ * asynchronously; until a print is measured its price uses the estimate of getPrintSize.
+ * @param size - Width and height in UV units
+ */
+export function recordPrintSize(print: PrintApplication, size: { width: number; height: number }): void {
+  measuredPrints.delete(print.id);
+  measuredPrints.set(print.id, { print, ...size });
+  if (measuredPrints.size > MAX_MEASURED_PRINTS) {
+    measuredPrints.delete(measuredPrints.keys().next().value as string);
+  }
+}
+
+/**
+ * Whether the drawn size of a print, as it is now, has been recorded
+ */
+export function isPrintSizeRecorded(print: PrintApplication): boolean {
+  const measured = measuredPrints.get(print.id);
+  return !!measured && hasSameDrawnSize(measured.print, print);
+}
+
+/**
+ * Printed size of a print in inches
+ * Uses the drawn size once it is recorded (see recordPrintSize). Until then, a print at scale 1 is
+ * estimated to cover the middle of its zone's allowed size range, or the default footprint without a
+ * zone, and never more than the zone's maximum print size.
+ */
+export function getPrintSize(
+  print: PrintApplication,
+  rules: PricingRules = PRICING_RULES
+): { width: number; height: number } {
+  const measured = measuredPrints.get(print.id);
+  if (measured && hasSameDrawnSize(measured.print, print)) {
+    const { uvSizeInches } = rules.prints;
+    return { width: measured.width * uvSizeInches, height: measured.height * uvSizeInches };
+  }
+
+  const zone = print.zoneId ? getZoneById(zones, print.zoneId) : undefined;
+  const { defaultFootprint, uvSizeInches } = rules.prints;
+
+  let width = defaultFootprint.width * print.scale;
+  let height = defaultFootprint.height * print.scale;
+  if (zone) {
+    const { minWidth, maxWidth, minHeight, maxHeight } = zone.sizeConstraints;
+    width = Math.min(((minWidth + maxWidth) / 2) * print.scale, maxWidth);
+    height = Math.min(((minHeight + maxHeight) / 2) * print.scale, maxHeight);
+  }
+
+  return { width: width * uvSizeInches, height: height * uvSizeInches };
+}
+
+/**
+ * Printed area of a print in square inches
+ */
+export function getPrintArea(print: PrintApplication, rules: PricingRules = PRICING_RULES): number {
+  const { width, height } = getPrintSize(print, rules);
+  return width * height;
+}
+
+/**
+ * Price of one print
+ */
+export function calculatePrintPrice(
+  print: PrintApplication,
+  rules: PricingRules = PRICING_RULES
+): { amount: number; area: number } {
+  const rate = print.textContent ? rules.prints.text : rules.prints.image;
+  const area = getPrintArea(print, rules);
+  return { amount: roundCurrency(rate.setupFee + area * rate.perSquareInch), area };
+}
+
+function getPrintName(print: PrintApplication): string {
+  if (print.textContent) return `Text "${print.textContent}"`;
+  if (print.printId) return `Print "${print.printId}"`;
+  return 'Image print';
+}
+
+/**
+ * Calculate the itemized price of a design
+ * @param design - Material, pattern and print maps (use the active colorway's maps)
+ * @param rules - Pricing rules; defaults to data/pricing.json
+ * @returns Breakdown with one line per charge and the total
+ */
+export function calculatePrice(design: PricedDesign, rules: PricingRules = PRICING_RULES): PriceBreakdown {
+  const lines: PriceLine[] = [{ kind: 'base', label: 'Base garment', amount: rules.basePrice }];
+  const order = Object.values(ComponentType);
+
+  order.forEach((component) => {
+    const share = getComponentShare(rules, component);
+    const componentLabel = COMPONENT_LABELS[component];
+
+    const material = materials.get(design.materialMap[component] || '');
+    if (material) {
+      const amount = roundCurrency((material.properties.priceModifier ?? 0) * share);
+      if (amount !== 0) {
+        lines.push({
+          kind: 'material',
+          label: `${material.properties.name} (${componentLabel})`,
+          amount,
+          component,
+        });
+      }
+      if (material.properties.premium) {
+        const surcharge = roundCurrency(rules.premiumSurcharge * share);
+        if (surcharge !== 0) {
+          lines.push({
+            kind: 'premium',
+            label: `Premium material (${componentLabel})`,
+            amount: surcharge,
+            component,
+          });
+        }
+      }
+    }
+
+    const pattern = patterns.get(design.patternMap[component]?.patternId || '');
+    if (pattern) {
+      const amount = roundCurrency((pattern.properties.priceModifier ?? 0) * share);
+      if (amount !== 0) {
+        lines.push({
+          kind: 'pattern',
+          label: `${pattern.properties.name} (${componentLabel})`,
+          amount,
+          component,
+        });
+      }
+    }
+
+    (design.printMap[component] || []).forEach((print) => {
+      const { amount, area } = calculatePrintPrice(print, rules);
+      lines.push({
+        kind: 'print',
+        label: `${getPrintName(print)} (${componentLabel})`,
+        amount,
+        component,
+        printId: print.id,
+        detail: `${print.textContent ? 'Text' : 'Image'}, ${area.toFixed(1)} sq in`,
+      });
+    });
+  });
+
+  const subtotals: PriceBreakdown['subtotals'] = { base: 0, material: 0, premium: 0, pattern: 0, print: 0 };
+  lines.forEach((line) => {
+    subtotals[line.kind] = roundCurrency(subtotals[line.kind] + line.amount);
+  });
+
+  return {
+    currency: rules.currency,
+    lines,
+    subtotals,
+    total: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
+
+/**
+ * Find the quantity break an order of this size reaches
+ * @returns The reached tier and the next one, if any
+ */
+export function getQuantityTier(
+  quantity: number,
+  rules: PricingRules = PRICING_RULES
+): { tier: QuantityTier; nextTier?: QuantityTier } {
+  const tiers = [...rules.order.quantityTiers].sort((a, b) => a.minQuantity - b.minQuantity);
+  let index = 0;
+  tiers.forEach((tier, i) => {
+    if (quantity >= tier.minQuantity) index = i;
+  });
+  return { tier: tiers[index] ?? { minQuantity: 0, discount: 0 }, nextTier: tiers[index + 1] };
+}
+
+/**
+ * Price an order of one design across sizes
+ * The quantity discount applies to the design price; size upcharges are added per piece after it
+ * @param design - Material, pattern and print maps (use the active colorway's maps)
+ * @param quantities - Pieces per size
+ * @param rules - Pricing rules; defaults to data/pricing.json
+ */
+export function calculateOrder(
+  design: PricedDesign,
+  quantities: Partial<Record<GarmentSize, number>>,
+  rules: PricingRules = PRICING_RULES
+): OrderSummary {
+  const designPrice = calculatePrice(design, rules);
+  const lines: OrderLine[] = rules.order.sizes
+    .filter((size) => (quantities[size] ?? 0) > 0)
+    .map((size) => ({ size, quantity: Math.floor(quantities[size]!), unitPrice: 0, total: 0 }));
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const { tier, nextTier } = getQuantityTier(totalQuantity, rules);
+  const discountedUnitPrice = roundCurrency(designPrice.total * (1 - tier.discount));
+
+  let upchargeTotal = 0;
+  lines.forEach((line) => {
+    const upcharge = rules.order.sizeUpcharges[line.size] ?? 0;
+    line.unitPrice = roundCurrency(discountedUnitPrice + upcharge);
+    line.total = roundCurrency(line.unitPrice * line.quantity);
+    upchargeTotal += upcharge * line.quantity;
+  });
+
+  return {
+    currency: rules.currency,
+    lines,
+    totalQuantity,
+    tier,
+    nextTier,
+    designPrice,
+    discountedUnitPrice,
+    discountTotal: roundCurrency((designPrice.total - discountedUnitPrice) * totalQuantity),
+    upchargeTotal: roundCurrency(upchargeTotal),
+    total: roundCurrency(lines.reduce((sum, line) => sum + line.total, 0)),
+  };
+}
+
+/**
+ * Format an amount for display, e.g. "$42.50"
+ */
+export function formatPrice(amount: number, currency: string = PRICING_RULES.currency): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
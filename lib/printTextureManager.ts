@@ -59,13 +59,8 @@ class PrintTextureManager {
       ctx.fillRect(0, 0, this.textureSize, this.textureSize);
     }
 
-    // Sort prints by zIndex (lower zIndex = drawn first, higher = on top)
-    const sortedPrints = [...prints].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
-
     // Draw print overlays with blend modes
-    for (const print of sortedPrints) {
-      await this.drawPrintToCanvas(ctx, print, baseTexture);
-    }
+    await this.drawPrints(ctx, prints);
 
     // Create Three.js texture from canvas
     const texture = new THREE.CanvasTexture(canvas);
@@ -117,17 +112,100 @@ class PrintTextureManager {
     });
   }
 
+  /**
+   * Draw prints in UV space, lowest zIndex first
+   * Prints look the same at any resolution: positions, image sizes and font sizes scale with uvSize.
+   * @param ctx - Target context; transform it to draw a region of the UV square
+   * @param uvSize - Pixels per UV unit (the texture size for the composite texture)
+   */
+  async drawPrints(
+    ctx: CanvasRenderingContext2D,
+    prints: PrintApplication[],
+    uvSize: number = this.textureSize
+  ): Promise<void> {
+    // Sort prints by zIndex (lower zIndex = drawn first, higher = on top)
+    const sortedPrints = [...prints].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
+
+    for (const print of sortedPrints) {
+      await this.drawPrintToCanvas(ctx, print, uvSize);
+    }
+  }
+
+  /**
+   * Size a print is drawn at, in UV units (1 = the full texture width)
+   * The texture, the zone artwork and the tech pack all use this, so their sizes agree.
+   * @returns Width and height of an image print, or of a text print's line box
+   */
+  async measurePrint(print: PrintApplication): Promise<{ width: number; height: number }> {
+    if (print.textContent) {
+      return this.measureTextPrint(print);
+    }
+    if (!print.customImageUrl) {
+      return { width: 0, height: 0 };
+    }
+    if (print.width && print.height) {
+      return this.getImagePrintSize(print, print.width, print.height);
+    }
+    const img = await this.loadImage(print.customImageUrl);
+    return this.getImagePrintSize(print, img.width, img.height);
+  }
+
+  /**
+   * Drawn size of an image print in UV units
+   * Sizes are defined in texture pixels and capped at 30% of the texture width
+   */
+  private getImagePrintSize(
+    print: PrintApplication,
+    imageWidth: number,
+    imageHeight: number
+  ): { width: number; height: number } {
+    const baseWidth = print.width || imageWidth;
+    const baseHeight = print.height || imageHeight;
+    const aspectRatio = baseWidth / baseHeight;
+    const maxSize = this.textureSize * 0.3;
+    const width = Math.min(baseWidth * print.scale, maxSize) / this.textureSize;
+    return { width, height: width / aspectRatio };
+  }
+
+  /**
+   * Drawn size of a text print's single line in UV units
+   */
+  private measureTextPrint(print: PrintApplication): { width: number; height: number } {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx || !print.textContent) {
+      return { width: 0, height: 0 };
+    }
+    const style = print.textStyle || {};
+    ctx.font = this.getTextFont(print);
+    const scale = print.scale / this.textureSize;
+    return {
+      width: ctx.measureText(print.textContent).width * scale,
+      height: (style.fontSize || 48) * scale,
+    };
+  }
+
+  /**
+   * Canvas font of a text print at its size in texture pixels
+   */
+  private getTextFont(print: PrintApplication): string {
+    const style = print.textStyle || {};
+    const fontSize = style.fontSize || 48;
+    const fontFamily = style.fontFamily || 'Arial, sans-serif';
+    const fontWeight = style.fontWeight || 'normal';
+    return `${fontWeight} ${fontSize}px ${fontFamily}`;
+  }
+
   /**
    * Draw a print application to canvas with blend mode support
    */
   private async drawPrintToCanvas(
     ctx: CanvasRenderingContext2D,
     print: PrintApplication,
-    baseTexture: THREE.Texture | null
+    uvSize: number
   ): Promise<void> {
     // Handle text prints
     if (print.textContent) {
-      await this.drawTextPrint(ctx, print);
+      await this.drawTextPrint(ctx, print, uvSize);
       return;
     }
 
@@ -144,65 +222,45 @@ class PrintTextureManager {
     const img = await this.loadImage(print.customImageUrl);
 
     // Calculate position and size in canvas coordinates
-    const x = print.position.x * this.textureSize;
-    const y = print.position.y * this.textureSize;
+    const x = print.position.x * uvSize;
+    const y = print.position.y * uvSize;
 
-    // Calculate size based on scale
-    const baseWidth = print.width || img.width;
-    const baseHeight = print.height || img.height;
-    const aspectRatio = baseWidth / baseHeight;
-
-    // Scale to fit within reasonable bounds (10% to 30% of texture size)
-    const maxSize = this.textureSize * 0.3;
-    const scaledWidth = Math.min(baseWidth * print.scale, maxSize);
-    const scaledHeight = scaledWidth / aspectRatio;
-
-    // Create temporary canvas for blend mode compositing
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = this.textureSize;
-    tempCanvas.height = this.textureSize;
-    const tempCtx = tempCanvas.getContext('2d');
-    if (!tempCtx) return;
-
-    // Draw print to temporary canvas
-    tempCtx.save();
-    tempCtx.translate(x, y);
-    tempCtx.rotate((print.rotation * Math.PI) / 180);
-    tempCtx.globalAlpha = print.opacity;
-    tempCtx.drawImage(img, -scaledWidth / 2, -scaledHeight / 2, scaledWidth, scaledHeight);
-    tempCtx.restore();
+    // Calculate size based on scale (sizes are defined in texture pixels)
+    const size = this.getImagePrintSize(print, img.width, img.height);
+    const scaledWidth = size.width * uvSize;
+    const scaledHeight = size.height * uvSize;
 
-    // Apply blend mode
+    // Draw straight onto the target with the blend mode. Image prints used to be drawn onto a layer
+    // with their opacity and the layer merged with it again; squaring it keeps that look.
     ctx.save();
     ctx.globalCompositeOperation = this.getBlendMode(print.blendMode || BlendMode.NORMAL);
-    ctx.globalAlpha = print.opacity;
-    ctx.drawImage(tempCanvas, 0, 0);
+    ctx.globalAlpha = print.opacity * print.opacity;
+    ctx.translate(x, y);
+    ctx.rotate((print.rotation * Math.PI) / 180);
+    ctx.drawImage(img, -scaledWidth / 2, -scaledHeight / 2, scaledWidth, scaledHeight);
     ctx.restore();
-    ctx.globalAlpha = 1.0;
   }
 
   /**
    * Draw text print to canvas
    */
-  private async drawTextPrint(ctx: CanvasRenderingContext2D, print: PrintApplication): Promise<void> {
+  private async drawTextPrint(ctx: CanvasRenderingContext2D, print: PrintApplication, uvSize: number): Promise<void> {
     if (!print.textContent) return;
 
-    const x = print.position.x * this.textureSize;
-    const y = print.position.y * this.textureSize;
+    const x = print.position.x * uvSize;
+    const y = print.position.y * uvSize;
+    const unit = uvSize / this.textureSize; // Font sizes are defined in texture pixels
 
     const style = print.textStyle || {};
-    const fontSize = style.fontSize || 48;
-    const fontFamily = style.fontFamily || 'Arial, sans-serif';
-    const fontWeight = style.fontWeight || 'normal';
     const color = style.color || '#000000';
     const textAlign = style.textAlign || 'center';
 
     ctx.save();
     ctx.translate(x, y);
     ctx.rotate((print.rotation * Math.PI) / 180);
-    ctx.scale(print.scale, print.scale);
+    ctx.scale(print.scale * unit, print.scale * unit);
 
-    ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+    ctx.font = this.getTextFont(print);
     ctx.fillStyle = color;
     ctx.textAlign = textAlign as CanvasTextAlign;
     ctx.textBaseline = 'middle';
@@ -262,12 +320,32 @@ class PrintTextureManager {
     // Sort by zIndex for consistent cache keys
     const sortedPrints = [...prints].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
     const printKeys = sortedPrints
-      .map((p) => `${p.id}:${p.position.x}:${p.position.y}:${p.scale}:${p.rotation}:${p.opacity}:${p.blendMode || 'normal'}:${p.zIndex || 0}:${p.textContent || ''}`)
+      .map((p) => {
+        // Colorways override only the text color, so every style field belongs in the key
+        const style = p.textStyle;
+        const styleKey = style
+          ? `${style.fontFamily || ''}:${style.fontSize || ''}:${style.fontWeight || ''}:${style.color || ''}:${style.textAlign || ''}`
+          : '';
+        return `${p.id}:${p.position.x}:${p.position.y}:${p.scale}:${p.rotation}:${p.opacity}:${p.blendMode || 'normal'}:${p.zIndex || 0}:${p.textContent || ''}:${styleKey}:${this.getImageKey(p.customImageUrl)}`;
+      })
       .join('|');
     const baseKey = baseTexture ? baseTexture.uuid : 'no-base';
     return `${component}:${baseKey}:${printKeys}`;
   }
 
+  /**
+   * Short key for an image URL; embedded data URLs can be megabytes long
+   */
+  private getImageKey(url: string | undefined): string {
+    if (!url) return '';
+    if (!url.startsWith('data:')) return url;
+    let hash = 0;
+    for (let i = 0; i < url.length; i++) {
+      hash = ((hash << 5) - hash + url.charCodeAt(i)) | 0;
+    }
+    return `data:${url.length}:${Math.abs(hash).toString(36)}`;
+  }
+
   /**
    * Dispose of a composite texture
    */
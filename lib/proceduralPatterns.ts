@@ -0,0 +1,201 @@
+import {
+  PatternApplication,
+  ProceduralPattern,
+  ProceduralPatternParams,
+  ProceduralPatternType,
+} from '@/types/patterns';
+
+/**
+ * Procedural Patterns
+ * Draws one seamless, axis-aligned repeat of a stripes, gingham, plaid, dots or herringbone pattern.
+ * Spacing and angle are applied when the tile is laid out (see patternManager), so every tile stays
+ * seamless whatever the parameters.
+ */
+
+export const PROCEDURAL_TILE_SIZE = 256;
+
+/**
+ * Parameters of an application, falling back to the pattern's defaults
+ */
+export function resolveProceduralParams(
+  pattern: ProceduralPattern,
+  application?: Pick<PatternApplication, 'params'> | null
+): ProceduralPatternParams {
+  return { ...pattern.params, ...application?.params };
+}
+
+/**
+ * Default params for a new application of a pattern
+ */
+export function createProceduralDefaults(
+  pattern: ProceduralPattern
+): Required<Pick<PatternApplication, 'params'>> {
+  return { params: { ...pattern.params } };
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+function drawStripes(ctx: CanvasRenderingContext2D, size: number, thickness: number, colors: string[]): void {
+  const width = size * thickness;
+  ctx.fillStyle = colors[1];
+  ctx.fillRect((size - width) / 2, 0, width, size);
+}
+
+function drawGingham(ctx: CanvasRenderingContext2D, size: number, thickness: number, colors: string[]): void {
+  // Two translucent bands: where they cross the check is twice as dense
+  const width = size * thickness;
+  const offset = (size - width) / 2;
+  ctx.globalAlpha = 0.5;
+  ctx.fillStyle = colors[1];
+  ctx.fillRect(offset, 0, width, size);
+  ctx.fillRect(0, offset, size, width);
+  ctx.globalAlpha = 1;
+}
+
+function drawPlaid(ctx: CanvasRenderingContext2D, size: number, thickness: number, colors: string[]): void {
+  const width = size * thickness;
+  const offset = (size - width) / 2;
+  ctx.globalAlpha = 0.6;
+  ctx.fillStyle = colors[1];
+  ctx.fillRect(offset, 0, width, size);
+  ctx.fillRect(0, offset, size, width);
+
+  // Thin overcheck centered on the tile edges, split so it wraps across neighbouring tiles
+  const line = Math.max(2, width / 6);
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = colors[2] ?? colors[1];
+  ctx.fillRect(0, 0, line / 2, size);
+  ctx.fillRect(size - line / 2, 0, line / 2, size);
+  ctx.fillRect(0, 0, size, line / 2);
+  ctx.fillRect(0, size - line / 2, size, line / 2);
+}
+
+function drawDots(ctx: CanvasRenderingContext2D, size: number, thickness: number, colors: string[]): void {
+  // Half-drop layout: one dot in the middle and a quarter in each corner; thickness 1 makes them touch
+  const radius = (size * Math.SQRT1_2 * thickness) / 2;
+  ctx.fillStyle = colors[1];
+  [
+    [size / 2, size / 2],
+    [0, 0],
+    [size, 0],
+    [0, size],
+    [size, size],
+  ].forEach(([x, y]) => {
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  });
+}
+
+function drawHerringbone(ctx: CanvasRenderingContext2D, size: number, thickness: number, colors: string[]): void {
+  // Two columns of diagonal twill lines leaning opposite ways, the second shifted by half a line
+  const step = size / 4; // Vertical distance between lines; divides the tile so it wraps vertically
+  const column = size / 2;
+  ctx.strokeStyle = colors[1];
+  ctx.lineWidth = step * Math.SQRT1_2 * thickness;
+  ctx.lineCap = 'butt';
+
+  [0, 1].forEach((side) => {
+    const left = side * column;
+    const shift = side * (step / 2);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(left, 0, column, size);
+    ctx.clip();
+    ctx.beginPath();
+    for (let y = -column - step; y <= size + column + step; y += step) {
+      if (side === 0) {
+        ctx.moveTo(left, y + shift);
+        ctx.lineTo(left + column, y + shift - column);
+      } else {
+        ctx.moveTo(left, y + shift - column);
+        ctx.lineTo(left + column, y + shift);
+      }
+    }
+    ctx.stroke();
+    ctx.restore();
+  });
+}
+
+const DRAWERS: Record<
+  ProceduralPatternType,
+  (ctx: CanvasRenderingContext2D, size: number, thickness: number, colors: string[]) => void
+> = {
+  stripes: drawStripes,
+  gingham: drawGingham,
+  plaid: drawPlaid,
+  dots: drawDots,
+  herringbone: drawHerringbone,
+};
+
+/**
+ * Draw one repeat of a procedural pattern into the top-left size × size square of a context
+ * @param colors - Palette colors: background first, then the pattern's other colors in order
+ */
+export function drawProceduralTile(
+  ctx: CanvasRenderingContext2D,
+  type: ProceduralPatternType,
+  thickness: number,
+  colors: string[],
+  size: number = PROCEDURAL_TILE_SIZE
+): void {
+  ctx.save();
+  ctx.fillStyle = colors[0];
+  ctx.fillRect(0, 0, size, size);
+  DRAWERS[type](ctx, size, clamp01(thickness), colors);
+  ctx.restore();
+}
+
+/**
+ * Render one repeat of a pattern as it is applied
+ * @param colors - Palette colors of the application (see resolvePatternColors)
+ * @returns Canvas holding a single seamless tile
+ */
+export function createProceduralTile(
+  pattern: ProceduralPattern,
+  application: Pick<PatternApplication, 'params'> | null,
+  colors: string[],
+  size: number = PROCEDURAL_TILE_SIZE
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const { thickness } = resolveProceduralParams(pattern, application);
+  drawProceduralTile(ctx, pattern.type, thickness, colors, size);
+  return canvas;
+}
+
+/**
+ * Render a small preview of a pattern with its default params
+ * @param colors - Palette colors to draw with
+ * @param repeats - Repeats across the preview, at the pattern's default angle
+ * @returns PNG data URL
+ */
+export function createProceduralPreview(
+  pattern: ProceduralPattern,
+  colors: string[],
+  size = 96,
+  repeats = 3
+): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  const fill = ctx?.createPattern(createProceduralTile(pattern, null, colors), 'repeat');
+  if (!ctx || !fill) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const tileScale = size / (PROCEDURAL_TILE_SIZE * repeats);
+  ctx.translate(size / 2, size / 2);
+  ctx.rotate((pattern.params.angle * Math.PI) / 180);
+  ctx.scale(tileScale, tileScale);
+  ctx.fillStyle = fill;
+  ctx.fillRect(-size / tileScale, -size / tileScale, (2 * size) / tileScale, (2 * size) / tileScale);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,168 @@
+import { ComponentType } from '@/types/models';
+import { PrintApplication } from '@/types/prints';
+import { Roster, RosterRow, RosterBinding } from '@/types/roster';
+
+/**
+ * Team Roster
+ * CSV parsing for rosters and personalization of roster-bound text prints, one garment per row
+ */
+
+function generateRowId(): string {
+  return `row_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Pick the delimiter of the header line: tabs for cells pasted from a spreadsheet, then semicolons, then commas
+ */
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  if (header.includes('\t')) return '\t';
+  if (header.includes(';') && !header.includes(',')) return ';';
+  return ',';
+}
+
+/**
+ * Split CSV text into records, honoring quoted cells ("a, b", "say ""hi""") and line breaks inside quotes
+ */
+function parseRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Parse a roster from CSV (or tab-separated text pasted from a spreadsheet)
+ * The first line holds the column names, e.g. "Name,Number"
+ * @throws When there is no header or no data rows
+ */
+export function parseRosterCsv(text: string): Roster {
+  const records = parseRecords(text.replace(/^\uFEFF/, ''), detectDelimiter(text));
+  if (records.length === 0) {
+    throw new Error('The roster is empty');
+  }
+
+  const [header, ...data] = records;
+  const columns: string[] = [];
+  header.forEach((name, index) => {
+    const base = name.trim() || `Column ${index + 1}`;
+    let column = base;
+    for (let n = 2; columns.includes(column); n++) {
+      column = `${base} ${n}`;
+    }
+    columns.push(column);
+  });
+
+  if (data.length === 0) {
+    throw new Error('The roster has a header but no rows');
+  }
+
+  const rows: RosterRow[] = data.map((record) => ({
+    id: generateRowId(),
+    values: Object.fromEntries(columns.map((column, index) => [column, (record[index] ?? '').trim()])),
+  }));
+
+  return { columns, rows };
+}
+
+/**
+ * Create an empty roster row with a cell for every column
+ */
+export function createRosterRow(columns: string[]): RosterRow {
+  return { id: generateRowId(), values: Object.fromEntries(columns.map((column) => [column, ''])) };
+}
+
+/**
+ * Text prints bound to a roster column, in component order
+ */
+export function getRosterBindings(printMap: Record<ComponentType, PrintApplication[]>): RosterBinding[] {
+  const bindings: RosterBinding[] = [];
+  Object.values(ComponentType).forEach((component) => {
+    (printMap[component] || []).forEach((print) => {
+      if (print.rosterField && print.textContent) {
+        bindings.push({
+          component,
+          printId: print.id,
+          field: print.rosterField,
+          placeholder: print.textContent,
+        });
+      }
+    });
+  });
+  return bindings;
+}
+
+/**
+ * Personalize the bound text prints with one row's values
+ * A blank cell leaves that print off the garment. Prints bound to a column the roster doesn't have
+ * keep their own text.
+ * @returns The same map when nothing is bound; otherwise a new map with the affected components copied
+ */
+export function applyRosterRow(
+  printMap: Record<ComponentType, PrintApplication[]>,
+  row: RosterRow
+): Record<ComponentType, PrintApplication[]> {
+  let result = printMap;
+
+  (Object.keys(printMap) as ComponentType[]).forEach((component) => {
+    const prints = printMap[component] || [];
+    if (!prints.some((print) => print.rosterField && print.textContent)) return;
+
+    const personalized = prints.flatMap((print) => {
+      if (!print.rosterField || !print.textContent || !(print.rosterField in row.values)) return [print];
+      const value = row.values[print.rosterField].trim();
+      return value ? [{ ...print, textContent: value }] : [];
+    });
+
+    if (result === printMap) result = { ...printMap };
+    result[component] = personalized;
+  });
+
+  return result;
+}
+
+/**
+ * Short label for a row, built from its first non-empty cells, e.g. "Smith 10"
+ */
+export function getRosterRowLabel(row: RosterRow, columns: string[], index: number): string {
+  const label = columns
+    .map((column) => row.values[column]?.trim())
+    .filter(Boolean)
+    .slice(0, 2)
+    .join(' ');
+  return label || `Row ${index + 1}`;
+}
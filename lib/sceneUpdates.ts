@@ -0,0 +1,27 @@
+/**
+ * Scene Update Tracking
+ * Lets exports wait until the viewer has finished applying asynchronous changes
+ * (materials, print composites) before capturing a frame
+ */
+
+const pendingUpdates = new Set<Promise<unknown>>();
+
+/**
+ * Register an asynchronous change to the viewer scene
+ */
+export function trackSceneUpdate(update: Promise<unknown>): void {
+  pendingUpdates.add(update);
+  const settle = () => {
+    pendingUpdates.delete(update);
+  };
+  update.then(settle, settle);
+}
+
+/**
+ * Resolve once every tracked update has settled, including ones started while waiting
+ */
+export async function waitForSceneUpdates(): Promise<void> {
+  while (pendingUpdates.size > 0) {
+    await Promise.allSettled(Array.from(pendingUpdates));
+  }
+}
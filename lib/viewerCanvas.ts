@@ -0,0 +1,20 @@
+/**
+ * Viewer Canvas Registry
+ * Gives UI outside the R3F <Canvas> access to the rendered viewer (e.g. for thumbnails)
+ */
+
+let viewerCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Register the viewer's WebGL canvas (called from Scene once the renderer is created)
+ */
+export function registerViewerCanvas(canvas: HTMLCanvasElement | null): void {
+  viewerCanvas = canvas;
+}
+
+/**
+ * Get the viewer's WebGL canvas, if the scene is mounted
+ */
+export function getViewerCanvas(): HTMLCanvasElement | null {
+  return viewerCanvas;
+}
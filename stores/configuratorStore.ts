@@ -3,12 +3,37 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import { ComponentType, ComponentMap } from '@/types/models';
 import { PatternApplication } from '@/types/patterns';
 import { PrintApplication, BlendMode } from '@/types/prints';
-import { DesignState, createDesignStateSnapshot, areDesignStatesEqual } from '@/lib/designState';
+import { ComponentStyle } from '@/types/designs';
+import { DesignState } from '@/lib/designState';
+import {
+  DesignVariant,
+  createDesignVariant,
+  getDesignVariant,
+  prunePrintColors,
+} from '@/lib/designVariants';
+import {
+  getMirroredComponent,
+  getSymmetryTargets,
+  mirrorPattern,
+  createMirroredPrint,
+  mirrorPrintUpdates,
+} from '@/lib/designSymmetry';
+import {
+  HistoryEntry,
+  HistoryCommand,
+  createHistorySnapshot,
+  createHistoryEntry,
+  getHistoryEntry,
+  pushHistoryEntry,
+  selectHistoryEntry,
+  areHistorySnapshotsEqual,
+  getComponentLabel,
+  getPrintLabel,
+  describePrintUpdate,
+} from '@/lib/designHistory';
 
 type Mode = 'blank' | 'branded';
 
-const MAX_HISTORY_STEPS = 10;
-
 interface ConfiguratorState {
   currentMode: Mode;
   setMode: (mode: Mode) => void;
@@ -24,6 +49,7 @@ interface ConfiguratorState {
   addRecentColor: (color: string) => void;
   patternMap: Record<ComponentType, PatternApplication | null>; // Maps component to pattern application
   setPattern: (component: ComponentType, pattern: PatternApplication | null) => void;
+  applyStyle: (components: ComponentType[], style: ComponentStyle) => void; // Material, color and pattern in one step
   printMap: Record<ComponentType, PrintApplication[]>; // Maps component to array of print applications
   addPrint: (component: ComponentType, print: PrintApplication) => void;
   updatePrint: (component: ComponentType, printId: string, updates: Partial<PrintApplication>) => void;
@@ -31,14 +57,95 @@ interface ConfiguratorState {
   setPrintOrder: (component: ComponentType, printIds: string[]) => void; // Reorder prints by ID array
   clearAllPrints: () => void;
   clearComponentPrints: (component: ComponentType) => void;
+  // Symmetry: material, color and pattern edits on a left/right component also apply to its counterpart
+  symmetry: boolean;
+  setSymmetry: (enabled: boolean) => void;
+  mirrorPrints: boolean; // With symmetry on, sleeve prints get a linked, horizontally flipped copy
+  setMirrorPrints: (enabled: boolean) => void;
+  // Colorways: while a variant is active, material, color and text print color edits go to its overrides
+  variants: DesignVariant[];
+  activeVariantId: string | null; // null = base colorway
+  addVariant: (name: string) => void; // Starts from the active colorway and switches to it
+  renameVariant: (variantId: string, name: string) => void;
+  removeVariant: (variantId: string) => void;
+  setActiveVariant: (variantId: string | null) => void;
+  loadDesign: (design: DesignState) => void; // Replace the current design (e.g. from the design library)
   // Undo/Redo
-  history: DesignState[];
-  historyIndex: number;
-  saveToHistory: () => void;
+  history: HistoryEntry[]; // Every step, as a tree (see designHistory)
+  currentHistoryId: string | null;
+  transaction: { label: string } | null; // Open transaction; its edits become a single step
+  execute: (command: HistoryCommand<ConfiguratorState>) => void; // Apply and record a labeled change
+  beginTransaction: (label: string) => void;
+  commitTransaction: () => void;
+  cancelTransaction: () => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (entryId: string) => void; // Go straight to any step, including abandoned branches
   canUndo: () => boolean;
   canRedo: () => boolean;
+  getUndoLabel: () => string | null;
+  getRedoLabel: () => string | null;
+}
+
+/**
+ * Store fields to restore from a history step
+ * The component map is left alone: it belongs to the loaded model, not to the step
+ */
+function restoreHistoryEntry(entry: HistoryEntry) {
+  return {
+    currentMode: entry.design.mode,
+    materialMap: entry.design.materialMap,
+    colorMap: entry.design.colorMap,
+    patternMap: entry.design.patternMap,
+    printMap: entry.design.printMap,
+    variants: entry.design.variants,
+    activeVariantId: entry.design.activeVariantId,
+    selectedComponent: entry.design.selectedComponent,
+  };
+}
+
+/**
+ * Label for the components an edit applies to, e.g. "left sleeve and right sleeve"
+ */
+function getTargetsLabel(targets: ComponentType[]): string {
+  return targets.map(getComponentLabel).join(' and ');
+}
+
+/**
+ * Apply updates to a print and, when linked and mirroring, the flipped updates to its mirror
+ */
+function applyPrintUpdates(
+  printMap: Record<ComponentType, PrintApplication[]>,
+  component: ComponentType,
+  printId: string,
+  updates: Partial<PrintApplication>,
+  mirror: boolean
+): Record<ComponentType, PrintApplication[]> {
+  const updated = {
+    ...printMap,
+    [component]: (printMap[component] || []).map((p) => (p.id === printId ? { ...p, ...updates } : p)),
+  };
+  const mirrorId = mirror && (printMap[component] || []).find((p) => p.id === printId)?.mirrorId;
+  if (!mirrorId) return updated;
+
+  const mirrorUpdates = mirrorPrintUpdates(updates);
+  (Object.keys(updated) as ComponentType[]).forEach((key) => {
+    if (updated[key]?.some((p) => p.id === mirrorId)) {
+      updated[key] = updated[key].map((p) => (p.id === mirrorId ? { ...p, ...mirrorUpdates } : p));
+    }
+  });
+  return updated;
+}
+
+/**
+ * Replace one variant in the list
+ */
+function updateVariant(
+  variants: DesignVariant[],
+  variantId: string,
+  update: (variant: DesignVariant) => DesignVariant
+): DesignVariant[] {
+  return variants.map((variant) => (variant.id === variantId ? update(variant) : variant));
 }
 
 export const useConfiguratorStore = create<ConfiguratorState>()(
@@ -46,8 +153,10 @@ export const useConfiguratorStore = create<ConfiguratorState>()(
     (set, get) => ({
       currentMode: 'blank',
       setMode: (mode) => {
-        set({ currentMode: mode });
-        get().saveToHistory();
+        get().execute({
+          label: mode === 'branded' ? 'Switch to branded mode' : 'Switch to blank mode',
+          apply: () => ({ currentMode: mode }),
+        });
       },
       componentMap: {},
       setComponentMap: (map) => set({ componentMap: map }),
@@ -55,23 +164,61 @@ export const useConfiguratorStore = create<ConfiguratorState>()(
       setComponent: (component) => set({ selectedComponent: component }),
       materialMap: {} as Record<ComponentType, string | null>,
       setMaterial: (component, materialId) => {
-        set((state) => ({
-          materialMap: { ...state.materialMap, [component]: materialId },
-        }));
-        get().saveToHistory();
+        const targets = getSymmetryTargets(component, get().symmetry);
+        const name = getTargetsLabel(targets);
+        const entries = Object.fromEntries(targets.map((target) => [target, materialId]));
+        const variant = getDesignVariant(get().variants, get().activeVariantId);
+        if (variant) {
+          get().execute({
+            label: `${materialId ? 'Change' : 'Remove'} ${name} material in '${variant.name}'`,
+            coalesceKey: `material:${component}:${variant.id}`,
+            apply: (state) => ({
+              variants: updateVariant(state.variants, variant.id, (v) => ({
+                ...v,
+                materialMap: { ...v.materialMap, ...entries },
+              })),
+            }),
+          });
+          return;
+        }
+        get().execute({
+          label: materialId ? `Change ${name} material` : `Remove ${name} material`,
+          coalesceKey: `material:${component}`,
+          apply: (state) => ({
+            materialMap: { ...state.materialMap, ...entries },
+          }),
+        });
       },
       colorMap: {} as Record<ComponentType, string | null>,
       setColor: (component, color) => {
-        set((state) => {
-          const newColorMap = { ...state.colorMap, [component]: color };
-          if (color) {
-            // Add to recent colors
-            const colors = [color, ...state.recentColors.filter((c) => c !== color)].slice(0, 8);
-            return { colorMap: newColorMap, recentColors: colors };
-          }
-          return { colorMap: newColorMap };
+        const targets = getSymmetryTargets(component, get().symmetry);
+        const name = getTargetsLabel(targets);
+        const entries = Object.fromEntries(targets.map((target) => [target, color]));
+        const variant = getDesignVariant(get().variants, get().activeVariantId);
+        get().execute({
+          label: variant
+            ? `${color ? 'Change' : 'Remove'} ${name} color in '${variant.name}'`
+            : color
+              ? `Change ${name} color`
+              : `Remove ${name} color`,
+          coalesceKey: variant ? `color:${component}:${variant.id}` : `color:${component}`,
+          apply: (state) => {
+            const update: Partial<ConfiguratorState> = variant
+              ? {
+                  variants: updateVariant(state.variants, variant.id, (v) => ({
+                    ...v,
+                    colorMap: { ...v.colorMap, ...entries },
+                  })),
+                }
+              : { colorMap: { ...state.colorMap, ...entries } };
+            if (color) {
+              // Add to recent colors
+              const colors = [color, ...state.recentColors.filter((c) => c !== color)].slice(0, 8);
+              return { ...update, recentColors: colors };
+            }
+            return update;
+          },
         });
-        get().saveToHistory();
       },
       recentColors: [],
       addRecentColor: (color) =>
@@ -81,178 +228,390 @@ export const useConfiguratorStore = create<ConfiguratorState>()(
         }),
       patternMap: {} as Record<ComponentType, PatternApplication | null>,
       setPattern: (component, pattern) => {
-        set((state) => ({
-          patternMap: { ...state.patternMap, [component]: pattern },
-        }));
-        get().saveToHistory();
+        const [, mirrored] = getSymmetryTargets(component, get().symmetry);
+        const name = getTargetsLabel(mirrored ? [component, mirrored] : [component]);
+        const current = get().patternMap[component];
+        // Slider tweaks to the applied pattern coalesce; picking another pattern is its own step
+        const isAdjustment = !!pattern && current?.patternId === pattern.patternId;
+        get().execute({
+          label: !pattern
+            ? `Remove ${name} pattern`
+            : isAdjustment
+              ? `Adjust ${name} pattern`
+              : `Apply pattern to ${name}`,
+          coalesceKey: isAdjustment ? `pattern:${component}` : undefined,
+          apply: (state) => ({
+            patternMap: {
+              ...state.patternMap,
+              [component]: pattern,
+              ...(mirrored ? { [mirrored]: mirrorPattern(pattern) } : {}),
+            },
+          }),
+        });
+      },
+      applyStyle: (components, style) => {
+        if (components.length === 0) return;
+        const materials: Partial<Record<ComponentType, string | null>> = {};
+        const colors: Partial<Record<ComponentType, string | null>> = {};
+        const patterns: Partial<Record<ComponentType, PatternApplication | null>> = {};
+        components.forEach((component) => {
+          materials[component] = style.materialId;
+          colors[component] = style.color;
+          patterns[component] = style.pattern;
+        });
+        // Counterparts that were not picked themselves follow with a mirrored pattern
+        if (get().symmetry) {
+          components.forEach((component) => {
+            const mirrored = getMirroredComponent(component);
+            if (!mirrored || components.includes(mirrored)) return;
+            materials[mirrored] = style.materialId;
+            colors[mirrored] = style.color;
+            patterns[mirrored] = mirrorPattern(style.pattern);
+          });
+        }
+
+        const variant = getDesignVariant(get().variants, get().activeVariantId);
+        get().execute({
+          label:
+            components.length > 2
+              ? `Paste style to ${components.length} components`
+              : `Paste style to ${getTargetsLabel(components)}`,
+          apply: (state) => ({
+            patternMap: { ...state.patternMap, ...patterns },
+            ...(variant
+              ? {
+                  variants: updateVariant(state.variants, variant.id, (v) => ({
+                    ...v,
+                    materialMap: { ...v.materialMap, ...materials },
+                    colorMap: { ...v.colorMap, ...colors },
+                  })),
+                }
+              : {
+                  materialMap: { ...state.materialMap, ...materials },
+                  colorMap: { ...state.colorMap, ...colors },
+                }),
+          }),
+        });
       },
       printMap: {} as Record<ComponentType, PrintApplication[]>,
       addPrint: (component, print) => {
-        set((state) => {
-          const existingPrints = state.printMap[component] || [];
-          // Assign zIndex if not provided (highest existing + 1)
-          const zIndex = print.zIndex !== undefined 
-            ? print.zIndex 
-            : (existingPrints.length > 0
-                ? Math.max(...existingPrints.map(p => p.zIndex || 0)) + 1
-                : 0);
-          // Ensure blendMode is set (create new object)
-          const printWithDefaults: PrintApplication = {
-            ...print,
-            zIndex,
-            blendMode: print.blendMode || BlendMode.NORMAL,
-          };
-          return {
-            printMap: {
-              ...state.printMap,
-              [component]: [...existingPrints, printWithDefaults],
-            },
-          };
+        const { symmetry, mirrorPrints } = get();
+        const mirrored = symmetry && mirrorPrints ? createMirroredPrint(component, print) : null;
+        get().execute({
+          label: mirrored ? `Add ${getPrintLabel(print)} to both sleeves` : `Add ${getPrintLabel(print)}`,
+          apply: (state) => {
+            const append = (
+              printMap: Record<ComponentType, PrintApplication[]>,
+              target: ComponentType,
+              newPrint: PrintApplication
+            ) => {
+              const existingPrints = printMap[target] || [];
+              // Assign zIndex if not provided (highest existing + 1)
+              const zIndex = newPrint.zIndex !== undefined 
+                ? newPrint.zIndex 
+                : (existingPrints.length > 0
+                    ? Math.max(...existingPrints.map(p => p.zIndex || 0)) + 1
+                    : 0);
+              // Ensure blendMode is set (create new object)
+              const printWithDefaults: PrintApplication = {
+                ...newPrint,
+                zIndex,
+                blendMode: newPrint.blendMode || BlendMode.NORMAL,
+              };
+              return {
+                ...printMap,
+                [target]: [...existingPrints, printWithDefaults],
+              };
+            };
+            if (mirrored) {
+              return {
+                printMap: append(
+                  append(state.printMap, component, mirrored.original),
+                  mirrored.component,
+                  mirrored.mirror
+                ),
+              };
+            }
+            return { printMap: append(state.printMap, component, print) };
+          },
         });
-        get().saveToHistory();
       },
       updatePrint: (component, printId, updates) => {
-        set((state) => {
-          const prints = state.printMap[component] || [];
-          const updatedPrints = prints.map((p) =>
-            p.id === printId ? { ...p, ...updates } : p
-          );
-          return {
-            printMap: {
-              ...state.printMap,
-              [component]: updatedPrints,
-            },
-          };
+        const print = (get().printMap[component] || []).find((p) => p.id === printId);
+        if (!print) return;
+        const shouldMirror = get().symmetry && get().mirrorPrints;
+
+        // With a colorway active, the text color goes to the variant and the rest to the shared print
+        const variant = getDesignVariant(get().variants, get().activeVariantId);
+        const variantColor = variant && print.textStyle && updates.textStyle?.color;
+        if (variant && variantColor) {
+          const baseUpdates = { ...updates, textStyle: { ...updates.textStyle!, color: print.textStyle!.color } };
+          const colorChanged = variantColor !== (variant.printColors[printId] ?? print.textStyle!.color);
+          const change = describePrintUpdate(print, baseUpdates);
+          if (!colorChanged && !change) return;
+          get().execute({
+            label: change
+              ? `${change.verb} ${getPrintLabel(print)}`
+              : `Change color of ${getPrintLabel(print)} in '${variant.name}'`,
+            coalesceKey: change ? `print:${printId}:${change.field}` : `print:${printId}:color:${variant.id}`,
+            apply: (state) => ({
+              printMap: applyPrintUpdates(state.printMap, component, printId, baseUpdates, shouldMirror),
+              variants: updateVariant(state.variants, variant.id, (v) => ({
+                ...v,
+                printColors: { ...v.printColors, [printId]: variantColor },
+              })),
+            }),
+          });
+          return;
+        }
+
+        const change = describePrintUpdate(print, updates);
+        if (!change) return;
+        const { verb, field } = change;
+        get().execute({
+          label: `${verb} ${getPrintLabel(print)}`,
+          coalesceKey: `print:${printId}:${field}`,
+          apply: (state) => ({
+            printMap: applyPrintUpdates(state.printMap, component, printId, updates, shouldMirror),
+          }),
         });
-        get().saveToHistory();
       },
       removePrint: (component, printId) => {
-        set((state) => {
-          const prints = state.printMap[component] || [];
-          const filteredPrints = prints.filter((p) => p.id !== printId);
-          return {
-            printMap: {
-              ...state.printMap,
-              [component]: filteredPrints,
-            },
-          };
+        const print = (get().printMap[component] || []).find((p) => p.id === printId);
+        // Mirrored prints go together; otherwise the remaining copy is unlinked
+        const removeMirror = !!print?.mirrorId && get().symmetry && get().mirrorPrints;
+        get().execute({
+          label: print
+            ? `Remove ${getPrintLabel(print)}${removeMirror ? ' from both sleeves' : ''}`
+            : 'Remove print',
+          apply: (state) => {
+            const printMap = {} as Record<ComponentType, PrintApplication[]>;
+            (Object.entries(state.printMap) as [ComponentType, PrintApplication[]][]).forEach(
+              ([key, prints]) => {
+                if (key === component) {
+                  printMap[key] = (prints || []).filter((p) => p.id !== printId);
+                } else if (print?.mirrorId && prints?.some((p) => p.id === print.mirrorId)) {
+                  printMap[key] = removeMirror
+                    ? prints.filter((p) => p.id !== print.mirrorId)
+                    : prints.map((p) => (p.id === print.mirrorId ? { ...p, mirrorId: undefined } : p));
+                } else {
+                  printMap[key] = prints;
+                }
+              }
+            );
+            return { printMap, variants: prunePrintColors(state.variants, printMap) };
+          },
         });
-        get().saveToHistory();
       },
       setPrintOrder: (component, printIds) => {
-        set((state) => {
-          const prints = state.printMap[component] || [];
-          const printMapById = new Map(prints.map((p) => [p.id, p]));
-          const orderedPrints = printIds
-            .map((id) => printMapById.get(id))
-            .filter((p): p is PrintApplication => p !== undefined);
-          // Add any prints not in the order array at the end
-          const remainingPrints = prints.filter((p) => !printIds.includes(p.id));
-          return {
-            printMap: {
-              ...state.printMap,
-              [component]: [...orderedPrints, ...remainingPrints].map((p, index) => ({
-                ...p,
-                zIndex: index,
-              })),
-            },
-          };
+        get().execute({
+          label: `Reorder ${getComponentLabel(component)} prints`,
+          apply: (state) => {
+            const prints = state.printMap[component] || [];
+            const printMapById = new Map(prints.map((p) => [p.id, p]));
+            const orderedPrints = printIds
+              .map((id) => printMapById.get(id))
+              .filter((p): p is PrintApplication => p !== undefined);
+            // Add any prints not in the order array at the end
+            const remainingPrints = prints.filter((p) => !printIds.includes(p.id));
+            return {
+              printMap: {
+                ...state.printMap,
+                [component]: [...orderedPrints, ...remainingPrints].map((p, index) => ({
+                  ...p,
+                  zIndex: index,
+                })),
+              },
+            };
+          },
         });
-        get().saveToHistory();
       },
       clearAllPrints: () => {
-        set({ printMap: {} as Record<ComponentType, PrintApplication[]> });
-        get().saveToHistory();
+        get().execute({
+          label: 'Clear all prints',
+          apply: (state) => {
+            const printMap = {} as Record<ComponentType, PrintApplication[]>;
+            return { printMap, variants: prunePrintColors(state.variants, printMap) };
+          },
+        });
       },
       clearComponentPrints: (component) => {
-        set((state) => ({
-          printMap: {
-            ...state.printMap,
-            [component]: [],
+        get().execute({
+          label: `Clear ${getComponentLabel(component)} prints`,
+          apply: (state) => {
+            const printMap = {
+              ...state.printMap,
+              [component]: [],
+            };
+            return { printMap, variants: prunePrintColors(state.variants, printMap) };
           },
-        }));
-        get().saveToHistory();
+        });
+      },
+      symmetry: false,
+      setSymmetry: (enabled) => set({ symmetry: enabled }),
+      mirrorPrints: true,
+      setMirrorPrints: (enabled) => set({ mirrorPrints: enabled }),
+      variants: [],
+      activeVariantId: null,
+      addVariant: (name) => {
+        const from = getDesignVariant(get().variants, get().activeVariantId);
+        const variant = createDesignVariant(name, from);
+        get().execute({
+          label: `Add colorway '${name}'`,
+          apply: (state) => ({
+            variants: [...state.variants, variant],
+            activeVariantId: variant.id,
+          }),
+        });
+      },
+      renameVariant: (variantId, name) => {
+        const variant = getDesignVariant(get().variants, variantId);
+        if (!variant || variant.name === name) return;
+        get().execute({
+          label: `Rename colorway '${variant.name}' to '${name}'`,
+          apply: (state) => ({
+            variants: updateVariant(state.variants, variantId, (v) => ({ ...v, name })),
+          }),
+        });
+      },
+      removeVariant: (variantId) => {
+        const variant = getDesignVariant(get().variants, variantId);
+        if (!variant) return;
+        get().execute({
+          label: `Delete colorway '${variant.name}'`,
+          apply: (state) => ({
+            variants: state.variants.filter((v) => v.id !== variantId),
+            activeVariantId: state.activeVariantId === variantId ? null : state.activeVariantId,
+          }),
+        });
+      },
+      setActiveVariant: (variantId) => {
+        const variant = getDesignVariant(get().variants, variantId);
+        get().execute({
+          label: variant ? `Switch to '${variant.name}' colorway` : 'Switch to base colorway',
+          apply: () => ({ activeVariantId: variant ? variant.id : null }),
+        });
+      },
+      loadDesign: (design) => {
+        // Keep the component map of the loaded model; a saved map may come from another model
+        set({
+          currentMode: design.mode,
+          materialMap: { ...design.materialMap },
+          colorMap: { ...design.colorMap },
+          patternMap: { ...design.patternMap },
+          printMap: { ...design.printMap },
+          variants: [...design.variants],
+          activeVariantId: design.activeVariantId,
+          selectedComponent: design.selectedComponent,
+          transaction: null,
+        });
+        const entry = createHistoryEntry('Open design', createHistorySnapshot(get()));
+        set({ history: [entry], currentHistoryId: entry.id });
       },
       // Undo/Redo
       history: [],
-      historyIndex: -1,
-      saveToHistory: () => {
+      currentHistoryId: null,
+      transaction: null,
+      execute: (command) => {
         const state = get();
-        const snapshot = createDesignStateSnapshot({
-          currentMode: state.currentMode,
-          componentMap: state.componentMap,
-          materialMap: state.materialMap,
-          colorMap: state.colorMap,
-          selectedComponent: state.selectedComponent,
-          patternMap: state.patternMap,
-          printMap: state.printMap,
-        });
-
-        // Initialize history if empty
+        // Record the starting point before the first change
         if (state.history.length === 0) {
-          set({ history: [snapshot], historyIndex: 0 });
-          return;
+          const initial = createHistoryEntry('Initial design', createHistorySnapshot(state));
+          set({ history: [initial], currentHistoryId: initial.id });
         }
 
-        // Don't save if it's the same as the current state
-        if (state.historyIndex >= 0 && state.historyIndex < state.history.length) {
-          const currentState = state.history[state.historyIndex];
-          if (areDesignStatesEqual(snapshot, currentState)) {
-            return;
-          }
-        }
+        set(command.apply(get()));
+
+        // Inside a transaction the step is recorded on commit
+        const { transaction, history, currentHistoryId } = get();
+        if (transaction) return;
 
-        // Remove any history after current index (when undoing and making new changes)
-        const newHistory = state.history.slice(0, state.historyIndex + 1);
-        newHistory.push(snapshot);
+        const snapshot = createHistorySnapshot(get());
+        const current = getHistoryEntry(history, currentHistoryId);
+        if (current && areHistorySnapshotsEqual(snapshot, current.design)) return;
 
-        // Limit history size
-        if (newHistory.length > MAX_HISTORY_STEPS) {
-          newHistory.shift();
-          set({ history: newHistory, historyIndex: newHistory.length - 1 });
-        } else {
-          set({ history: newHistory, historyIndex: newHistory.length - 1 });
+        set(
+          pushHistoryEntry(
+            history,
+            currentHistoryId,
+            createHistoryEntry(command.label, snapshot, command.coalesceKey)
+          )
+        );
+      },
+      beginTransaction: (label) => {
+        const state = get();
+        // Nested transactions join the open one
+        if (state.transaction) return;
+        if (state.history.length === 0) {
+          const initial = createHistoryEntry('Initial design', createHistorySnapshot(state));
+          set({ history: [initial], currentHistoryId: initial.id });
         }
+        set({ transaction: { label } });
+      },
+      commitTransaction: () => {
+        const { transaction, history, currentHistoryId } = get();
+        if (!transaction) return;
+        set({ transaction: null });
+
+        const snapshot = createHistorySnapshot(get());
+        const current = getHistoryEntry(history, currentHistoryId);
+        if (current && areHistorySnapshotsEqual(snapshot, current.design)) return;
+
+        set(pushHistoryEntry(history, currentHistoryId, createHistoryEntry(transaction.label, snapshot)));
+      },
+      cancelTransaction: () => {
+        const { transaction, history, currentHistoryId } = get();
+        if (!transaction) return;
+        const current = getHistoryEntry(history, currentHistoryId);
+        set({
+          transaction: null,
+          ...(current ? restoreHistoryEntry(current) : {}),
+        });
       },
       undo: () => {
+        get().commitTransaction();
         const state = get();
-        if (state.historyIndex > 0) {
-          const previousState = state.history[state.historyIndex - 1];
-          set({
-            currentMode: previousState.mode,
-            componentMap: previousState.componentMap,
-            materialMap: previousState.materialMap,
-            colorMap: previousState.colorMap,
-            patternMap: previousState.patternMap,
-            printMap: previousState.printMap,
-            selectedComponent: previousState.selectedComponent,
-            historyIndex: state.historyIndex - 1,
-          });
+        const current = getHistoryEntry(state.history, state.currentHistoryId);
+        if (current?.parentId) {
+          get().jumpToHistory(current.parentId);
         }
       },
       redo: () => {
+        get().commitTransaction();
         const state = get();
-        if (state.historyIndex < state.history.length - 1) {
-          const nextState = state.history[state.historyIndex + 1];
-          set({
-            currentMode: nextState.mode,
-            componentMap: nextState.componentMap,
-            materialMap: nextState.materialMap,
-            colorMap: nextState.colorMap,
-            patternMap: nextState.patternMap,
-            printMap: nextState.printMap,
-            selectedComponent: nextState.selectedComponent,
-            historyIndex: state.historyIndex + 1,
-          });
+        const current = getHistoryEntry(state.history, state.currentHistoryId);
+        if (current?.activeChildId) {
+          get().jumpToHistory(current.activeChildId);
         }
       },
+      jumpToHistory: (entryId) => {
+        get().commitTransaction();
+        const history = selectHistoryEntry(get().history, entryId);
+        const entry = history && getHistoryEntry(history, entryId);
+        if (!history || !entry) return;
+        set({
+          ...restoreHistoryEntry(entry),
+          history,
+          currentHistoryId: entryId,
+        });
+      },
       canUndo: () => {
         const state = get();
-        return state.historyIndex > 0;
+        return !!getHistoryEntry(state.history, state.currentHistoryId)?.parentId;
       },
       canRedo: () => {
         const state = get();
-        return state.historyIndex < state.history.length - 1;
+        return !!getHistoryEntry(state.history, state.currentHistoryId)?.activeChildId;
+      },
+      getUndoLabel: () => {
+        const state = get();
+        const current = getHistoryEntry(state.history, state.currentHistoryId);
+        return current?.parentId ? current.label : null;
+      },
+      getRedoLabel: () => {
+        const state = get();
+        const current = getHistoryEntry(state.history, state.currentHistoryId);
+        return getHistoryEntry(state.history, current?.activeChildId ?? null)?.label ?? null;
       },
     }),
     {
@@ -262,7 +621,11 @@ export const useConfiguratorStore = create<ConfiguratorState>()(
         currentMode: state.currentMode,
         materialMap: state.materialMap,
         colorMap: state.colorMap,
+        variants: state.variants,
+        activeVariantId: state.activeVariantId,
         recentColors: state.recentColors,
+        symmetry: state.symmetry,
+        mirrorPrints: state.mirrorPrints,
       }),
     }
   )
@@ -0,0 +1,114 @@
+'use client';
+
+/**
+ * Design Library Store
+ * Zustand store for the user's "My Designs" library
+ */
+
+import { create } from 'zustand';
+import { SavedDesignSummary } from '@/types/designs';
+import { designLibraryStorage } from '@/lib/designLibraryStorage';
+import { designRecoveryStorage } from '@/lib/designRecoveryStorage';
+import { createDesignStateSnapshot } from '@/lib/designState';
+import { createCanvasThumbnail } from '@/lib/export/imageExport';
+import { getViewerCanvas } from '@/lib/viewerCanvas';
+import { useConfiguratorStore } from './configuratorStore';
+
+interface DesignLibraryStore {
+  designs: SavedDesignSummary[];
+  activeDesignId: string | null; // Design currently open in the configurator
+  isLoading: boolean;
+  error: Error | null;
+  loadDesigns: () => Promise<void>;
+  saveCurrentDesign: (name: string) => Promise<string>;
+  saveActiveDesign: () => Promise<void>;
+  openDesign: (id: string) => Promise<void>;
+  renameDesign: (id: string, name: string) => Promise<void>;
+  duplicateDesign: (id: string) => Promise<void>;
+  deleteDesign: (id: string) => Promise<void>;
+}
+
+/**
+ * Snapshot the configurator and the viewer for saving
+ */
+function captureCurrentDesign() {
+  const design = createDesignStateSnapshot(useConfiguratorStore.getState());
+  const canvas = getViewerCanvas();
+  const thumbnailUrl = canvas ? createCanvasThumbnail(canvas) : undefined;
+  return { design, thumbnailUrl };
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+export const useDesignLibraryStore = create<DesignLibraryStore>((set, get) => ({
+  designs: [],
+  activeDesignId: null,
+  isLoading: false,
+  error: null,
+  loadDesigns: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const designs = await designLibraryStorage.getAll();
+      set({ designs });
+    } catch (error) {
+      set({ error: toError(error) });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+  saveCurrentDesign: async (name) => {
+    const { design, thumbnailUrl } = captureCurrentDesign();
+    const id = await designLibraryStorage.save(design, { name, thumbnailUrl });
+    // The design is safe in the library now; nothing left to recover
+    await designRecoveryStorage.clear();
+    set({ activeDesignId: id });
+    await get().loadDesigns();
+    return id;
+  },
+  saveActiveDesign: async () => {
+    const { activeDesignId } = get();
+    if (!activeDesignId) return;
+    const { design, thumbnailUrl } = captureCurrentDesign();
+    const updated = await designLibraryStorage.update(activeDesignId, { design, thumbnailUrl });
+    await get().loadDesigns();
+    if (!updated) {
+      // Deleted in another tab, for example: the work is only safe once saved as a new design
+      if (!get().designs.some((entry) => entry.id === activeDesignId)) {
+        set({ activeDesignId: null });
+        throw new Error('This design no longer exists in the library');
+      }
+      throw new Error('Failed to update the saved design');
+    }
+    await designRecoveryStorage.clear();
+  },
+  openDesign: async (id) => {
+    set({ error: null });
+    try {
+      const design = await designLibraryStorage.loadDesign(id);
+      if (!design) {
+        throw new Error('This design no longer exists');
+      }
+      useConfiguratorStore.getState().loadDesign(design);
+      set({ activeDesignId: id });
+    } catch (error) {
+      set({ error: toError(error) });
+    }
+  },
+  renameDesign: async (id, name) => {
+    await designLibraryStorage.rename(id, name);
+    await get().loadDesigns();
+  },
+  duplicateDesign: async (id) => {
+    await designLibraryStorage.duplicate(id);
+    await get().loadDesigns();
+  },
+  deleteDesign: async (id) => {
+    await designLibraryStorage.delete(id);
+    if (get().activeDesignId === id) {
+      set({ activeDesignId: null });
+    }
+    await get().loadDesigns();
+  },
+}));
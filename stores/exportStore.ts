@@ -1,7 +1,10 @@
 import { create } from 'zustand';
+import { TurntableOptions, DEFAULT_TURNTABLE_OPTIONS } from '@/lib/export/turntableExport';
+import { ContactSheetOptions, DEFAULT_CONTACT_SHEET_OPTIONS } from '@/lib/export/contactSheet';
+import { DownloadedFile } from '@/lib/export/download';
 
-type ExportFormat = 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf';
-type ExportQuality = 'standard' | 'high';
+export type ExportFormat = 'png' | 'jpg' | 'pdf' | 'glb' | 'gltf' | 'usdz' | 'obj' | 'colorways' | 'roster' | 'turntable' | 'contactSheet' | 'textures'; // colorways/roster/textures: ZIP, one entry per variant/roster row/component
+export type ExportQuality = 'standard' | 'high';
 
 interface ExportRequest {
   format: ExportFormat;
@@ -9,20 +12,57 @@ interface ExportRequest {
   timestamp: number;
 }
 
+export type ExportJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One export in the batch queue
+ * Cancelling a running job stops its export at the next view, frame or row (see ExportTrigger)
+ */
+export interface ExportJob {
+  id: string;
+  format: ExportFormat;
+  quality: ExportQuality;
+  status: ExportJobStatus;
+  progress: number; // 0-1
+  error?: string;
+  files: DownloadedFile[]; // Collected instead of downloaded
+  bundled: boolean; // Files already went out in a batch ZIP
+}
+
 interface ExportStore {
   exportRequest: ExportRequest | null;
   isExporting: boolean;
   exportError: Error | null;
+  queue: ExportJob[];
+  turntableOptions: TurntableOptions; // Used by 'turntable' requests
+  contactSheetOptions: ContactSheetOptions; // Used by 'contactSheet' requests
+  modelTextureSize: number | null; // Texture size limit for 3D model requests; null keeps full size
   requestExport: (format: ExportFormat, quality?: ExportQuality) => void;
   setExporting: (isExporting: boolean) => void;
   setExportError: (error: Error | null) => void;
+  setTurntableOptions: (options: Partial<TurntableOptions>) => void;
+  setContactSheetOptions: (options: Partial<ContactSheetOptions>) => void;
+  setModelTextureSize: (size: number | null) => void;
   clearExportRequest: () => void;
+  enqueueExports: (jobs: { format: ExportFormat; quality?: ExportQuality }[]) => void;
+  updateExportJob: (id: string, updates: Partial<Omit<ExportJob, 'id'>>) => void;
+  reportExportProgress: (progress: number) => void; // Progress of the running job, if any
+  cancelExportJob: (id: string) => void;
+  cancelExportQueue: () => void;
+  retryExportJob: (id: string) => void;
+  clearExportQueue: () => void; // Drop finished jobs
 }
 
+const isActive = (job: ExportJob) => job.status === 'pending' || job.status === 'running';
+
 export const useExportStore = create<ExportStore>((set) => ({
   exportRequest: null,
   isExporting: false,
   exportError: null,
+  queue: [],
+  turntableOptions: DEFAULT_TURNTABLE_OPTIONS,
+  contactSheetOptions: DEFAULT_CONTACT_SHEET_OPTIONS,
+  modelTextureSize: null,
   requestExport: (format, quality = 'standard') => {
     set({
       exportRequest: {
@@ -35,6 +75,52 @@ export const useExportStore = create<ExportStore>((set) => ({
   },
   setExporting: (isExporting) => set({ isExporting }),
   setExportError: (error) => set({ exportError: error }),
+  setTurntableOptions: (options) =>
+    set((state) => ({ turntableOptions: { ...state.turntableOptions, ...options } })),
+  setContactSheetOptions: (options) =>
+    set((state) => ({ contactSheetOptions: { ...state.contactSheetOptions, ...options } })),
+  setModelTextureSize: (size) => set({ modelTextureSize: size }),
   clearExportRequest: () => set({ exportRequest: null }),
+  enqueueExports: (jobs) =>
+    set((state) => ({
+      queue: [
+        ...state.queue,
+        ...jobs.map((job) => ({
+          id: `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          format: job.format,
+          quality: job.quality ?? 'standard',
+          status: 'pending' as const,
+          progress: 0,
+          files: [],
+          bundled: false,
+        })),
+      ],
+    })),
+  updateExportJob: (id, updates) =>
+    set((state) => ({
+      queue: state.queue.map((job) => (job.id === id ? { ...job, ...updates } : job)),
+    })),
+  reportExportProgress: (progress) =>
+    set((state) => ({
+      queue: state.queue.map((job) =>
+        job.status === 'running' ? { ...job, progress: Math.min(1, Math.max(0, progress)) } : job
+      ),
+    })),
+  cancelExportJob: (id) =>
+    set((state) => ({
+      queue: state.queue.map((job) => (job.id === id && isActive(job) ? { ...job, status: 'cancelled' } : job)),
+    })),
+  cancelExportQueue: () =>
+    set((state) => ({
+      queue: state.queue.map((job) => (isActive(job) ? { ...job, status: 'cancelled' } : job)),
+    })),
+  retryExportJob: (id) =>
+    set((state) => ({
+      queue: state.queue.map((job) =>
+        job.id === id && (job.status === 'failed' || job.status === 'cancelled')
+          ? { ...job, status: 'pending', progress: 0, error: undefined, files: [], bundled: false }
+          : job
+      ),
+    })),
+  clearExportQueue: () => set((state) => ({ queue: state.queue.filter(isActive) })),
 }));
-
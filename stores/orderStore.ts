@@ -0,0 +1,36 @@
+'use client';
+
+/**
+ * Order Store
+ * Zustand store for the order builder: pieces per size for the current design
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { GarmentSize } from '@/types/pricing';
+
+interface OrderStore {
+  quantities: Partial<Record<GarmentSize, number>>;
+  setQuantity: (size: GarmentSize, quantity: number) => void;
+  clearOrder: () => void;
+}
+
+export const useOrderStore = create<OrderStore>()(
+  persist(
+    (set) => ({
+      quantities: {},
+      setQuantity: (size, quantity) =>
+        set((state) => ({
+          quantities: {
+            ...state.quantities,
+            [size]: Number.isFinite(quantity) ? Math.max(0, Math.floor(quantity)) : 0,
+          },
+        })),
+      clearOrder: () => set({ quantities: {} }),
+    }),
+    {
+      name: 'shirt-order-storage',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
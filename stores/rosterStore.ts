@@ -0,0 +1,55 @@
+'use client';
+
+/**
+ * Roster Store
+ * Zustand store for the team roster: per-garment names, numbers and other values for roster-bound
+ * text prints, and the row previewed in the viewer
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { Roster, RosterRow } from '@/types/roster';
+import { createRosterRow } from '@/lib/roster';
+
+interface RosterStore {
+  columns: string[];
+  rows: RosterRow[];
+  previewRowId: string | null; // Row shown in the viewer; null shows the prints' own text
+  loadRoster: (roster: Roster) => void; // Replaces the current roster
+  addRow: () => void;
+  updateCell: (rowId: string, column: string, value: string) => void;
+  removeRow: (rowId: string) => void;
+  clearRoster: () => void;
+  setPreviewRow: (rowId: string | null) => void;
+}
+
+export const useRosterStore = create<RosterStore>()(
+  persist(
+    (set) => ({
+      columns: [],
+      rows: [],
+      previewRowId: null,
+      loadRoster: (roster) => set({ columns: roster.columns, rows: roster.rows, previewRowId: null }),
+      addRow: () => set((state) => ({ rows: [...state.rows, createRosterRow(state.columns)] })),
+      updateCell: (rowId, column, value) =>
+        set((state) => ({
+          rows: state.rows.map((row) =>
+            row.id === rowId ? { ...row, values: { ...row.values, [column]: value } } : row
+          ),
+        })),
+      removeRow: (rowId) =>
+        set((state) => ({
+          rows: state.rows.filter((row) => row.id !== rowId),
+          previewRowId: state.previewRowId === rowId ? null : state.previewRowId,
+        })),
+      clearRoster: () => set({ columns: [], rows: [], previewRowId: null }),
+      setPreviewRow: (rowId) => set({ previewRowId: rowId }),
+    }),
+    {
+      name: 'shirt-roster-storage',
+      storage: createJSONStorage(() => localStorage),
+      // The preview is a viewing mode, not part of the roster
+      partialize: (state) => ({ columns: state.columns, rows: state.rows }),
+    }
+  )
+);
@@ -0,0 +1,40 @@
+'use client';
+
+/**
+ * Style Clipboard Store
+ * Zustand store holding a copied component style (material, color and pattern) for pasting onto other components
+ */
+
+import { create } from 'zustand';
+import { ComponentType } from '@/types/models';
+import { ComponentStyle } from '@/types/designs';
+import { resolveColorway } from '@/lib/designVariants';
+import { useConfiguratorStore } from './configuratorStore';
+
+interface StyleClipboardStore {
+  style: ComponentStyle | null;
+  copyStyle: (component: ComponentType) => void;
+  pasteStyle: (components: ComponentType[]) => void; // One undo step for all components
+}
+
+export const useStyleClipboardStore = create<StyleClipboardStore>((set, get) => ({
+  style: null,
+  copyStyle: (component) => {
+    const state = useConfiguratorStore.getState();
+    // Copy what the component looks like in the active colorway
+    const { materialMap, colorMap } = resolveColorway(state, state.activeVariantId);
+    set({
+      style: {
+        source: component,
+        materialId: materialMap[component] ?? null,
+        color: colorMap[component] ?? null,
+        pattern: state.patternMap[component] ?? null,
+      },
+    });
+  },
+  pasteStyle: (components) => {
+    const { style } = get();
+    if (!style) return;
+    useConfiguratorStore.getState().applyStyle(components, style);
+  },
+}));
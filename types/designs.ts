@@ -0,0 +1,39 @@
+import { ComponentType } from './models';
+import { PatternApplication } from './patterns';
+
+/**
+ * Saved design entry (user's "My Designs" library)
+ */
+export interface SavedDesign {
+  id: string; // Unique ID for the saved design
+  name: string; // User-given name
+  createdAt: number; // Timestamp when first saved
+  updatedAt: number; // Timestamp when last saved or renamed
+  document: string; // Serialized, versioned design document (see lib/designState)
+  thumbnailUrl?: string; // Viewer snapshot (data URL)
+}
+
+/**
+ * Saved design without its document, for listing
+ */
+export type SavedDesignSummary = Omit<SavedDesign, 'document'>;
+
+/**
+ * Autosaved in-progress design (crash recovery slot)
+ */
+export interface RecoverySnapshot {
+  id: string; // Always the single recovery slot ID
+  savedAt: number; // Timestamp of the autosave
+  document: string; // Serialized design document; uploaded prints keep their object URLs
+  images: Record<string, Blob>; // Uploaded print images, keyed by the object URL used in the document
+}
+
+/**
+ * Styling of one component, as held by the style clipboard
+ */
+export interface ComponentStyle {
+  source: ComponentType; // Component the style was copied from
+  materialId: string | null;
+  color: string | null; // Hex color
+  pattern: PatternApplication | null;
+}
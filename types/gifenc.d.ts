@@ -0,0 +1,38 @@
+/**
+ * Type declarations for gifenc (the package ships none)
+ * Covers the encoder, quantizer and palette mapping used by the turntable export
+ */
+declare module 'gifenc' {
+  export type Palette = number[][]; // [r, g, b] or [r, g, b, a] entries
+
+  export interface GIFFrameOptions {
+    palette?: Palette;
+    delay?: number; // Milliseconds
+    repeat?: number; // -1 = once, 0 = forever, >0 = count
+    transparent?: boolean;
+    transparentIndex?: number;
+    colorDepth?: number;
+    dispose?: number;
+    first?: boolean;
+  }
+
+  export interface GIFEncoderInstance {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: GIFFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+    bytesView(): Uint8Array;
+    reset(): void;
+  }
+
+  export function GIFEncoder(options?: { initialCapacity?: number; auto?: boolean }): GIFEncoderInstance;
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: 'rgb565' | 'rgb444' | 'rgba4444'; oneBitAlpha?: boolean | number; clearAlpha?: boolean }
+  ): Palette;
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: 'rgb565' | 'rgb444' | 'rgba4444'
+  ): Uint8Array;
+}
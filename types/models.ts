@@ -14,6 +14,32 @@ export enum ComponentType {
   HEM = 'hem',
 }
 
+/**
+ * Display names for components
+ */
+export const COMPONENT_LABELS: Record<ComponentType, string> = {
+  [ComponentType.BODY]: 'Body',
+  [ComponentType.SLEEVE_LEFT]: 'Left Sleeve',
+  [ComponentType.SLEEVE_RIGHT]: 'Right Sleeve',
+  [ComponentType.COLLAR]: 'Collar',
+  [ComponentType.CUFF_LEFT]: 'Left Cuff',
+  [ComponentType.CUFF_RIGHT]: 'Right Cuff',
+  [ComponentType.BUTTONS]: 'Buttons',
+  [ComponentType.PLACKET]: 'Placket',
+  [ComponentType.POCKET]: 'Pocket',
+  [ComponentType.HEM]: 'Hem',
+};
+
+/**
+ * Left/right counterparts of paired components
+ */
+export const COMPONENT_MIRRORS: Partial<Record<ComponentType, ComponentType>> = {
+  [ComponentType.SLEEVE_LEFT]: ComponentType.SLEEVE_RIGHT,
+  [ComponentType.SLEEVE_RIGHT]: ComponentType.SLEEVE_LEFT,
+  [ComponentType.CUFF_LEFT]: ComponentType.CUFF_RIGHT,
+  [ComponentType.CUFF_RIGHT]: ComponentType.CUFF_LEFT,
+};
+
 /**
  * Mapping of mesh names to component types
  * This will be populated based on the actual model structure
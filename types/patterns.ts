@@ -6,6 +6,40 @@ export interface PatternTextures {
   normal?: string; // Normal map for pattern (optional)
 }
 
+/**
+ * Built-in procedural pattern generators
+ */
+export type ProceduralPatternType = 'stripes' | 'gingham' | 'plaid' | 'dots' | 'herringbone';
+
+/**
+ * Shape parameters of a procedural pattern
+ */
+export interface ProceduralPatternParams {
+  spacing: number; // Pattern repeats across the UV square at scale 1
+  thickness: number; // 0-1, share of one repeat covered by a stripe, band, dot or twill line
+  angle: number; // Rotation of the pattern in degrees (0-360), added to the application rotation
+}
+
+/**
+ * Procedural pattern definition: generated at runtime instead of loaded from a texture, in the colors
+ * of the pattern's palette slots
+ */
+export interface ProceduralPattern {
+  type: ProceduralPatternType;
+  params: ProceduralPatternParams; // Defaults for new applications
+}
+
+/**
+ * Recolorable color of a pattern
+ * Procedural patterns draw their slots in order (the first one is the background). Texture patterns
+ * are recolored as a gradient map: each pixel's brightness picks a blend of the slots by their tone.
+ */
+export interface PatternPaletteSlot {
+  name: string; // e.g. "Background", "Stripe"
+  color: string; // Default hex color; for texture patterns, the color the slot has in the texture
+  tone?: number; // 0-1 brightness of the slot in the texture; spread from 1 (first) to 0 (last) when missing
+}
+
 /**
  * Pattern properties
  */
@@ -13,6 +47,8 @@ export interface PatternProperties {
   name: string;
   category: 'stripes' | 'checks' | 'dots' | 'geometric' | 'abstract' | 'floral' | 'other';
   textures: PatternTextures;
+  procedural?: ProceduralPattern; // Generated tile; textures are ignored when set
+  palette?: PatternPaletteSlot[]; // Recolorable colors; the pattern keeps its own colors when missing
   defaultIntensity?: number; // 0-1, default opacity
   defaultScale?: number; // Pattern scale/repetition
   defaultRotation?: number; // Rotation in degrees (0-360)
@@ -41,5 +77,7 @@ export interface PatternApplication {
   intensity: number; // 0-1
   scale: number;
   rotation: number; // 0-360 degrees
+  params?: ProceduralPatternParams; // Procedural patterns; the pattern's defaults when missing
+  colors?: string[]; // Palette colors, in the pattern's slot order; the slot defaults when missing
 }
 
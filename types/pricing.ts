@@ -0,0 +1,91 @@
+import { ComponentType } from './models';
+
+/**
+ * Charges for one kind of print
+ */
+export interface PrintRate {
+  setupFee: number; // Per print, in currency units
+  perSquareInch: number; // Per square inch of printed area
+}
+
+/**
+ * Garment sizes offered in the order builder
+ */
+export type GarmentSize = 'XS' | 'S' | 'M' | 'L' | 'XL' | '2XL' | '3XL';
+
+/**
+ * Quantity break: orders of at least minQuantity pieces get the discount
+ */
+export interface QuantityTier {
+  minQuantity: number;
+  discount: number; // Fraction of the unit price, e.g. 0.1 for 10% off
+}
+
+/**
+ * Pricing rules (data/pricing.json)
+ */
+export interface PricingRules {
+  currency: string; // ISO 4217 code
+  basePrice: number; // Blank garment
+  componentShares: Partial<Record<ComponentType, number>>; // Fraction of a material/pattern modifier charged per component
+  premiumSurcharge: number; // Extra for premium materials, scaled by the component share like the modifiers
+  prints: {
+    uvSizeInches: number; // Garment inches covered by the full 0-1 UV range
+    defaultFootprint: { width: number; height: number }; // UV size at scale 1 for prints without a zone
+    text: PrintRate;
+    image: PrintRate;
+  };
+  order: {
+    sizes: GarmentSize[]; // Size run, smallest first
+    sizeUpcharges: Partial<Record<GarmentSize, number>>; // Per piece, on top of the unit price
+    quantityTiers: QuantityTier[]; // Ascending by minQuantity
+  };
+}
+
+/**
+ * One line of a price breakdown
+ */
+export interface PriceLine {
+  kind: 'base' | 'material' | 'premium' | 'pattern' | 'print';
+  label: string; // e.g. "Silk Charmeuse (Body)"
+  amount: number;
+  component?: ComponentType;
+  printId?: string;
+  detail?: string; // e.g. "42.5 sq in"
+}
+
+/**
+ * Price of a design, itemized
+ */
+export interface PriceBreakdown {
+  currency: string;
+  lines: PriceLine[];
+  subtotals: Record<PriceLine['kind'], number>;
+  total: number;
+}
+
+/**
+ * Pieces of one size in an order
+ */
+export interface OrderLine {
+  size: GarmentSize;
+  quantity: number;
+  unitPrice: number; // Discounted design price plus the size upcharge
+  total: number;
+}
+
+/**
+ * Priced order of one design across sizes
+ */
+export interface OrderSummary {
+  currency: string;
+  lines: OrderLine[]; // Sizes with a quantity only
+  totalQuantity: number;
+  tier: QuantityTier; // Quantity break reached by the whole order
+  nextTier?: QuantityTier; // Next quantity break, if any
+  designPrice: PriceBreakdown; // Price of one garment before the quantity discount
+  discountedUnitPrice: number; // Design price after the quantity discount, before size upcharges
+  discountTotal: number; // Savings from the quantity discount over the whole order
+  upchargeTotal: number;
+  total: number;
+}
@@ -92,6 +92,8 @@ export interface PrintApplication {
   width?: number; // Print width in pixels (for reference)
   height?: number; // Print height in pixels (for reference)
   zIndex?: number; // Layer order (higher = on top)
+  mirrorId?: string; // Linked copy on the opposite sleeve (symmetry mode)
+  rosterField?: string; // Roster column whose value replaces textContent per garment (text prints)
 }
 
 
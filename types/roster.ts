@@ -0,0 +1,25 @@
+/**
+ * One garment in a team roster
+ */
+export interface RosterRow {
+  id: string;
+  values: Record<string, string>; // Column name -> cell value
+}
+
+/**
+ * Team roster: per-garment values for text prints bound to its columns
+ */
+export interface Roster {
+  columns: string[]; // Header row, in file order
+  rows: RosterRow[];
+}
+
+/**
+ * Text print bound to a roster column
+ */
+export interface RosterBinding {
+  component: string;
+  printId: string;
+  field: string; // Column name
+  placeholder: string; // The print's own textContent, shown when no row is previewed
+}